@@ -1,13 +1,52 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Project, Task, TaskStatus, TaskPriority, AppState, Comment, ActivityLog } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Project, Task, TaskStatus, AppState, Comment, ActivityLog, ActivityEvent, TaskPlacement, SavedView, PomodoroSettings, ProjectRole, UserProfile } from './types';
 import useLocalStorage, { useUndoableState } from './hooks/useLocalStorage';
-import Header from './components/Header';
+import { usePersistedState } from './hooks/usePersistedState';
+import { useSync } from './hooks/useSync';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { useDashboardFilters, DEFAULT_FILTERS } from './hooks/useDashboardFilters';
+import { createStorageAdapter } from './storage/storageAdapter';
+import { migrateAppState, CURRENT_SCHEMA_VERSION } from './storage/migrations';
+import { prepareImport, resolveImport, ImportMode, ImportPreview as ImportPreviewData } from './storage/importValidation';
+import { buildProjectExport, mergeProjectImport } from './storage/exportFormat';
+import { mergeAppStates, TaskConflict } from './storage/mergeState';
+import { applyEntityChanges, EntityChange } from './storage/syncEntities';
+import { buildCalendar, parseCalendar, mergeCalendarImport, findCalendarUpdates, CalendarComponent } from './storage/icalendar';
+import { parseCsv, buildCsvImport, CsvTable, CsvMapping } from './storage/csv';
+import { downloadFile, fileDateStamp, slugify } from './utils/download';
+import Header, { AppPage } from './components/Header';
 import Dashboard from './components/Dashboard';
+import FocusPage from './components/FocusPage';
+import TimesheetPage from './components/TimesheetPage';
+import AnalyticsPage from './components/AnalyticsPage';
+import TimerBar from './components/TimerBar';
 import Modal from './components/Modal';
 import ProjectForm from './components/ProjectForm';
 import TaskForm from './components/TaskForm';
+import ImportPreview from './components/ImportPreview';
+import CsvImport from './components/CsvImport';
+import CalendarSync, { CalendarScope } from './components/CalendarSync';
+import CommentThread from './components/CommentThread';
+import MentionsList from './components/MentionsList';
+import ProfileManager from './components/ProfileManager';
+import TabConflicts from './components/TabConflicts';
+import SyncSettings from './components/SyncSettings';
+import UpdatePrompt from './components/UpdatePrompt';
 import { SaveStatus } from './components/SaveStatusIndicator';
+import { getDescendants, getBlockingTasks } from './utils/taskTree';
+import { createNextRecurrence } from './utils/recurrence';
+import { parseSearchQuery } from './utils/searchQuery';
+import { createFocusPlan, getFocusList, startNewDay, addToFocusPlan, reorderFocusPlan } from './utils/focusPlan';
+import { todayKey } from './utils/dates';
+import { recordTaskHistory } from './utils/taskHistory';
+import { getTaskChanges, getProjectChanges } from './utils/activity';
+import { encodeMentions, commentToText, getMentionsOf } from './utils/mentions';
+import { toggleChecklistItem } from './utils/markdown';
+import { ASSIGNED_TO_ME } from './utils/assignees';
+import { can, describeDenial, ProjectPermission } from './utils/permissions';
+import { getProfileAvatarUrl, isProfileMember, applyProfileToMember, syncLinkedMembers, unlinkProfile } from './utils/profiles';
+import { DEFAULT_POMODORO_SETTINGS, startTimer, stopTimer, advancePomodoro, getPhaseEnd, removeOrphanedTime } from './utils/timeTracking';
 
 type ModalState = 
   | { type: 'CLOSED' }
@@ -16,45 +55,118 @@ type ModalState =
   | { type: 'CREATE_TASK', projectId: string, parentId?: string | null }
   | { type: 'EDIT_TASK', task: Task }
   | { type: 'CONFIRM_DELETE_PROJECT', project: Project }
-  | { type: 'CONFIRM_BULK_DELETE', projectIds: string[] };
+  | { type: 'CONFIRM_BULK_DELETE', projectIds: string[], skipped: string[] }
+  | { type: 'IMPORT_PREVIEW', fileName: string, preview: ImportPreviewData }
+  | { type: 'IMPORT_FAILED', fileName: string, message: string }
+  | { type: 'CALENDAR' }
+  | { type: 'CSV_IMPORT', fileName: string, table: CsvTable }
+  | { type: 'TASKS_IMPORTED', fileName: string, created: number, updated: number, skipped: number }
+  | { type: 'TASK_COMMENTS', taskId: string }
+  | { type: 'MENTIONS' }
+  | { type: 'PROFILES' }
+  | { type: 'TAB_CONFLICTS' }
+  | { type: 'SYNC' }
+  | { type: 'NOT_ALLOWED', message: string }
+  | { type: 'BULK_SKIPPED', action: 'archived' | 'deleted', count: number, skipped: string[] };
+
+const storageAdapter = createStorageAdapter();
+
+// Several entries can be logged in the same millisecond, e.g. a task moved between projects
+let logCounter = 0;
+
+const emptyState: AppState = { schemaVersion: CURRENT_SCHEMA_VERSION, profiles: [], projects: [], tasks: [], comments: {}, activityLog: {}, savedViews: [], focusPlan: createFocusPlan([]),
+    timeEntries: [], activeTimer: null, pomodoroSettings: DEFAULT_POMODORO_SETTINGS, taskHistory: [] };
 
 const App: React.FC = () => {
-    const [persistedState, setPersistedState] = useLocalStorage<AppState>('focusflow_data', { projects: [], tasks: [], comments: {}, activityLog: {} });
-    const { state, setState, undo, redo, canUndo, canRedo, resetState } = useUndoableState<AppState>(persistedState);
+    const { persistedState, setPersistedState, isLoaded, isLoadingRemote, loadError: storageError, saveError } = usePersistedState(storageAdapter, emptyState, (remoteState, base) => handleRemoteSave(remoteState, base));
+    const { state, setState: setUndoableState, undo, redo, canUndo, canRedo, resetState, rebaseState } = useUndoableState<AppState>(persistedState);
+    // Every change records the status and estimate changes of tasks, which the burndown chart replays
+    const setState = (update: AppState | ((current: AppState) => AppState)) => setUndoableState(current =>
+        recordTaskHistory(current, typeof update === 'function' ? update(current) : update, new Date()));
     
     const [modalState, setModalState] = useState<ModalState>({ type: 'CLOSED' });
-    const [searchQuery, setSearchQuery] = useState('');
+    // The acting profile is per device, not part of the workspace: its project roles apply, and it is who mentions and "Assigned to me" refer to
+    const [currentProfileId, setCurrentProfileId] = useLocalStorage<string | null>('focusflow_current_profile', null);
+    const currentUser: UserProfile | null = state.profiles.find(p => p.id === currentProfileId) ?? null;
+    const { filters, setFilters, activeViewId, setActiveViewId, urlHasFilters } = useDashboardFilters();
+    const search = useMemo(() => parseSearchQuery(filters.searchQuery), [filters.searchQuery]);
     const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+    const [tabConflicts, setTabConflicts] = useState<TaskConflict[]>([]);
+    const [page, setPage] = useState<AppPage>('projects');
+    const [today, setToday] = useState(todayKey());
+    const [isReady, setIsReady] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const sync = useSync(state, isReady, changes => handleSyncedChanges(changes));
+    const { isUpdateAvailable, applyUpdate, dismissUpdate } = useServiceWorker();
 
+    // Bring the loaded data up to the current schema before anything can be saved over it
     useEffect(() => {
-        const oldState = persistedState as any;
-        const needsMigration = !oldState.comments || !oldState.activityLog || oldState.projects.some((p: Project) => p.color === undefined) || oldState.tasks.some((t: Task) => t.startDate === undefined);
-
-        if (needsMigration) {
-            const migratedState: AppState = {
-                projects: (oldState.projects || []).map((p: any) => ({
-                    ...p,
-                    priority: p.priority || TaskPriority.Medium,
-                    isArchived: p.isArchived || false,
-                    color: p.color || '#334155',
-                    members: p.members || [],
-                    goals: p.goals || [],
-                    links: p.links || [],
-                })),
-                tasks: (oldState.tasks || []).map((t: any) => ({
-                    ...t,
-                    startDate: t.startDate || t.createdAt,
-                })),
-                comments: oldState.comments || {},
-                activityLog: oldState.activityLog || {},
-            };
-            setPersistedState(migratedState);
+        if (!isLoaded) return;
+        if (storageError) {
+            setLoadError(storageError);
+            return;
+        }
+        try {
+            const migratedState = migrateAppState(persistedState);
+            if (migratedState !== persistedState) setPersistedState(migratedState);
             resetState(migratedState);
+            setIsReady(true);
+        } catch (error) {
+            console.error("Failed to load data:", error);
+            setLoadError((error as Error).message);
         }
+    }, [isLoaded]);
+
+    // A bookmarked view restores the view's filters, unless the link spells out filters of its own
+    useEffect(() => {
+        if (!isReady || !activeViewId) return;
+        const view = state.savedViews.find(v => v.id === activeViewId);
+        if (!view) setActiveViewId(null);
+        else if (!urlHasFilters) setFilters(view.filters);
+    }, [isReady]);
+
+    // Notice when the day changes while the app is open, so the focus plan can start the new day
+    useEffect(() => {
+        const checkDate = () => setToday(todayKey());
+        const interval = setInterval(checkDate, 60 * 1000);
+        window.addEventListener('focus', checkDate);
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('focus', checkDate);
+        };
     }, []);
 
+    // The rollover is not an undo step: undoing it would only bring back yesterday's plan, which
+    // would be rolled over again at once. It starts a new undo history instead.
+    useEffect(() => {
+        if (isReady && state.focusPlan.date !== today) resetState(startNewDay(state, today));
+    }, [isReady, today, state.focusPlan.date]);
+
+    // Move a Pomodoro timer on to its next phase when the current one ends. After a reload this also
+    // catches up on phases that ended while the app was closed.
+    const phaseEnd = isReady ? getPhaseEnd(state) : null;
+    useEffect(() => {
+        if (phaseEnd === null) return;
+        const timer = setTimeout(() => {
+            // Read from the state the update is applied to; this render's state is a phase old
+            let phase: ReturnType<typeof advancePomodoro>['phase'] = null;
+            let taskTitle: string | undefined;
+            setState(current => {
+                const result = advancePomodoro(current, new Date());
+                phase = result.phase;
+                taskTitle = current.tasks.find(t => t.id === current.activeTimer?.taskId)?.title;
+                return result.state;
+            });
+            if (phase && phase !== 'stopped' && 'Notification' in window && Notification.permission === 'granted') {
+                new Notification(phase === 'break' ? 'Time for a break' : 'Back to work', { body: taskTitle });
+            }
+        }, Math.max(0, phaseEnd - Date.now()));
+        return () => clearTimeout(timer);
+    }, [phaseEnd]);
+
     // Effect for handling auto-saving
     useEffect(() => {
+        if (!isReady) return;
         const hasChanges = JSON.stringify(state) !== JSON.stringify(persistedState);
         if (hasChanges) {
             setSaveStatus('saving');
@@ -63,12 +175,15 @@ const App: React.FC = () => {
             }, 1200); // Debounce saving
             return () => clearTimeout(timer);
         }
-    }, [state, persistedState, setPersistedState]);
+    }, [state, persistedState, setPersistedState, isReady]);
 
     // Effect for updating the save status indicator
     useEffect(() => {
         const hasChanges = JSON.stringify(state) !== JSON.stringify(persistedState);
-        if (saveStatus === 'saving') {
+        // A failed save stays visible until a later one, started by the next change or Save, succeeds
+        if (saveError && hasChanges) {
+            setSaveStatus('saveError');
+        } else if (saveStatus === 'saving') {
              if (!hasChanges) {
                 setSaveStatus('saved');
             }
@@ -77,30 +192,93 @@ const App: React.FC = () => {
         } else {
             setSaveStatus('saved');
         }
-    }, [state, persistedState, saveStatus]);
+    }, [state, persistedState, saveStatus, saveError]);
+
 
+    // Another tab saved: merge its data into this tab's. It is merged into every undo step as well,
+    // so undo keeps the other tab's changes and only steps back through this tab's.
+    const handleRemoteSave = (remoteState: AppState, base: AppState) => {
+        if (!isReady) return;
+        let remote: AppState;
+        try {
+            remote = migrateAppState(remoteState);
+        } catch (error) {
+            console.error("Failed to merge another tab's data:", error); // Saved by a newer version of the app
+            return;
+        }
+        const migratedBase = migrateAppState(base);
+        let merged = state;
+        let conflicts: TaskConflict[] = [];
+        rebaseState((entry, isCurrent) => {
+            const result = mergeAppStates(migratedBase, entry, remote);
+            if (isCurrent) ({ state: merged, conflicts } = result);
+            return result.state;
+        });
+        setTabConflicts(current => [
+            ...current.filter(c => merged.tasks.some(t => t.id === c.taskId) && !conflicts.some(n => n.taskId === c.taskId)),
+            ...conflicts,
+        ]);
+    };
+
+    // Changes from another device. Like another tab's, they apply to every undo step.
+    const handleSyncedChanges = (changes: EntityChange[]) => rebaseState(entry => applyEntityChanges(entry, changes));
+
+    const handleKeepMine = (taskId: string) => setTabConflicts(current => current.filter(c => c.taskId !== taskId));
+
+    const handleUseTheirs = (taskId: string) => {
+        const conflict = tabConflicts.find(c => c.taskId === taskId);
+        if (!conflict) return;
+        const theirs: Partial<Task> = Object.fromEntries(conflict.fields.map(field => [field, conflict.remote[field]]));
+        setState(current => ({ ...current, tasks: current.tasks.map(t => t.id === taskId ? { ...t, ...theirs } : t) }));
+        handleKeepMine(taskId);
+    };
+
+    useEffect(() => {
+        if (modalState.type === 'TAB_CONFLICTS' && tabConflicts.length === 0) setModalState({ type: 'CLOSED' });
+    }, [tabConflicts, modalState.type]);
 
     const handleManualSave = () => {
         setSaveStatus('saving');
         setPersistedState(state);
     };
 
-    const createActivityLog = (projectId: string, action: string): ActivityLog => ({
-        id: `log_${Date.now()}`,
+    const createActivityLog = (event: ActivityEvent): ActivityLog => ({
+        id: `log_${Date.now()}_${logCounter++}`,
         timestamp: new Date().toISOString(),
-        author: "You", // Simulated user
-        action,
+        authorProfileId: currentUser?.id ?? null,
+        author: currentUser?.name ?? "You",
+        event,
     });
     
+    // Role checks run in the handlers, so a hidden button is not the only thing keeping a Viewer out.
+    // Returns whether the current user may act on the project, and explains the refusal when not.
+    const isAllowed = (projectId: string, permission: ProjectPermission): boolean => {
+        const project = state.projects.find(p => p.id === projectId);
+        if (!project || can(project, currentUser, permission)) return true;
+        setModalState({ type: 'NOT_ALLOWED', message: describeDenial(project, currentUser, permission) });
+        return false;
+    };
+
     // Project Handlers
     const handleSaveProject = (projectData: Omit<Project, 'id' | 'createdAt' | 'order' | 'isArchived'>) => {
+        if (modalState.type === 'EDIT_PROJECT') {
+            const membersChanged = JSON.stringify(modalState.project.members.map(m => [m.id, m.name, m.role, m.profileId])) !== JSON.stringify(projectData.members.map(m => [m.id, m.name, m.role, m.profileId]));
+            if (!isAllowed(modalState.project.id, 'editProject') || (membersChanged && !isAllowed(modalState.project.id, 'manageMembers'))) return;
+        } else if (currentUser && projectData.members.length > 0 && !projectData.members.some(m => isProfileMember(m, currentUser))) {
+            // Whoever lists other members keeps ownership of the project they create
+            const owner = applyProfileToMember({ id: `mem_${Date.now()}_owner`, name: currentUser.name, role: ProjectRole.Owner, avatarUrl: '', profileId: null }, currentUser);
+            projectData = { ...projectData, members: [owner, ...projectData.members] };
+        }
         setState(current => {
             if (modalState.type === 'EDIT_PROJECT') {
                 const updatedProject = { ...modalState.project, ...projectData };
-                const log = createActivityLog(updatedProject.id, `edited project details for "${updatedProject.name}".`);
+                const log = createActivityLog({ type: 'project.edited', changes: getProjectChanges(modalState.project, updatedProject) });
+                // Removed members no longer hold the project's tasks
+                const memberIds = new Set(updatedProject.members.map(m => m.id));
                 return {
                     ...current,
                     projects: current.projects.map(p => p.id === modalState.project.id ? updatedProject : p),
+                    tasks: current.tasks.map(t => t.projectId === updatedProject.id && t.assigneeIds.some(id => !memberIds.has(id)) ? { ...t, assigneeIds: t.assigneeIds.filter(id => memberIds.has(id)) } : t),
                     activityLog: { ...current.activityLog, [updatedProject.id]: [...(current.activityLog[updatedProject.id] || []), log] }
                 };
             } else {
@@ -111,7 +289,7 @@ const App: React.FC = () => {
                     isArchived: false,
                     ...projectData
                 };
-                const log = createActivityLog(newProject.id, `created project "${newProject.name}".`);
+                const log = createActivityLog({ type: 'project.created' });
                 return { 
                     ...current, 
                     projects: [...current.projects, newProject],
@@ -122,32 +300,37 @@ const App: React.FC = () => {
         setModalState({ type: 'CLOSED' });
     };
 
-    const requestDeleteProject = (project: Project) => setModalState({ type: 'CONFIRM_DELETE_PROJECT', project });
+    const requestDeleteProject = (project: Project) => {
+        if (isAllowed(project.id, 'deleteProject')) setModalState({ type: 'CONFIRM_DELETE_PROJECT', project });
+    };
 
     const confirmDeleteProject = () => {
         if (modalState.type !== 'CONFIRM_DELETE_PROJECT') return;
         const { id, name } = modalState.project;
+        if (!isAllowed(id, 'deleteProject')) return;
         setState(current => {
             const newLog = { ...current.activityLog };
             delete newLog[id];
             const newComments = { ...current.comments };
             delete newComments[id];
-            return {
+            return removeOrphanedTime({
+                ...current,
                 projects: current.projects.filter(p => p.id !== id),
                 tasks: current.tasks.filter(t => t.projectId !== id),
                 comments: newComments,
                 activityLog: newLog,
-            };
+            });
         });
         setModalState({ type: 'CLOSED' });
     };
 
     const handleToggleArchive = (projectId: string) => {
+        if (!isAllowed(projectId, 'archiveProject')) return;
         setState(current => {
             const project = current.projects.find(p => p.id === projectId);
             if (!project) return current;
             const isArchiving = !project.isArchived;
-            const log = createActivityLog(projectId, isArchiving ? `archived project "${project.name}".` : `restored project "${project.name}".`);
+            const log = createActivityLog({ type: isArchiving ? 'project.archived' : 'project.restored' });
             return {
                 ...current,
                 projects: current.projects.map(p => p.id === projectId ? { ...p, isArchived: isArchiving } : p),
@@ -157,19 +340,39 @@ const App: React.FC = () => {
     };
     
     // Task Handlers
+
+    // A task's thread follows it to another project; mentions are matched again against the new project's members
+    const moveTaskComments = (current: AppState, taskId: string, fromProjectId: string, toProjectId: string): AppState['comments'] => {
+        const fromMembers = current.projects.find(p => p.id === fromProjectId)?.members || [];
+        const toMembers = current.projects.find(p => p.id === toProjectId)?.members || [];
+        const fromList = current.comments[fromProjectId] || [];
+        const moved = fromList.filter(c => c.taskId === taskId).map((c): Comment => ({ ...c, projectId: toProjectId, ...encodeMentions(commentToText(c.content, fromMembers), toMembers) }));
+        if (moved.length === 0) return current.comments;
+        return {
+            ...current.comments,
+            [fromProjectId]: fromList.filter(c => c.taskId !== taskId),
+            [toProjectId]: [...(current.comments[toProjectId] || []), ...moved],
+        };
+    };
+
     const handleSaveTask = (
-      taskData: Omit<Task, 'id' | 'projectId' | 'parentId' | 'isFocused' | 'createdAt' | 'order'>,
+      taskData: Omit<Task, 'id' | 'projectId' | 'parentId' | 'isFocused' | 'createdAt' | 'createdBy' | 'order'>,
       newProjectId: string,
       newParentId: string | null
     ) => {
+      // Moving a task out of a project changes both projects
+      const sourceProjectId = modalState.type === 'EDIT_TASK' ? modalState.task.projectId : newProjectId;
+      if (!isAllowed(sourceProjectId, 'editTasks') || !isAllowed(newProjectId, 'editTasks')) return;
       setState(current => {
-        let logAction: string;
         let finalTasks: Task[];
         let finalActivityLog = { ...current.activityLog };
+        let finalComments = current.comments;
+        const addLog = (projectId: string, event: ActivityEvent) => {
+          finalActivityLog[projectId] = [...(finalActivityLog[projectId] || []), createActivityLog(event)];
+        };
         
         if (modalState.type === 'EDIT_TASK') {
           const originalTask = modalState.task;
-          logAction = `edited task "${taskData.title}".`;
     
           const hasMoved = originalTask.projectId !== newProjectId || originalTask.parentId !== newParentId;
           const taskWithData = { ...originalTask, ...taskData };
@@ -190,21 +393,31 @@ const App: React.FC = () => {
             finalTasks = otherTasks.map(t => oldSiblingMap.get(t.id) || t);
             finalTasks.push(taskWithNewOrder);
 
+            // A move between projects shows up in both projects' logs
+            const moveEvent: ActivityEvent = { type: 'task.moved', taskId: originalTask.id, title: taskData.title, fromProjectId: originalTask.projectId, toProjectId: newProjectId, fromParentId: originalTask.parentId, toParentId: newParentId };
+            addLog(originalTask.projectId, moveEvent);
             if (originalTask.projectId !== newProjectId) {
-                const logMove = createActivityLog(newProjectId, `moved task "${taskData.title}" into this project.`);
-                finalActivityLog[newProjectId] = [...(finalActivityLog[newProjectId] || []), logMove];
+              addLog(newProjectId, moveEvent);
+              finalComments = moveTaskComments(current, originalTask.id, originalTask.projectId, newProjectId);
+              // Dependencies stay within a project: tasks left behind stop waiting for the moved one (the form says so)
+              finalTasks = finalTasks.map(t => t.projectId !== newProjectId && t.dependsOn.includes(originalTask.id)
+                ? { ...t, dependsOn: t.dependsOn.filter(id => id !== originalTask.id) }
+                : t);
             }
           } else {
             finalTasks = current.tasks.map(t => t.id === originalTask.id ? taskWithData : t);
           }
-           
-          const logEdit = createActivityLog(originalTask.projectId, logAction);
-          finalActivityLog[originalTask.projectId] = [...(finalActivityLog[originalTask.projectId] || []), logEdit];
 
-          return { ...current, tasks: finalTasks, activityLog: finalActivityLog };
+          if (originalTask.status !== taskWithData.status) {
+            addLog(originalTask.projectId, { type: 'task.status_changed', taskId: originalTask.id, title: taskData.title, from: originalTask.status, to: taskWithData.status, nextTaskId: null, nextDueDate: null });
+          }
+          const members = current.projects.filter(p => p.id === originalTask.projectId || p.id === newProjectId).flatMap(p => p.members);
+          const changes = getTaskChanges(originalTask, taskWithData, members);
+          if (changes.length > 0) addLog(originalTask.projectId, { type: 'task.edited', taskId: originalTask.id, title: taskData.title, changes });
+
+          return { ...current, tasks: finalTasks, comments: finalComments, activityLog: finalActivityLog };
 
         } else if (modalState.type === 'CREATE_TASK') {
-          logAction = `created task "${taskData.title}".`;
           const siblingTasks = current.tasks.filter(t => t.projectId === newProjectId && t.parentId === newParentId);
           const newTask: Task = {
             id: `task_${Date.now()}`,
@@ -212,12 +425,12 @@ const App: React.FC = () => {
             parentId: newParentId,
             isFocused: false,
             createdAt: new Date().toISOString(),
+            createdBy: currentUser?.id ?? null,
             order: (siblingTasks.reduce((max, t) => Math.max(t.order, max), -1) + 1),
             ...taskData,
           };
           finalTasks = [...current.tasks, newTask];
-          const log = createActivityLog(newProjectId, logAction);
-          finalActivityLog[newProjectId] = [...(finalActivityLog[newProjectId] || []), log];
+          addLog(newProjectId, { type: 'task.created', taskId: newTask.id, title: newTask.title });
           return { ...current, tasks: finalTasks, activityLog: finalActivityLog };
         } else {
           return current;
@@ -227,6 +440,8 @@ const App: React.FC = () => {
     };
 
     const handleDeleteTask = (taskId: string) => {
+        const task = state.tasks.find(t => t.id === taskId);
+        if (task && !isAllowed(task.projectId, 'editTasks')) return;
         setState(current => {
             const taskToDelete = current.tasks.find(t => t.id === taskId);
             if (!taskToDelete) return current;
@@ -241,23 +456,50 @@ const App: React.FC = () => {
                 search = tasksToDelete.size > currentSize;
             }
             
-            const log = createActivityLog(taskToDelete.projectId, `deleted task "${taskToDelete.title}".`);
-            return {
+            const log = createActivityLog({ type: 'task.deleted', taskId, title: taskToDelete.title, subTaskCount: tasksToDelete.size - 1 });
+            return removeOrphanedTime({
                 ...current,
-                tasks: current.tasks.filter(t => !tasksToDelete.has(t.id)),
+                tasks: current.tasks
+                    .filter(t => !tasksToDelete.has(t.id))
+                    .map(t => t.dependsOn.some(id => tasksToDelete.has(id)) ? { ...t, dependsOn: t.dependsOn.filter(id => !tasksToDelete.has(id)) } : t),
+                comments: { ...current.comments, [taskToDelete.projectId]: (current.comments[taskToDelete.projectId] || []).filter(c => !c.taskId || !tasksToDelete.has(c.taskId)) },
                 activityLog: { ...current.activityLog, [taskToDelete.projectId]: [...(current.activityLog[taskToDelete.projectId] || []), log] }
-            };
+            });
         });
     };
 
-    const handleUpdateTaskStatus = (taskId: string, status: TaskStatus) => {
+    const handleUpdateTaskStatus = (taskId: string, status: TaskStatus, placement?: TaskPlacement) => {
         const task = state.tasks.find(t => t.id === taskId);
-        if (!task || task.status === status) return;
+        if (!task || (task.status === status && !placement) || !isAllowed(task.projectId, 'editTasks')) return;
+        if (status === TaskStatus.InProgress && task.status !== status) {
+            const blockingTasks = getBlockingTasks(task, state.tasks);
+            if (blockingTasks.length > 0 && !window.confirm(`"${task.title}" is blocked by unfinished tasks: ${blockingTasks.map(t => `"${t.title}"`).join(', ')}. Start it anyway?`)) return;
+        }
         setState(current => {
-            const log = createActivityLog(task.projectId, `changed status of task "${task.title}" to ${status}.`);
+            let updatedTasks = current.tasks.map(t => t.id === taskId ? { ...t, status } : t);
+
+            // Board drops also carry a position; order is only meaningful among siblings.
+            const target = placement && updatedTasks.find(t => t.id === placement.targetId);
+            if (placement && target && target.projectId === task.projectId && target.parentId === task.parentId) {
+                const siblings = updatedTasks.filter(t => t.projectId === task.projectId && t.parentId === task.parentId);
+                const reorderedMap = new Map<string, Task>(handleReorder(taskId, placement.targetId, siblings, placement.position).map(t => [t.id, t]));
+                updatedTasks = updatedTasks.map(t => reorderedMap.get(t.id) || t);
+            }
+
+            if (task.status === status) return { ...current, tasks: updatedTasks };
+
+            const recurrence = status === TaskStatus.Done ? createNextRecurrence(task, current.tasks) : null;
+            if (recurrence) {
+                updatedTasks = [...updatedTasks.map(t => t.id === taskId ? { ...t, recurrence: null } : t), ...recurrence.nextTasks];
+            }
+
+            const log = createActivityLog({
+                type: 'task.status_changed', taskId, title: task.title, from: task.status, to: status,
+                nextTaskId: recurrence ? recurrence.nextTasks[0].id : null, nextDueDate: recurrence ? recurrence.nextDueDate : null,
+            });
             return {
                 ...current,
-                tasks: current.tasks.map(t => t.id === taskId ? { ...t, status } : t),
+                tasks: updatedTasks,
                 activityLog: { ...current.activityLog, [task.projectId]: [...(current.activityLog[task.projectId] || []), log] }
             };
         });
@@ -284,19 +526,61 @@ const App: React.FC = () => {
     };
     
     const handleReorderProjects = (draggedId: string, targetId: string) => setState(current => ({ ...current, projects: handleReorder(draggedId, targetId, current.projects)}));
+
+    const handleMoveTask = (taskId: string, projectId: string, newParentId: string | null, placement?: TaskPlacement) => {
+        if (!isAllowed(projectId, 'editTasks')) return;
+        setState(current => {
+            const task = current.tasks.find(t => t.id === taskId);
+            if (!task || task.projectId !== projectId) return current;
+
+            const newParent = newParentId ? current.tasks.find(t => t.id === newParentId) : null;
+            if (newParentId && (!newParent || newParent.projectId !== projectId)) return current;
+            // A task cannot become a child of itself or of one of its own descendants
+            if (newParentId === taskId || (newParentId && getDescendants(taskId, current.tasks).has(newParentId))) return current;
+
+            const compact = (list: Task[]) => [...list].sort((a, b) => a.order - b.order).map((t, index) => ({ ...t, order: index }));
+            const otherTasks = current.tasks.filter(t => t.id !== taskId);
+            const oldSiblings = compact(otherTasks.filter(t => t.projectId === projectId && t.parentId === task.parentId));
+            const newGroup = [
+                ...otherTasks.filter(t => t.projectId === projectId && t.parentId === newParentId),
+                { ...task, parentId: newParentId, order: Number.MAX_SAFE_INTEGER },
+            ];
+            const newSiblings = compact(placement ? handleReorder(taskId, placement.targetId, newGroup, placement.position) : newGroup);
+
+            const updatedMap = new Map<string, Task>([...oldSiblings, ...newSiblings].map(t => [t.id, t]));
+            const updatedTasks = current.tasks.map(t => updatedMap.get(t.id) || t);
+
+            if (task.parentId === newParentId) return { ...current, tasks: updatedTasks };
+
+            const log = createActivityLog({ type: 'task.moved', taskId, title: task.title, fromProjectId: projectId, toProjectId: projectId, fromParentId: task.parentId, toParentId: newParentId });
+            return {
+                ...current,
+                tasks: updatedTasks,
+                activityLog: { ...current.activityLog, [projectId]: [...(current.activityLog[projectId] || []), log] }
+            };
+        });
+    };
     
     // New Feature Handlers
-    const handleAddComment = (projectId: string, content: string) => {
+    const handleAddComment = (projectId: string, text: string, taskId: string | null) => {
+        if (!isAllowed(projectId, 'comment')) return;
         setState(current => {
+            const project = current.projects.find(p => p.id === projectId);
+            const task = taskId ? current.tasks.find(t => t.id === taskId) : undefined;
+            if (!project || (taskId && !task)) return current;
+            const { content, mentions } = encodeMentions(text, project.members);
             const newComment: Comment = {
                 id: `comm_${Date.now()}`,
                 projectId,
-                authorName: "You",
-                authorAvatarUrl: "https://i.pravatar.cc/40?u=current_user",
+                taskId,
+                authorProfileId: currentUser?.id ?? null,
+                authorName: currentUser?.name ?? "You",
+                authorAvatarUrl: currentUser ? getProfileAvatarUrl(currentUser) : '',
                 content,
+                mentions,
                 createdAt: new Date().toISOString(),
             };
-            const log = createActivityLog(projectId, `added a comment.`);
+            const log = createActivityLog(task ? { type: 'comment.added', commentId: newComment.id, taskId: task.id, title: task.title } : { type: 'comment.added', commentId: newComment.id });
             return {
                 ...current,
                 comments: { ...current.comments, [projectId]: [...(current.comments[projectId] || []), newComment] },
@@ -305,26 +589,45 @@ const App: React.FC = () => {
         });
     };
     
-    const handleBulkDelete = (projectIds: string[]) => setModalState({ type: 'CONFIRM_BULK_DELETE', projectIds });
+    // Bulk actions go ahead on the projects the current user may change and name the others
+    const splitByPermission = (projectIds: string[], permission: ProjectPermission) => {
+        const projects = state.projects.filter(p => projectIds.includes(p.id));
+        return {
+            allowedIds: projects.filter(p => can(p, currentUser, permission)).map(p => p.id),
+            skipped: projects.filter(p => !can(p, currentUser, permission)).map(p => p.name),
+        };
+    };
+
+    const handleBulkDelete = (projectIds: string[]) => {
+        const { allowedIds, skipped } = splitByPermission(projectIds, 'deleteProject');
+        setModalState(allowedIds.length > 0
+            ? { type: 'CONFIRM_BULK_DELETE', projectIds: allowedIds, skipped }
+            : { type: 'BULK_SKIPPED', action: 'deleted', count: 0, skipped });
+    };
     const confirmBulkDelete = () => {
         if(modalState.type !== 'CONFIRM_BULK_DELETE') return;
-        const idsToDelete = new Set(modalState.projectIds);
-        setState(current => ({
+        const { allowedIds, skipped } = splitByPermission(modalState.projectIds, 'deleteProject');
+        const idsToDelete = new Set(allowedIds);
+        skipped.push(...modalState.skipped);
+        setState(current => removeOrphanedTime({
+            ...current,
             projects: current.projects.filter(p => !idsToDelete.has(p.id)),
             tasks: current.tasks.filter(t => !idsToDelete.has(t.projectId)),
             comments: Object.fromEntries(Object.entries(current.comments).filter(([pid]) => !idsToDelete.has(pid))),
             activityLog: Object.fromEntries(Object.entries(current.activityLog).filter(([pid]) => !idsToDelete.has(pid))),
         }));
-        setModalState({ type: 'CLOSED' });
+        setModalState(skipped.length > 0 ? { type: 'BULK_SKIPPED', action: 'deleted', count: idsToDelete.size, skipped } : { type: 'CLOSED' });
     };
 
     const handleBulkArchive = (projectIds: string[]) => {
+        const { allowedIds, skipped } = splitByPermission(projectIds, 'archiveProject');
+        if (skipped.length > 0) setModalState({ type: 'BULK_SKIPPED', action: 'archived', count: allowedIds.length, skipped });
          setState(current => {
-            const idsToArchive = new Set(projectIds);
+            const idsToArchive = new Set(allowedIds);
             let updatedActivity = { ...current.activityLog };
             const updatedProjects = current.projects.map(p => {
                 if(idsToArchive.has(p.id)) {
-                    const log = createActivityLog(p.id, `archived project "${p.name}".`);
+                    const log = createActivityLog({ type: 'project.archived' });
                     updatedActivity[p.id] = [...(updatedActivity[p.id] || []), log];
                     return { ...p, isArchived: true };
                 }
@@ -334,26 +637,193 @@ const App: React.FC = () => {
         });
     };
     
+    // Focus plan
+    const handleReorderFocus = (taskId: string, placement: TaskPlacement) => setState(current => reorderFocusPlan(current, taskId, placement));
+    const handleAddToFocus = (taskIds: string[]) => setState(current => addToFocusPlan(current, taskIds));
+    const handleSetAutoRollover = (autoRollover: boolean) => setState(current => ({ ...current, focusPlan: { ...current.focusPlan, autoRollover } }));
+    // Focus is the user's own plan for the day, so it is open to Viewers too
+    const handleToggleTaskFocus = (taskId: string) => setState(current => ({ ...current, tasks: current.tasks.map(t => t.id === taskId ? { ...t, isFocused: !t.isFocused } : t)}));
+    const handleToggleChecklistItem = (taskId: string, line: number) => {
+        const task = state.tasks.find(t => t.id === taskId);
+        if (!task || !isAllowed(task.projectId, 'editTasks')) return;
+        setState(current => ({ ...current, tasks: current.tasks.map(t => t.id === taskId ? { ...t, description: toggleChecklistItem(t.description, line) } : t)}));
+    };
+
+    // Time tracking
+    const handleStartTimer = (taskId: string) => {
+        if (state.pomodoroSettings.enabled && 'Notification' in window && Notification.permission === 'default') Notification.requestPermission();
+        setState(current => startTimer(current, taskId, new Date()));
+    };
+    const handleStopTimer = () => setState(current => stopTimer(current, new Date()));
+    const handleChangeTimerNote = (note: string) => setState(current => current.activeTimer ? { ...current, activeTimer: { ...current.activeTimer, note } } : current);
+    const handleUpdateEntryNote = (entryId: string, note: string) => setState(current => ({ ...current, timeEntries: current.timeEntries.map(e => e.id === entryId ? { ...e, note } : e) }));
+    const handleDeleteEntry = (entryId: string) => setState(current => ({ ...current, timeEntries: current.timeEntries.filter(e => e.id !== entryId) }));
+    const handleUpdatePomodoroSettings = (pomodoroSettings: PomodoroSettings) => setState(current => ({ ...current, pomodoroSettings }));
+
+    // Profiles. Linked members follow their profile's name and avatar in every project.
+    const handleSaveProfile = (profile: UserProfile) => {
+        setState(current => ({
+            ...current,
+            profiles: current.profiles.some(p => p.id === profile.id) ? current.profiles.map(p => p.id === profile.id ? profile : p) : [...current.profiles, profile],
+            projects: syncLinkedMembers(current.projects, profile),
+        }));
+    };
+
+    const handleDeleteProfile = (profileId: string) => {
+        setState(current => ({ ...current, profiles: current.profiles.filter(p => p.id !== profileId), projects: unlinkProfile(current.projects, profileId) }));
+        if (currentProfileId === profileId) setCurrentProfileId(null);
+    };
+
+    // Saved views
+    const handleSelectView = (view: SavedView | null) => {
+        setActiveViewId(view ? view.id : null);
+        setFilters(view ? view.filters : DEFAULT_FILTERS);
+    };
+
+    // A built-in view; "me" is resolved when filtering, so it follows a change of profile
+    const handleSelectAssignedToMe = () => {
+        setActiveViewId(null);
+        setFilters({ ...DEFAULT_FILTERS, assignee: ASSIGNED_TO_ME });
+    };
+
+    const handleSaveView = (name: string) => {
+        const view: SavedView = { id: `view_${Date.now()}`, name, filters, createdAt: new Date().toISOString() };
+        setState(current => ({ ...current, savedViews: [...current.savedViews, view] }));
+        setActiveViewId(view.id);
+    };
+
+    const handleUpdateView = (viewId: string) => {
+        setState(current => ({ ...current, savedViews: current.savedViews.map(v => v.id === viewId ? { ...v, filters } : v) }));
+    };
+
+    const handleRenameView = (viewId: string, name: string) => {
+        setState(current => ({ ...current, savedViews: current.savedViews.map(v => v.id === viewId ? { ...v, name } : v) }));
+    };
+
+    const handleDeleteView = (viewId: string) => {
+        setState(current => ({ ...current, savedViews: current.savedViews.filter(v => v.id !== viewId) }));
+        if (activeViewId === viewId) setActiveViewId(null);
+    };
+
     // Import/Export and Modal Rendering
-    const handleImportData = (data: AppState) => {
-        const migratedData: AppState = { // Ensure imported data fits the newest schema
-            projects: (data.projects || []).map((p: any) => ({
-                priority: TaskPriority.Medium, isArchived: false, color: '#334155', members: [], goals: [], links: [], ...p,
-            })),
-            tasks: (data.tasks || []).map((t: any) => ({
-                ...t,
-                startDate: t.startDate || t.createdAt,
-            })),
-            comments: data.comments || {},
-            activityLog: data.activityLog || {},
-        };
-        resetState(migratedData);
+    const handleImportFile = (fileContent: string, fileName: string) => {
+        try {
+            if (fileName.toLowerCase().endsWith('.csv')) {
+                setModalState({ type: 'CSV_IMPORT', fileName, table: parseCsv(fileContent) });
+                return;
+            }
+            setModalState({ type: 'IMPORT_PREVIEW', fileName, preview: prepareImport(fileContent) });
+        } catch (error) {
+            console.error("Failed to import data:", error);
+            setModalState({ type: 'IMPORT_FAILED', fileName, message: (error as Error).message });
+        }
+    };
+
+    const confirmImport = (mode: ImportMode) => {
+        if (modalState.type !== 'IMPORT_PREVIEW') return;
+        const importedData = resolveImport(modalState.preview, mode);
+        if (modalState.preview.kind === 'project') {
+            setState(current => {
+                const { state: merged, importedProjects } = mergeProjectImport(current, importedData);
+                const activityLog = { ...merged.activityLog };
+                importedProjects.forEach(p => {
+                    activityLog[p.id] = [...(activityLog[p.id] || []), createActivityLog({ type: 'project.imported' })];
+                });
+                return { ...merged, activityLog };
+            });
+        } else {
+            resetState(importedData);
+        }
+        setModalState({ type: 'CLOSED' });
+    };
+
+    const confirmCsvImport = (mapping: CsvMapping) => {
+        if (modalState.type !== 'CSV_IMPORT') return;
+        const { fileName, table } = modalState;
+        const { tasks: newTasks } = buildCsvImport(state, table, mapping);
+        const targetProjectIds = Array.from(new Set(newTasks.map(t => t.projectId)));
+        if (!targetProjectIds.every(projectId => isAllowed(projectId, 'editTasks'))) return;
+        setState(current => {
+            const { tasks: importedTasks } = buildCsvImport(current, table, mapping);
+            const activityLog = { ...current.activityLog };
+            const countByProject = importedTasks.reduce((acc, t) => ({ ...acc, [t.projectId]: (acc[t.projectId] || 0) + 1 }), {} as Record<string, number>);
+            Object.entries(countByProject).forEach(([projectId, count]) => {
+                activityLog[projectId] = [...(activityLog[projectId] || []), createActivityLog({ type: 'tasks.imported', fileName, created: count, updated: 0 })];
+            });
+            return { ...current, tasks: [...current.tasks, ...importedTasks], activityLog };
+        });
+        setModalState({ type: 'TASKS_IMPORTED', fileName, created: newTasks.length, updated: 0, skipped: 0 });
+    };
+
+    const handleExportProject = (projectId: string) => {
+        const project = state.projects.find(p => p.id === projectId);
+        if (!project) return;
+        const data = buildProjectExport(state, projectId);
+        downloadFile(JSON.stringify(data, null, 2), `focusflow-project-${slugify(project.name)}-${fileDateStamp()}.json`, 'application/json');
+    };
+
+    const handleExportCalendar = (scope: CalendarScope, component: CalendarComponent) => {
+        let tasks = state.tasks;
+        let name = 'FocusFlow';
+        if (scope.type === 'project') {
+            const project = state.projects.find(p => p.id === scope.projectId);
+            tasks = tasks.filter(t => t.projectId === scope.projectId);
+            name = `FocusFlow - ${project?.name || 'Project'}`;
+        } else if (scope.type === 'focused') {
+            tasks = tasks.filter(t => t.isFocused);
+            name = 'FocusFlow - Focused Tasks';
+        }
+        downloadFile(buildCalendar(tasks, state.projects, component, name), `${slugify(name)}-${fileDateStamp()}.ics`, 'text/calendar');
+    };
+
+    const handleImportCalendar = (fileContent: string, fileName: string, projectId: string) => {
+        let items;
+        try {
+            items = parseCalendar(fileContent);
+        } catch (error) {
+            console.error("Failed to import calendar:", error);
+            setModalState({ type: 'IMPORT_FAILED', fileName, message: (error as Error).message });
+            return;
+        }
+        if (!isAllowed(projectId, 'editTasks')) return;
+        // Items can update tasks in any project, so those the user cannot edit are left alone
+        const updates = findCalendarUpdates(state, items);
+        const skipTaskIds = new Set<string>(updates
+            .filter(({ task }) => {
+                const project = state.projects.find(p => p.id === task.projectId);
+                return !!project && !can(project, currentUser, 'editTasks');
+            })
+            .map(({ task }) => task.id));
+        const blockedStarts = updates.filter(({ task, item }) => !skipTaskIds.has(task.id) && item.status === TaskStatus.InProgress
+            && task.status !== TaskStatus.InProgress && getBlockingTasks(task, state.tasks).length > 0);
+        const keepStatusIds = new Set<string>();
+        if (blockedStarts.length > 0 && !window.confirm(`${blockedStarts.map(({ task }) => `"${task.title}"`).join(', ')} ${blockedStarts.length === 1 ? 'is' : 'are'} blocked by unfinished tasks. Start ${blockedStarts.length === 1 ? 'it' : 'them'} anyway? Otherwise the import keeps their current status.`)) {
+            blockedStarts.forEach(({ task }) => keepStatusIds.add(task.id));
+        }
+
+        // The counts come from the merge that is applied; the update runs before setState returns
+        let created = 0;
+        let updated = 0;
+        let skipped = 0;
+        setState(current => {
+            const result = mergeCalendarImport(current, items, projectId, { skipTaskIds, keepStatusIds });
+            ({ created, updated, skipped } = result);
+            const merged = result.state;
+            const activityLog = { ...merged.activityLog };
+            const addLog = (logProjectId: string, log: ActivityLog) => {
+                activityLog[logProjectId] = [...(activityLog[logProjectId] || []), log];
+            };
+            result.statusChanges.forEach(change => addLog(change.projectId, createActivityLog(change.event)));
+            addLog(projectId, createActivityLog({ type: 'tasks.imported', fileName, created, updated }));
+            return { ...merged, activityLog };
+        });
+        setModalState({ type: 'TASKS_IMPORTED', fileName, created, updated, skipped });
     };
 
     const renderModalContent = () => {
         switch (modalState.type) {
-            case 'CREATE_PROJECT': return <ProjectForm onSave={handleSaveProject} />;
-            case 'EDIT_PROJECT': return <ProjectForm onSave={handleSaveProject} projectToEdit={modalState.project} />;
+            case 'CREATE_PROJECT': return <ProjectForm onSave={handleSaveProject} profiles={state.profiles} canManageMembers />;
+            case 'EDIT_PROJECT': return <ProjectForm onSave={handleSaveProject} projectToEdit={modalState.project} profiles={state.profiles} canManageMembers={can(modalState.project, currentUser, 'manageMembers')} />;
             case 'CREATE_TASK':
             case 'EDIT_TASK':
                 const isEdit = modalState.type === 'EDIT_TASK';
@@ -377,12 +847,87 @@ const App: React.FC = () => {
             case 'CONFIRM_BULK_DELETE': return (
                  <div>
                     <p className="text-on-surface-secondary mb-6">Delete <strong>{modalState.projectIds.length}</strong> project(s)? This is permanent and cannot be undone.</p>
+                    {modalState.skipped.length > 0 && <p className="text-sm text-amber-300 -mt-4 mb-6">{currentUser?.name} cannot delete and will skip: {modalState.skipped.join(', ')}.</p>}
                     <div className="flex justify-end gap-4">
                         <button onClick={() => setModalState({ type: 'CLOSED' })} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Cancel</button>
                         <button onClick={confirmBulkDelete} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md">Delete</button>
                     </div>
                 </div>
             );
+            case 'IMPORT_PREVIEW': return (
+                <ImportPreview fileName={modalState.fileName} preview={modalState.preview} onConfirm={confirmImport} onCancel={() => setModalState({ type: 'CLOSED' })} />
+            );
+            case 'IMPORT_FAILED': return (
+                <div>
+                    <p className="text-on-surface-secondary mb-6">"<strong>{modalState.fileName}</strong>" could not be imported. {modalState.message}</p>
+                    <div className="flex justify-end">
+                        <button onClick={() => setModalState({ type: 'CLOSED' })} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Close</button>
+                    </div>
+                </div>
+            );
+            case 'CSV_IMPORT': return (
+                <CsvImport fileName={modalState.fileName} table={modalState.table} appState={state} onConfirm={confirmCsvImport} onCancel={() => setModalState({ type: 'CLOSED' })} />
+            );
+            case 'CALENDAR': return (
+                <CalendarSync projects={state.projects} onExport={handleExportCalendar} onImport={handleImportCalendar} />
+            );
+            case 'NOT_ALLOWED': return (
+                <div>
+                    <p className="text-on-surface-secondary mb-6">{modalState.message} Ask an Owner of the project to change your role.</p>
+                    <div className="flex justify-end">
+                        <button onClick={() => setModalState({ type: 'CLOSED' })} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Close</button>
+                    </div>
+                </div>
+            );
+            case 'BULK_SKIPPED': return (
+                <div>
+                    <p className="text-on-surface-secondary mb-2">{modalState.count} project(s) {modalState.action}. {currentUser?.name} is not an Owner of these, so they were skipped:</p>
+                    <ul className="list-disc list-inside text-on-surface mb-6">
+                        {modalState.skipped.map((name, i) => <li key={i}>{name}</li>)}
+                    </ul>
+                    <div className="flex justify-end">
+                        <button onClick={() => setModalState({ type: 'CLOSED' })} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Close</button>
+                    </div>
+                </div>
+            );
+            case 'TASKS_IMPORTED': return (
+                <div>
+                    <p className="text-on-surface-secondary mb-6">"<strong>{modalState.fileName}</strong>" added {modalState.created} new task(s){modalState.updated > 0 ? ` and updated ${modalState.updated} existing task(s)` : ''}.{modalState.skipped > 0 ? ` ${modalState.skipped} task(s) in projects you cannot edit were left unchanged.` : ''}</p>
+                    <div className="flex justify-end">
+                        <button onClick={() => setModalState({ type: 'CLOSED' })} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Close</button>
+                    </div>
+                </div>
+            );
+            case 'TASK_COMMENTS': {
+                const task = state.tasks.find(t => t.id === modalState.taskId);
+                const project = task && state.projects.find(p => p.id === task.projectId);
+                if (!task || !project) return <p className="text-on-surface-secondary">This task no longer exists.</p>;
+                return <CommentThread
+                    comments={(state.comments[project.id] || []).filter(c => c.taskId === task.id)}
+                    members={project.members}
+                    profiles={state.profiles}
+                    onAddComment={content => handleAddComment(project.id, content, task.id)}
+                    emptyMessage="No comments on this task yet."
+                    canComment={can(project, currentUser, 'comment')}
+                />;
+            }
+            case 'MENTIONS': return <MentionsList appState={state} currentUser={currentUser} onManageProfiles={() => setModalState({ type: 'PROFILES' })} onOpenTask={(task) => setModalState({ type: 'TASK_COMMENTS', taskId: task.id })} />;
+            case 'TAB_CONFLICTS': return <TabConflicts conflicts={tabConflicts} allProjects={state.projects} allTasks={state.tasks} onKeepMine={handleKeepMine} onUseTheirs={handleUseTheirs} />;
+            case 'SYNC': return <SyncSettings
+                settings={sync.settings}
+                onSaveSettings={sync.updateSettings}
+                status={sync.status}
+                error={sync.error}
+                isLeader={sync.isLeader}
+                isSyncing={sync.isSyncing}
+                pendingCount={sync.pendingCount}
+                lastSyncedAt={sync.lastSyncedAt}
+                conflicts={sync.conflicts}
+                appState={state}
+                onSyncNow={sync.syncNow}
+                onResolveConflict={sync.resolveConflict}
+            />;
+            case 'PROFILES': return <ProfileManager profiles={state.profiles} currentProfileId={currentUser?.id ?? null} onSelectProfile={setCurrentProfileId} onSaveProfile={handleSaveProfile} onDeleteProfile={handleDeleteProfile} />;
             default: return null;
         }
     };
@@ -394,40 +939,139 @@ const App: React.FC = () => {
             case 'EDIT_TASK': return 'Edit Task';
             case 'CONFIRM_DELETE_PROJECT': return 'Delete Project';
             case 'CONFIRM_BULK_DELETE': return 'Bulk Delete Projects';
+            case 'IMPORT_PREVIEW': return 'Review Import';
+            case 'IMPORT_FAILED': return 'Import Failed';
+            case 'CALENDAR': return 'Calendar Export & Import';
+            case 'CSV_IMPORT': return 'Map CSV Columns';
+            case 'TASKS_IMPORTED': return 'Import Complete';
+            case 'TASK_COMMENTS': return `Comments on "${state.tasks.find(t => t.id === modalState.taskId)?.title ?? 'deleted task'}"`;
+            case 'MENTIONS': return 'Mentions';
+            case 'TAB_CONFLICTS': return 'Changed in Another Tab';
+            case 'PROFILES': return 'Profiles';
+            case 'SYNC': return 'Sync';
+            case 'NOT_ALLOWED': return 'Not Allowed';
+            case 'BULK_SKIPPED': return 'Some Projects Were Skipped';
             default: return '';
         }
     }
 
+    if (loadError) {
+        return (
+            <div className="min-h-screen bg-background font-sans flex items-center justify-center p-4">
+                <div className="bg-surface rounded-lg p-6 max-w-lg">
+                    <h2 className="text-xl font-bold text-red-400 mb-2">Your data could not be loaded</h2>
+                    <p className="text-on-surface-secondary">{loadError}</p>
+                    <p className="text-on-surface-secondary mt-2 text-sm">Nothing has been changed or saved.</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (!isReady) {
+        return (
+            <div className="min-h-screen bg-background font-sans flex items-center justify-center">
+                <p className="text-on-surface-secondary">Loading your workspace...</p>
+            </div>
+        );
+    }
+
+    const activeTimerTask = state.activeTimer ? state.tasks.find(t => t.id === state.activeTimer!.taskId) : undefined;
+    // Once this device's changes are saved, the indicator shows how far they are synced
+    const syncSaveStatus: SaveStatus | null = sync.status === 'synced' ? 'synced' : sync.status === 'pending' ? 'pending' : sync.status === 'error' ? 'syncError' : null;
+    const headerSaveStatus: SaveStatus = tabConflicts.length > 0 || isLoadingRemote ? 'outdated' : saveStatus === 'saved' && syncSaveStatus ? syncSaveStatus : saveStatus;
+    const syncTitle = sync.status === 'error' ? sync.error ?? undefined
+        : sync.conflicts.length > 0 ? `${sync.conflicts.length} synced change${sync.conflicts.length === 1 ? '' : 's'} to review`
+        : sync.pendingCount > 0 ? `${sync.pendingCount} change${sync.pendingCount === 1 ? '' : 's'} waiting to sync`
+        : undefined;
+
     return (
         <div className="min-h-screen bg-background font-sans">
             <Header 
-                projects={state.projects} tasks={state.tasks} onImport={handleImportData} 
+                page={page} onChangePage={setPage} focusCount={getFocusList(state).length}
+                mentionCount={getMentionsOf(state, currentUser).length} onOpenMentions={() => setModalState({ type: 'MENTIONS' })}
+                profiles={state.profiles} currentUser={currentUser} onChangeCurrentUser={setCurrentProfileId} onManageProfiles={() => setModalState({ type: 'PROFILES' })}
+                appState={state} onImport={handleImportFile} 
                 onAddNewProject={() => setModalState({ type: 'CREATE_PROJECT' })} 
-                searchQuery={searchQuery} setSearchQuery={setSearchQuery}
+                onOpenCalendar={() => setModalState({ type: 'CALENDAR' })}
+                searchQuery={filters.searchQuery} setSearchQuery={(searchQuery) => setFilters(current => ({ ...current, searchQuery }))} searchErrors={search.errors}
                 undo={undo} redo={redo} canUndo={canUndo} canRedo={canRedo}
                 onManualSave={handleManualSave}
-                saveStatus={saveStatus}
+                saveStatus={headerSaveStatus}
+                saveStatusTitle={headerSaveStatus === 'outdated' ? 'Review edits that clash with another tab'
+                    : headerSaveStatus === 'saveError' ? `Saving on this device failed (${saveError}). Your next change, or Save, tries again.`
+                    : syncTitle}
+                onOpenTabConflicts={tabConflicts.length > 0 ? () => setModalState({ type: 'TAB_CONFLICTS' }) : undefined}
+                onOpenSync={() => setModalState({ type: 'SYNC' })}
             />
-            <Dashboard
+            {state.activeTimer && (
+              <TimerBar
+                timer={state.activeTimer}
+                task={activeTimerTask}
+                project={state.projects.find(p => p.id === activeTimerTask?.projectId)}
+                phaseEnd={phaseEnd}
+                onChangeNote={handleChangeTimerNote}
+                onStop={handleStopTimer}
+              />
+            )}
+            {page === 'analytics' ? (
+              <AnalyticsPage appState={state} />
+            ) : page === 'time' ? (
+              <TimesheetPage
+                appState={state}
+                onUpdateEntryNote={handleUpdateEntryNote}
+                onDeleteEntry={handleDeleteEntry}
+                onUpdatePomodoroSettings={handleUpdatePomodoroSettings}
+              />
+            ) : page === 'focus' ? (
+              <FocusPage
                 appState={state}
-                searchQuery={searchQuery}
-                onEditProject={(project) => setModalState({ type: 'EDIT_PROJECT', project })}
-                onDeleteProject={requestDeleteProject}
-                onToggleArchive={handleToggleArchive}
-                onAddTask={(projectId) => setModalState({ type: 'CREATE_TASK', projectId })}
                 onUpdateTaskStatus={handleUpdateTaskStatus}
-                onDeleteTask={handleDeleteTask}
+                onToggleTaskFocus={handleToggleTaskFocus}
                 onEditTask={(task) => setModalState({ type: 'EDIT_TASK', task })}
-                onToggleTaskFocus={(taskId) => setState(current => ({ ...current, tasks: current.tasks.map(t => t.id === taskId ? { ...t, isFocused: !t.isFocused } : t)}))}
-                onAddSubTask={(parentTask) => setModalState({ type: 'CREATE_TASK', projectId: parentTask.projectId, parentId: parentTask.id })}
-                onReorderProject={handleReorderProjects}
-                onAddComment={handleAddComment}
-                onBulkDelete={handleBulkDelete}
-                onBulkArchive={handleBulkArchive}
-            />
+                onReorderFocus={handleReorderFocus}
+                onAddToFocus={handleAddToFocus}
+                onSetAutoRollover={handleSetAutoRollover}
+              />
+            ) : (
+              <Dashboard
+                  appState={state}
+                  search={search}
+                  filters={filters}
+                  onFiltersChange={setFilters}
+                  activeViewId={activeViewId}
+                  onSelectView={handleSelectView}
+                  onSelectAssignedToMe={handleSelectAssignedToMe}
+                  currentUser={currentUser}
+                  onManageProfiles={() => setModalState({ type: 'PROFILES' })}
+                  onSaveView={handleSaveView}
+                  onUpdateView={handleUpdateView}
+                  onRenameView={handleRenameView}
+                  onDeleteView={handleDeleteView}
+                  onEditProject={(project) => setModalState({ type: 'EDIT_PROJECT', project })}
+                  onDeleteProject={requestDeleteProject}
+                  onToggleArchive={handleToggleArchive}
+                  onExportProject={handleExportProject}
+                  onAddTask={(projectId) => setModalState({ type: 'CREATE_TASK', projectId })}
+                  onUpdateTaskStatus={handleUpdateTaskStatus}
+                  onDeleteTask={handleDeleteTask}
+                  onEditTask={(task) => setModalState({ type: 'EDIT_TASK', task })}
+                  onToggleTaskFocus={handleToggleTaskFocus}
+                  onToggleChecklistItem={handleToggleChecklistItem}
+                  onAddSubTask={(parentTask) => setModalState({ type: 'CREATE_TASK', projectId: parentTask.projectId, parentId: parentTask.id })}
+                  onReorderProject={handleReorderProjects}
+                  onMoveTask={handleMoveTask}
+                  onAddComment={handleAddComment}
+                  onOpenTaskComments={(task) => setModalState({ type: 'TASK_COMMENTS', taskId: task.id })}
+                  onBulkDelete={handleBulkDelete}
+                  onBulkArchive={handleBulkArchive}
+                  onStartTimer={handleStartTimer}
+                  onStopTimer={handleStopTimer}
+              />
+            )}
             <Modal isOpen={modalState.type !== 'CLOSED'} onClose={() => setModalState({ type: 'CLOSED' })} title={getModalTitle()}>
                 {renderModalContent()}
             </Modal>
+            {isUpdateAvailable && <UpdatePrompt canReload={saveStatus === 'saved'} onReload={applyUpdate} onDismiss={dismissUpdate} />}
         </div>
     );
 };
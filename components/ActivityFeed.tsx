@@ -0,0 +1,68 @@
+import React, { useState, useMemo } from 'react';
+import { ActivityEventType, ActivityLog, Project, Task, UserProfile } from '../types';
+import { ACTIVITY_EVENT_LABELS, describeActivity, getEventTaskId, ActivityContext } from '../utils/activity';
+import { resolveAuthor } from '../utils/profiles';
+
+interface ActivityFeedProps {
+  projectId: string;
+  activityLog: ActivityLog[]; // Newest first
+  allTasks: Task[]; // Every task in the workspace, so moved tasks keep their current names
+  allProjects: Project[];
+  profiles: UserProfile[];
+}
+
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ projectId, activityLog, allTasks, allProjects, profiles }) => {
+  const [typeFilter, setTypeFilter] = useState<ActivityEventType | 'All'>('All');
+  const [taskFilter, setTaskFilter] = useState<string>('All');
+
+  const context: ActivityContext = useMemo(() => ({
+    projectId,
+    taskById: new Map<string, Task>(allTasks.map((t: Task) => [t.id, t])),
+    projectById: new Map<string, Project>(allProjects.map((p: Project) => [p.id, p])),
+  }), [projectId, allTasks, allProjects]);
+
+  const eventTypes: ActivityEventType[] = (Object.keys(ACTIVITY_EVENT_LABELS) as ActivityEventType[]).filter(type => activityLog.some((log: ActivityLog) => log.event.type === type));
+  // Tasks mentioned in the log, named as they are now or as they were when last logged
+  const taskTitles = new Map<string, string>();
+  activityLog.forEach((log: ActivityLog) => {
+    const taskId = getEventTaskId(log.event);
+    if (taskId && !taskTitles.has(taskId)) taskTitles.set(taskId, context.taskById.get(taskId)?.title ?? (log.event as { title: string }).title);
+  });
+  const loggedTasks = Array.from(taskTitles.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const visibleLogs: ActivityLog[] = activityLog.filter((log: ActivityLog) =>
+    (typeFilter === 'All' || log.event.type === typeFilter) && (taskFilter === 'All' || getEventTaskId(log.event) === taskFilter));
+
+  if (activityLog.length === 0) {
+    return <div className="text-center py-6 text-on-surface-secondary">No activity recorded for this project yet.</div>;
+  }
+
+  const selectClassName = "bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none";
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as ActivityEventType | 'All')} className={selectClassName} aria-label="Filter by event type">
+          <option value="All">All events</option>
+          {eventTypes.map(type => <option key={type} value={type}>{ACTIVITY_EVENT_LABELS[type]}</option>)}
+        </select>
+        {loggedTasks.length > 0 && (
+          <select value={taskFilter} onChange={e => setTaskFilter(e.target.value)} className={`${selectClassName} max-w-xs`} aria-label="Filter by task">
+            <option value="All">All tasks</option>
+            {loggedTasks.map(([taskId, title]) => <option key={taskId} value={taskId}>{title}{context.taskById.has(taskId) ? '' : ' (deleted)'}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="max-h-80 overflow-y-auto space-y-3 pr-2">
+        {visibleLogs.length > 0 ? visibleLogs.map(log => (
+          <div key={log.id} className="text-sm">
+            <p className="text-on-surface">{describeActivity(log.event, context)}</p>
+            <p className="text-xs text-on-surface-secondary">{new Date(log.timestamp).toLocaleString()} by {resolveAuthor(profiles, log.authorProfileId, log.author).name}</p>
+          </div>
+        )) : <div className="text-center py-6 text-on-surface-secondary">No activity matches these filters.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityFeed;
@@ -0,0 +1,182 @@
+import React, { useState, useMemo } from 'react';
+import { Chart } from "react-google-charts";
+import { AppState, Project, Task, TaskSnapshot, TaskStatus } from '../types';
+import { buildCumulativeFlow, buildWeeklyThroughput, getCycleTimes, getPercentile, getStatusTransitions, CumulativeFlow, CycleTime, DateRange, StatusTransition, ThroughputWeek } from '../utils/flowMetrics';
+import { fromDateKey, toDateKey, todayKey } from '../utils/dates';
+
+interface AnalyticsPageProps {
+  appState: AppState;
+}
+
+type RangePreset = '30' | '90' | '180' | '365' | 'custom';
+
+const presetLabels: Record<RangePreset, string> = { '30': '30 days', '90': '90 days', '180': '6 months', '365': '1 year', custom: 'Custom' };
+
+const statusColors: Record<TaskStatus, string> = {
+  [TaskStatus.Done]: '#22c55e',
+  [TaskStatus.InProgress]: '#06b6d4', // primary
+  [TaskStatus.ToDo]: '#64748b',
+};
+
+const PERCENTILES = [50, 85, 95];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days + 1);
+  return toDateKey(date);
+};
+
+const formatDays = (days: number) => days < 1 ? `${Math.round(days * 24)}h` : `${Math.round(days * 10) / 10}d`;
+
+const textStyle = { color: '#94a3b8' }; // on-surface-secondary
+const chartOptions = {
+  height: 300,
+  backgroundColor: '#1e293b', // surface
+  legend: { position: 'top', textStyle },
+  chartArea: { left: 50, right: 20, top: 40, bottom: 40 },
+  hAxis: { textStyle, gridlines: { color: 'transparent' } },
+  vAxis: { textStyle, gridlines: { color: '#334155' }, minValue: 0 },
+};
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-surface rounded-xl p-4">
+    <p className="text-xs uppercase tracking-wider text-on-surface-secondary">{label}</p>
+    <p className="text-2xl font-bold mt-1">{value}</p>
+    {hint && <p className="text-xs text-on-surface-secondary mt-1">{hint}</p>}
+  </div>
+);
+
+const ChartPanel: React.FC<{ title: string; description: string; isEmpty: boolean; children: React.ReactNode }> = ({ title, description, isEmpty, children }) => (
+  <section className="bg-surface rounded-xl p-4">
+    <h3 className="text-lg font-semibold">{title}</h3>
+    <p className="text-sm text-on-surface-secondary mb-3">{description}</p>
+    {isEmpty ? <div className="text-center py-12 text-on-surface-secondary">No data in this range.</div> : children}
+  </section>
+);
+
+const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ appState }) => {
+  const [projectId, setProjectId] = useState<string>('all');
+  const [preset, setPreset] = useState<RangePreset>('90');
+  const [customRange, setCustomRange] = useState<DateRange>(() => ({ from: daysAgo(30), to: todayKey() }));
+
+  const range: DateRange = preset === 'custom' ? customRange : { from: daysAgo(parseInt(preset, 10)), to: todayKey() };
+  const projectFilter = projectId === 'all' ? null : projectId;
+  const history: TaskSnapshot[] = appState.taskHistory;
+
+  const transitions: Map<string, StatusTransition[]> = useMemo(() => getStatusTransitions(history), [history]);
+  const flow: CumulativeFlow = useMemo(() => buildCumulativeFlow(history, projectFilter, range), [history, projectFilter, range.from, range.to]);
+  const throughput: ThroughputWeek[] = useMemo(() => buildWeeklyThroughput(transitions, projectFilter, range), [transitions, projectFilter, range.from, range.to]);
+  const cycleTimes: CycleTime[] = useMemo(() => getCycleTimes(transitions, projectFilter, range), [transitions, projectFilter, range.from, range.to]);
+  const taskById = useMemo(() => new Map<string, Task>(appState.tasks.map((t: Task) => [t.id, t])), [appState.tasks]);
+
+  const cycleDays = cycleTimes.map(c => c.days);
+  const percentiles = PERCENTILES.map(p => getPercentile(cycleDays, p));
+  const completed = throughput.reduce((sum, w) => sum + w.completed, 0);
+  const latestCounts = flow.counts[flow.counts.length - 1];
+  const historyStart = history.reduce((earliest: string | null, s) => !earliest || s.timestamp < earliest ? s.timestamp : earliest, null);
+  const historyStartKey = historyStart ? toDateKey(new Date(historyStart)) : null;
+
+  const projects: Project[] = [...appState.projects].sort((a, b) => a.order - b.order);
+  const statusOrder = [TaskStatus.Done, TaskStatus.InProgress, TaskStatus.ToDo]; // Stacked bottom to top
+
+  const flowData = [
+    [{ type: 'date', label: 'Day' }, ...statusOrder.map(status => ({ type: 'number', label: status }))],
+    ...flow.days.map((day, i) => [fromDateKey(day), ...statusOrder.map(status => flow.counts[i][status])]),
+  ];
+
+  const throughputData = [
+    ['Week', 'Completed'],
+    ...throughput.map(w => [fromDateKey(w.weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }), w.completed]),
+  ];
+
+  // Percentile lines are two extra points per series spanning the range
+  const scatterData = [
+    [{ type: 'date', label: 'Completed' }, { type: 'number', label: 'Cycle time' }, { type: 'string', role: 'tooltip' }, ...PERCENTILES.map(p => ({ type: 'number', label: `${p}th percentile` }))],
+    ...cycleTimes.map(c => [new Date(c.completedAt), c.days, `${taskById.get(c.taskId)?.title || 'Deleted task'}\n${formatDays(c.days)}`, ...PERCENTILES.map(() => null)]),
+    ...[range.from, range.to].map(day => [fromDateKey(day), null, null, ...percentiles]),
+  ];
+
+  return (
+    <main className="container mx-auto p-4 sm:p-6 lg:p-8">
+      <div className="mb-6 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Analytics</h2>
+          <p className="text-sm text-on-surface-secondary">
+            {fromDateKey(range.from).toLocaleDateString()} – {fromDateKey(range.to).toLocaleDateString()}
+            {historyStartKey && historyStartKey > range.from && ` · status history starts ${fromDateKey(historyStartKey).toLocaleDateString()}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={projectId} onChange={e => setProjectId(e.target.value)} className="bg-secondary border border-slate-600 rounded-md px-3 py-2 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none">
+            <option value="all">All projects</option>
+            {projects.map(p => <option key={p.id} value={p.id}>{p.name}{p.isArchived ? ' (archived)' : ''}</option>)}
+          </select>
+          <div className="flex items-center bg-secondary/60 p-1 rounded-lg">
+            {(Object.keys(presetLabels) as RangePreset[]).map(option => (
+              <button key={option} onClick={() => setPreset(option)} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${preset === option ? 'bg-primary text-white' : 'text-on-surface-secondary hover:text-on-surface'}`}>
+                {presetLabels[option]}
+              </button>
+            ))}
+          </div>
+          {preset === 'custom' && (
+            <div className="flex items-center gap-2 text-sm">
+              <input type="date" value={customRange.from} max={customRange.to} onChange={e => e.target.value && setCustomRange(current => ({ ...current, from: e.target.value }))} className="bg-secondary border border-slate-600 rounded-md px-2 py-1 text-on-surface" />
+              –
+              <input type="date" value={customRange.to} min={customRange.from} onChange={e => e.target.value && setCustomRange(current => ({ ...current, to: e.target.value }))} className="bg-secondary border border-slate-600 rounded-md px-2 py-1 text-on-surface" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <StatCard label="Completed" value={String(completed)} hint={throughput.length > 0 ? `${Math.round(completed / throughput.length * 10) / 10} per week` : undefined} />
+        <StatCard label="In progress" value={String(latestCounts ? latestCounts[TaskStatus.InProgress] : 0)} hint="At the end of the range" />
+        <StatCard label="Median cycle time" value={percentiles[0] !== null ? formatDays(percentiles[0]) : '–'} hint={`${cycleTimes.length} completed after being started`} />
+        <StatCard label="85th percentile" value={percentiles[1] !== null ? formatDays(percentiles[1]) : '–'} hint="Most tasks finish within this" />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="xl:col-span-2">
+          <ChartPanel title="Cumulative flow" description="Tasks in each status at the end of every day." isEmpty={flow.counts.every(c => statusOrder.every(s => c[s] === 0))}>
+            <Chart
+              chartType="AreaChart"
+              width="100%"
+              height="100%"
+              data={flowData}
+              options={{ ...chartOptions, isStacked: true, colors: statusOrder.map(s => statusColors[s]), hAxis: { ...chartOptions.hAxis, format: 'MMM d' } }}
+              loader={<div className="text-on-surface-secondary">Loading Chart...</div>}
+            />
+          </ChartPanel>
+        </div>
+        <ChartPanel title="Weekly throughput" description="Tasks moved to Done per week." isEmpty={completed === 0}>
+          <Chart
+            chartType="ColumnChart"
+            width="100%"
+            height="100%"
+            data={throughputData}
+            options={{ ...chartOptions, legend: { position: 'none' }, colors: [statusColors[TaskStatus.Done]] }}
+            loader={<div className="text-on-surface-secondary">Loading Chart...</div>}
+          />
+        </ChartPanel>
+        <ChartPanel title="Cycle time" description="Days from In Progress to Done for each completed task." isEmpty={cycleTimes.length === 0}>
+          <Chart
+            chartType="ScatterChart"
+            width="100%"
+            height="100%"
+            data={scatterData}
+            options={{
+              ...chartOptions,
+              colors: [statusColors[TaskStatus.InProgress], '#a3e635', '#f59e0b', '#ef4444'],
+              series: { 1: { lineWidth: 1, pointSize: 0, lineDashStyle: [6, 4] }, 2: { lineWidth: 1, pointSize: 0, lineDashStyle: [6, 4] }, 3: { lineWidth: 1, pointSize: 0, lineDashStyle: [6, 4] } },
+              hAxis: { ...chartOptions.hAxis, format: 'MMM d' },
+              vAxis: { ...chartOptions.vAxis, title: 'Days', titleTextStyle: textStyle },
+            }}
+            loader={<div className="text-on-surface-secondary">Loading Chart...</div>}
+          />
+        </ChartPanel>
+      </div>
+    </main>
+  );
+};
+
+export default AnalyticsPage;
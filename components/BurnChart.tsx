@@ -0,0 +1,81 @@
+import React, { useState, useMemo } from 'react';
+import { Chart } from "react-google-charts";
+import { Project, TaskSnapshot } from '../types';
+import { buildBurnChart, BurnChart as BurnChartData, formatEstimate } from '../utils/estimates';
+import { fromDateKey, todayKey } from '../utils/dates';
+
+interface BurnChartProps {
+  project: Project;
+  history: TaskSnapshot[];
+}
+
+type Mode = 'burndown' | 'burnup';
+
+const BurnChart: React.FC<BurnChartProps> = ({ project, history }) => {
+  const [mode, setMode] = useState<Mode>('burndown');
+  const today = todayKey();
+  const chart: BurnChartData = useMemo(() => buildBurnChart(project, history, today), [project, history, today]);
+
+  const todayIndex = chart.days.indexOf(today);
+  const currentRemaining = chart.remaining[todayIndex] ?? 0;
+  const currentScope = chart.scope[todayIndex] ?? 0;
+  const hasWork = chart.scope.some(value => !!value);
+
+  if (!hasWork) {
+    return <div className="text-center py-6 text-on-surface-secondary">Add estimates to this project's tasks to track remaining work over time.</div>;
+  }
+
+  const rows = chart.days.map((day, i) => {
+    const date = fromDateKey(day);
+    if (mode === 'burndown') return [date, chart.remaining[i], chart.ideal[i]];
+    const scope = chart.scope[i];
+    const remaining = chart.remaining[i];
+    return [date, scope, scope !== null && remaining !== null ? scope - remaining : null];
+  });
+  const hasIdeal = mode === 'burndown' && chart.ideal.some(value => value !== null);
+  const columns = mode === 'burndown'
+    ? [{ type: 'date', label: 'Day' }, { type: 'number', label: 'Remaining' }, ...(hasIdeal ? [{ type: 'number', label: 'Ideal' }] : [])]
+    : [{ type: 'date', label: 'Day' }, { type: 'number', label: 'Scope' }, { type: 'number', label: 'Completed' }];
+
+  const textStyle = { color: '#94a3b8' }; // on-surface-secondary
+  const lineColor = project.color === '#334155' ? '#06b6d4' : project.color; // The default project color disappears against the chart; use primary
+  const options = {
+    height: 280,
+    backgroundColor: '#1e293b', // surface
+    colors: mode === 'burndown' ? [lineColor, '#64748b'] : ['#64748b', lineColor],
+    series: mode === 'burndown' ? { 1: { lineDashStyle: [6, 4] } } : { 0: { lineDashStyle: [6, 4] } },
+    legend: { position: 'top', textStyle },
+    chartArea: { left: 50, right: 20, top: 40, bottom: 40 },
+    hAxis: { textStyle, gridlines: { color: 'transparent' }, format: 'MMM d' },
+    vAxis: { textStyle, gridlines: { color: '#334155' }, minValue: 0, title: project.estimateUnit === 'hours' ? 'Hours' : 'Points', titleTextStyle: textStyle },
+    interpolateNulls: false,
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="text-sm text-on-surface-secondary">
+          {formatEstimate(currentRemaining, project.estimateUnit)} of {formatEstimate(currentScope, project.estimateUnit)} remaining
+          {project.targetDate ? ` · target ${new Date(project.targetDate).toLocaleDateString()}` : ' · set a target date on the project to show the ideal line'}
+        </p>
+        <div className="flex items-center bg-secondary/60 p-1 rounded-lg">
+          {(['burndown', 'burnup'] as Mode[]).map(option => (
+            <button key={option} onClick={() => setMode(option)} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${mode === option ? 'bg-primary text-white' : 'text-on-surface-secondary hover:text-on-surface'}`}>
+              {option === 'burndown' ? 'Burndown' : 'Burnup'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <Chart
+        chartType="LineChart"
+        width="100%"
+        height="100%"
+        data={[columns, ...rows.map(row => hasIdeal || mode === 'burnup' ? row : row.slice(0, 2))]}
+        options={options}
+        loader={<div className="text-on-surface-secondary">Loading Chart...</div>}
+      />
+    </div>
+  );
+};
+
+export default BurnChart;
@@ -0,0 +1,90 @@
+import React, { useState, useRef } from 'react';
+import { Project } from '../types';
+import { CalendarComponent } from '../storage/icalendar';
+import { DownloadIcon, UploadIcon } from './IconComponents';
+
+export type CalendarScope = { type: 'workspace' } | { type: 'project', projectId: string } | { type: 'focused' };
+
+interface CalendarSyncProps {
+  projects: Project[];
+  onExport: (scope: CalendarScope, component: CalendarComponent) => void;
+  onImport: (fileContent: string, fileName: string, projectId: string) => void;
+}
+
+const CalendarSync: React.FC<CalendarSyncProps> = ({ projects, onExport, onImport }) => {
+  const activeProjects: Project[] = projects.filter((p: Project) => !p.isArchived);
+  const [scope, setScope] = useState('workspace'); // 'workspace', 'focused' or a project ID
+  const [component, setComponent] = useState<CalendarComponent>('VEVENT');
+  const [targetProjectId, setTargetProjectId] = useState(activeProjects[0]?.id || '');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    if (scope === 'workspace' || scope === 'focused') onExport({ type: scope }, component);
+    else onExport({ type: 'project', projectId: scope }, component);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result;
+      onImport(typeof text === 'string' ? text : '', file.name, targetProjectId);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-3">
+        <h3 className="font-semibold text-on-surface">Export to Calendar</h3>
+        <p className="text-sm text-on-surface-secondary">Tasks with a start or due date are exported as an .ics file. Re-importing the file into your calendar updates the existing entries.</p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="calendarScope" className="block text-sm font-medium text-on-surface-secondary mb-1">Tasks</label>
+            <select id="calendarScope" value={scope} onChange={e => setScope(e.target.value)} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none">
+              <option value="workspace">Whole workspace</option>
+              <option value="focused">Focused tasks only</option>
+              {projects.map(p => <option key={p.id} value={p.id}>Project: {p.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="calendarComponent" className="block text-sm font-medium text-on-surface-secondary mb-1">Export As</label>
+            <select id="calendarComponent" value={component} onChange={e => setComponent(e.target.value as CalendarComponent)} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none">
+              <option value="VEVENT">All-day events</option>
+              <option value="VTODO">To-dos</option>
+            </select>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button onClick={handleExport} className="flex items-center gap-2 bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-md transition-colors">
+            <DownloadIcon className="w-5 h-5" /> Export .ics
+          </button>
+        </div>
+      </section>
+
+      <section className="space-y-3 border-t border-slate-700 pt-4">
+        <h3 className="font-semibold text-on-surface">Import from Calendar</h3>
+        <p className="text-sm text-on-surface-secondary">Events and to-dos become tasks in the chosen project. Entries that were exported from FocusFlow, or imported before, update their task instead.</p>
+        <div>
+          <label htmlFor="calendarTarget" className="block text-sm font-medium text-on-surface-secondary mb-1">Add New Tasks To</label>
+          <select id="calendarTarget" value={targetProjectId} onChange={e => setTargetProjectId(e.target.value)} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none">
+            {activeProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+        <div className="flex justify-end">
+          <button onClick={() => fileInputRef.current?.click()} disabled={!targetProjectId} className="flex items-center gap-2 bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">
+            <UploadIcon className="w-5 h-5" /> Import .ics
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".ics,text/calendar" className="hidden" />
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default CalendarSync;
@@ -0,0 +1,122 @@
+import React, { useState, useRef } from 'react';
+import { Comment, Member, UserProfile } from '../types';
+import { getMentionQuery, findMentionCandidates } from '../utils/mentions';
+import { resolveAuthor } from '../utils/profiles';
+import Markdown from './Markdown';
+
+interface CommentThreadProps {
+  comments: Comment[];
+  members: Member[]; // The project's members, who can be mentioned
+  profiles: UserProfile[]; // Authors are shown as their profile looks now
+  onAddComment: (content: string) => void; // Typed text; mentions are resolved by the caller
+  emptyMessage: string;
+  canComment: boolean; // Viewers can read the thread but not add to it
+}
+
+const CommentThread: React.FC<CommentThreadProps> = ({ comments, members, profiles, onAddComment, emptyMessage, canComment }) => {
+  const [text, setText] = useState('');
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const mention = isDismissed ? null : getMentionQuery(text, caret);
+  const candidates: Member[] = mention ? findMentionCandidates(mention.query, members).slice(0, 6) : [];
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    setHighlighted(0);
+    setIsDismissed(false);
+  };
+
+  const insertMention = (member: Member) => {
+    if (!mention) return;
+    const before = `${text.slice(0, mention.start)}@${member.name} `;
+    setText(before + text.slice(caret));
+    setCaret(before.length);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (candidates.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(current => (current + (e.key === 'ArrowDown' ? 1 : candidates.length - 1)) % candidates.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(candidates[Math.min(highlighted, candidates.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation(); // Keep an enclosing modal open
+      setIsDismissed(true);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onAddComment(text.trim());
+    setText('');
+    setCaret(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-64 overflow-y-auto space-y-4 pr-2">
+        {comments.length > 0 ? comments.map((comment: Comment) => {
+          const author = resolveAuthor(profiles, comment.authorProfileId, comment.authorName, comment.authorAvatarUrl);
+          return (
+          <div key={comment.id} className="flex items-start gap-3">
+            <img src={author.avatarUrl} alt={author.name} className="w-8 h-8 rounded-full bg-secondary object-cover"/>
+            <div className="min-w-0">
+              <div className="flex items-baseline gap-2">
+                <span className="font-semibold text-sm text-on-surface">{author.name}</span>
+                <span className="text-xs text-on-surface-secondary">{new Date(comment.createdAt).toLocaleString()}</span>
+              </div>
+              <Markdown source={comment.content} members={members} />
+            </div>
+          </div>
+          );
+        }) : <div className="text-center py-6 text-on-surface-secondary">{emptyMessage}</div>}
+      </div>
+      {canComment ? <form onSubmit={handleSubmit} className="relative flex gap-2">
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onKeyUp={e => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onClick={e => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onBlur={() => setIsDismissed(true)}
+          onFocus={() => setIsDismissed(false)}
+          placeholder={members.length > 0 ? 'Add a comment (Markdown supported)... Type @ to mention a member' : 'Add a comment (Markdown supported)...'}
+          className="flex-1 bg-secondary border border-slate-600 rounded-md px-3 py-2 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+        />
+        <button type="submit" className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-3 rounded-md transition-colors">Send</button>
+        {candidates.length > 0 && (
+          <ul className="absolute bottom-full left-0 mb-1 w-64 bg-surface border border-slate-600 rounded-lg shadow-lg py-1 z-10">
+            {candidates.map((member, i) => (
+              <li key={member.id}>
+                <button
+                  type="button"
+                  onMouseDown={e => { e.preventDefault(); insertMention(member); }} // Before the input's blur closes the list
+                  className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${i === highlighted ? 'bg-primary/20 text-on-surface' : 'text-on-surface-secondary hover:bg-secondary'}`}
+                >
+                  <img src={member.avatarUrl} alt="" className="w-5 h-5 rounded-full bg-secondary" />
+                  <span className="flex-1 truncate">{member.name}</span>
+                  <span className="text-xs">{member.role}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </form> : <p className="text-xs text-on-surface-secondary text-center">Viewers cannot comment on this project.</p>}
+    </div>
+  );
+};
+
+export default CommentThread;
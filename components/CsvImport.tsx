@@ -0,0 +1,127 @@
+import React, { useState, useMemo } from 'react';
+import { AppState, Project, TaskStatus, TaskPriority } from '../types';
+import { CsvTable, CsvField, CsvMapping, CSV_FIELD_LABELS, guessCsvMapping, getDistinctValues, guessStatus, guessPriority, buildCsvImport, CsvImportResult } from '../storage/csv';
+
+interface CsvImportProps {
+  fileName: string;
+  table: CsvTable;
+  appState: AppState;
+  onConfirm: (mapping: CsvMapping) => void;
+  onCancel: () => void;
+}
+
+const selectClassName = "w-full bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none";
+
+const CsvImport: React.FC<CsvImportProps> = ({ fileName, table, appState, onConfirm, onCancel }) => {
+  const activeProjects: Project[] = appState.projects.filter((p: Project) => !p.isArchived);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping(table, activeProjects[0]?.id || ''));
+  const preview: CsvImportResult = useMemo(() => buildCsvImport(appState, table, mapping), [appState, table, mapping]);
+  const statusValues = getDistinctValues(table, mapping.columns, 'status');
+  const priorityValues = getDistinctValues(table, mapping.columns, 'priority');
+
+  const handleColumnChange = (index: number, field: CsvField) => {
+    // A field can only be fed by one column, so taking it clears the previous column
+    const columns = mapping.columns.map((f, i) => i === index ? field : (f === field && field !== 'ignore' ? 'ignore' : f));
+    const statusMap: Record<string, TaskStatus> = {};
+    getDistinctValues(table, columns, 'status').forEach(v => { statusMap[v] = mapping.statusValues[v] || guessStatus(v); });
+    const priorityMap: Record<string, TaskPriority> = {};
+    getDistinctValues(table, columns, 'priority').forEach(v => { priorityMap[v] = mapping.priorityValues[v] || guessPriority(v); });
+    setMapping({ ...mapping, columns, statusValues: statusMap, priorityValues: priorityMap });
+  };
+
+  const hasTitle = mapping.columns.includes('title');
+  const canImport = hasTitle && !!mapping.projectId && preview.tasks.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-on-surface-secondary"><strong className="text-on-surface">{fileName}</strong> has {table.rows.length} row(s). Choose which task field each column fills.</p>
+
+      <div className="max-h-64 overflow-y-auto pr-2">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-on-surface-secondary">
+              <th className="pb-2 font-medium">Column</th>
+              <th className="pb-2 font-medium">Example</th>
+              <th className="pb-2 font-medium">Task Field</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.headers.map((header, index) => (
+              <tr key={index} className="border-t border-slate-700">
+                <td className="py-1 pr-2 font-semibold text-on-surface truncate max-w-[8rem]">{header || `Column ${index + 1}`}</td>
+                <td className="py-1 pr-2 text-on-surface-secondary truncate max-w-[10rem]">{table.rows.find(r => r[index]?.trim())?.[index] || ''}</td>
+                <td className="py-1">
+                  <select value={mapping.columns[index]} onChange={e => handleColumnChange(index, e.target.value as CsvField)} className={selectClassName}>
+                    {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map(field => <option key={field} value={field}>{CSV_FIELD_LABELS[field]}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(statusValues.length > 0 || priorityValues.length > 0) && (
+        <div className="grid grid-cols-2 gap-4">
+          {statusValues.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-on-surface-secondary">Status Values</p>
+              {statusValues.map(value => (
+                <div key={value} className="flex items-center gap-2">
+                  <span className="text-sm text-on-surface w-24 truncate" title={value}>{value}</span>
+                  <select value={mapping.statusValues[value]} onChange={e => setMapping({ ...mapping, statusValues: { ...mapping.statusValues, [value]: e.target.value as TaskStatus } })} className={selectClassName}>
+                    {Object.values(TaskStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+          {priorityValues.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-on-surface-secondary">Priority Values</p>
+              {priorityValues.map(value => (
+                <div key={value} className="flex items-center gap-2">
+                  <span className="text-sm text-on-surface w-24 truncate" title={value}>{value}</span>
+                  <select value={mapping.priorityValues[value]} onChange={e => setMapping({ ...mapping, priorityValues: { ...mapping.priorityValues, [value]: e.target.value as TaskPriority } })} className={selectClassName}>
+                    {Object.values(TaskPriority).map(p => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="csvProject" className="block text-sm font-medium text-on-surface-secondary mb-1">Import Into Project</label>
+        <select id="csvProject" value={mapping.projectId} onChange={e => setMapping({ ...mapping, projectId: e.target.value })} className={selectClassName}>
+          {activeProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {mapping.columns.includes('project') && <p className="text-xs text-on-surface-secondary mt-1">Rows naming an existing project go into that project instead.</p>}
+      </div>
+
+      <div className="text-sm">
+        {!hasTitle
+          ? <p className="text-red-400">Map a column to Title to import tasks.</p>
+          : <p className="text-on-surface-secondary">{preview.tasks.length} task(s) will be created, {preview.tasks.filter(t => t.parentId).length} of them as sub-tasks.</p>}
+        {hasTitle && preview.warnings.length > 0 && (
+          <ul className="mt-2 max-h-32 overflow-y-auto space-y-0.5 pr-2">
+            {preview.warnings.map((warning, index) => (
+              <li key={index} className="flex items-start gap-2 text-xs text-on-surface-secondary">
+                <span className="mt-1 w-2 h-2 rounded-full flex-shrink-0 bg-yellow-400"></span>
+                <span>{warning}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button onClick={onCancel} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Cancel</button>
+        <button onClick={() => onConfirm(mapping)} disabled={!canImport} className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Import Tasks</button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImport;
@@ -1,37 +1,68 @@
 import React, { useState, useMemo } from 'react';
-import { Project, Task, TaskStatus, TaskPriority, AppState, Comment, ActivityLog } from '../types';
+import { Project, Task, TaskStatus, TaskPriority, AppState, Comment, ActivityLog, TaskPlacement, DashboardFilters, DashboardStatusFilter, SavedView, UserProfile } from '../types';
 import ProjectCard from './ProjectCard';
-import { StarIcon, TagIcon, ArchiveBoxIcon, CheckCircleIcon, TrashIcon } from './IconComponents';
+import SavedViewsBar from './SavedViewsBar';
+import { SearchQuery, matchesProject, matchesTask, getHighlightTerms } from '../utils/searchQuery';
+import { getTimeTotals, getProjectTimeTotals } from '../utils/timeTracking';
+import { matchesAssigneeFilter, ASSIGNED_TO_ME, UNASSIGNED } from '../utils/assignees';
+import { getProjectRole } from '../utils/permissions';
+import { StarIcon, TagIcon, ArchiveBoxIcon, CheckCircleIcon, TrashIcon, UserGroupIcon } from './IconComponents';
 
 interface DashboardProps {
     appState: AppState;
-    searchQuery: string;
+    search: SearchQuery;
+    filters: DashboardFilters;
+    onFiltersChange: (filters: DashboardFilters) => void;
+    activeViewId: string | null;
+    onSelectView: (view: SavedView | null) => void;
+    onSelectAssignedToMe: () => void;
+    currentUser: UserProfile | null; // The acting profile, for "Assigned to me" and project roles
+    onManageProfiles: () => void;
+    onSaveView: (name: string) => void;
+    onUpdateView: (viewId: string) => void;
+    onRenameView: (viewId: string, name: string) => void;
+    onDeleteView: (viewId: string) => void;
     onEditProject: (project: Project) => void;
     onDeleteProject: (project: Project) => void;
     onToggleArchive: (projectId: string) => void;
+    onExportProject: (projectId: string) => void;
     onAddTask: (projectId: string) => void;
-    onUpdateTaskStatus: (taskId: string, status: TaskStatus) => void;
+    onUpdateTaskStatus: (taskId: string, status: TaskStatus, placement?: TaskPlacement) => void;
     onDeleteTask: (taskId: string) => void;
     onEditTask: (task: Task) => void;
     onToggleTaskFocus: (taskId: string) => void;
+    onToggleChecklistItem: (taskId: string, line: number) => void;
     onAddSubTask: (parentTask: Task) => void;
     onReorderProject: (draggedId: string, targetId: string) => void;
-    onAddComment: (projectId: string, content: string) => void;
+    onMoveTask: (taskId: string, projectId: string, newParentId: string | null, placement?: TaskPlacement) => void;
+    onAddComment: (projectId: string, content: string, taskId: string | null) => void;
+    onOpenTaskComments: (task: Task) => void;
     onBulkDelete: (projectIds: string[]) => void;
     onBulkArchive: (projectIds: string[]) => void;
+    onStartTimer: (taskId: string) => void;
+    onStopTimer: () => void;
 }
 
-type FilterStatus = TaskStatus | 'All' | 'Focused';
-
 const Dashboard: React.FC<DashboardProps> = (props) => {
-    const { appState, searchQuery, onBulkDelete, onBulkArchive, ...restHandlers } = props;
-    const { projects, tasks, comments, activityLog } = appState;
-
-    const [statusFilter, setStatusFilter] = useState<FilterStatus>('All');
-    const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'All'>('All');
-    const [tagFilter, setTagFilter] = useState<string | 'All'>('All');
-    const [showArchived, setShowArchived] = useState(false);
+    const {
+        appState, search, filters, onFiltersChange, activeViewId, onSelectView, onSelectAssignedToMe, onSaveView, onUpdateView, onRenameView, onDeleteView,
+        currentUser, onManageProfiles, onBulkDelete, onBulkArchive, ...restHandlers
+    } = props;
+    const { projects, tasks, comments, activityLog, savedViews, timeEntries, activeTimer, taskHistory } = appState;
+    const { status: statusFilter, priority: priorityFilter, tag: tagFilter, assignee: assigneeFilter, showArchived }: DashboardFilters = filters;
+    const setStatusFilter = (status: DashboardStatusFilter) => onFiltersChange({ ...filters, status });
+    const setPriorityFilter = (priority: TaskPriority | 'All') => onFiltersChange({ ...filters, priority });
+    const setTagFilter = (tag: string) => onFiltersChange({ ...filters, tag });
+    const setAssigneeFilter = (assignee: string) => onFiltersChange({ ...filters, assignee });
+    const setShowArchived = (showArchived: boolean) => onFiltersChange({ ...filters, showArchived });
     const [selectedProjects, setSelectedProjects] = useState<string[]>([]);
+    const timeTotals = useMemo(() => getTimeTotals(tasks, timeEntries), [tasks, timeEntries]);
+    const commentCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        Object.values(comments).forEach((list: Comment[]) => list.forEach(c => { if (c.taskId) counts.set(c.taskId, (counts.get(c.taskId) || 0) + 1); }));
+        return counts;
+    }, [comments]);
+    const projectTimeTotals = useMemo(() => getProjectTimeTotals(tasks, timeEntries), [tasks, timeEntries]);
     
     const allTags = useMemo(() => {
         const tagSet = new Set<string>();
@@ -39,39 +70,48 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
         tasks.forEach(t => t.tags.forEach(t => tagSet.add(t)));
         return ['All', ...Array.from(tagSet).sort()];
     }, [projects, tasks]);
+
+    // Members are per project; the same name in several projects is one person
+    const memberNames = useMemo(() => {
+        const names = new Map<string, string>();
+        projects.forEach(p => p.members.forEach(m => { if (!names.has(m.name.toLowerCase())) names.set(m.name.toLowerCase(), m.name); }));
+        if (assigneeFilter !== 'All' && assigneeFilter !== ASSIGNED_TO_ME && assigneeFilter !== UNASSIGNED && !names.has(assigneeFilter.toLowerCase())) names.set(assigneeFilter.toLowerCase(), assigneeFilter);
+        return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+    }, [projects, assigneeFilter]);
     
     const filteredData = useMemo(() => {
-        const lowerCaseQuery = searchQuery.toLowerCase();
-        
+        const matchingTaskIds = new Set<string>();
+
         const finalProjects = projects.filter(project => {
             if (project.isArchived !== showArchived) return false;
             
-            const projectMatchesSearch = !lowerCaseQuery || project.name.toLowerCase().includes(lowerCaseQuery) || project.description.toLowerCase().includes(lowerCaseQuery);
+            const projectMatchesSearch = matchesProject(project, search);
             const projectMatchesPriority = priorityFilter === 'All' || project.priority === priorityFilter;
             const projectMatchesTag = tagFilter === 'All' || project.tags.includes(tagFilter);
 
-            if (projectMatchesSearch && projectMatchesPriority && projectMatchesTag) {
-                if (statusFilter === 'All') return true;
-            }
-            
             const projectTasks = tasks.filter(t => t.projectId === project.id);
+            projectTasks.forEach(task => {
+                if (matchesTask(task, project, search, projectTasks) && matchesAssigneeFilter(task, project.members, assigneeFilter, currentUser)) matchingTaskIds.add(task.id);
+            });
             const hasMatchingTask = projectTasks.some(task => {
                 const statusMatch = statusFilter === 'All' || (statusFilter === 'Focused' ? task.isFocused : task.status === statusFilter);
                 const priorityMatch = priorityFilter === 'All' || task.priority === priorityFilter;
                 const tagMatch = tagFilter === 'All' || task.tags.includes(tagFilter) || project.tags.includes(tagFilter);
-                const searchMatch = !lowerCaseQuery || task.title.toLowerCase().includes(lowerCaseQuery);
+                const searchMatch = matchingTaskIds.has(task.id);
                 return statusMatch && priorityMatch && tagMatch && searchMatch;
             });
 
+            if (projectMatchesSearch && projectMatchesPriority && projectMatchesTag && statusFilter === 'All' && assigneeFilter === 'All') return true;
             return hasMatchingTask;
         });
 
         const finalProjectIds = new Set(finalProjects.map(p => p.id));
         const finalTasks = tasks.filter(task => finalProjectIds.has(task.projectId));
         
-        return { projects: finalProjects, tasks: finalTasks };
+        // Without query clauses or an assignee filter every task matches, so nothing needs to be dimmed
+        return { projects: finalProjects, tasks: finalTasks, matchingTaskIds: search.clauses.length > 0 || assigneeFilter !== 'All' ? matchingTaskIds : null };
 
-    }, [searchQuery, projects, tasks, statusFilter, priorityFilter, tagFilter, showArchived]);
+    }, [search, projects, tasks, statusFilter, priorityFilter, tagFilter, assigneeFilter, currentUser, showArchived]);
 
     const tasksByProject = useMemo(() => {
         return filteredData.tasks.reduce((acc, task) => {
@@ -81,6 +121,8 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
         }, {} as Record<string, Task[]>);
     }, [filteredData.tasks]);
     
+    const highlightTerms = useMemo(() => getHighlightTerms(search), [search]);
+
     const priorityOrder: Record<TaskPriority, number> = { [TaskPriority.High]: 3, [TaskPriority.Medium]: 2, [TaskPriority.Low]: 1 };
 
     const handleToggleSelect = (projectId: string) => {
@@ -97,10 +139,21 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
 
     return (
         <main className="container mx-auto p-4 sm:p-6 lg:p-8">
+            <SavedViewsBar
+                views={savedViews}
+                activeViewId={activeViewId}
+                filters={filters}
+                onSelect={onSelectView}
+                onSelectAssignedToMe={onSelectAssignedToMe}
+                onSave={onSaveView}
+                onUpdate={onUpdateView}
+                onRename={onRenameView}
+                onDelete={onDeleteView}
+            />
             <div className="mb-6 flex flex-col sm:flex-row justify-between items-center gap-4">
                 <h2 className="text-2xl font-bold">Projects Dashboard</h2>
                 <div className="flex flex-wrap items-center justify-center gap-2 bg-surface p-1 rounded-lg">
-                    {([ 'All', TaskStatus.ToDo, TaskStatus.InProgress, TaskStatus.Done, 'Focused'] as FilterStatus[]).map(option => (
+                    {([ 'All', TaskStatus.ToDo, TaskStatus.InProgress, TaskStatus.Done, 'Focused'] as DashboardStatusFilter[]).map(option => (
                         <button key={option} onClick={() => setStatusFilter(option)} className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${statusFilter === option ? 'bg-primary text-white' : 'text-on-surface-secondary hover:bg-secondary'}`}>
                            {option === 'Focused' ? <StarIcon className="w-5 h-5 inline-block" /> : option}
                         </button>
@@ -120,6 +173,15 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
                     <select value={tagFilter} onChange={e => setTagFilter(e.target.value)} className="bg-transparent text-sm font-semibold text-on-surface-secondary focus:outline-none">
                         {allTags.map(tag => <option key={tag} value={tag} className="bg-secondary text-on-surface">{tag}</option>)}
                     </select>
+                </div>
+                <div className="flex items-center bg-surface p-1 rounded-lg">
+                    <UserGroupIcon className="w-4 h-4 ml-2 mr-1 text-on-surface-secondary"/>
+                    <select value={assigneeFilter} onChange={e => setAssigneeFilter(e.target.value)} className="bg-transparent text-sm font-semibold text-on-surface-secondary focus:outline-none" aria-label="Assignee">
+                        <option value="All" className="bg-secondary text-on-surface">Anyone</option>
+                        <option value={ASSIGNED_TO_ME} className="bg-secondary text-on-surface">Assigned to me</option>
+                        <option value={UNASSIGNED} className="bg-secondary text-on-surface">Unassigned</option>
+                        {memberNames.map(name => <option key={name} value={name} className="bg-secondary text-on-surface">{name}</option>)}
+                    </select>
                 </div>
                  <div className="flex items-center bg-surface p-1 rounded-lg ml-auto">
                     <button onClick={() => setShowArchived(!showArchived)} className={`flex items-center gap-2 px-3 py-1 text-xs font-semibold rounded-md transition-colors ${showArchived ? 'bg-primary text-white' : 'text-on-surface-secondary hover:bg-secondary'}`}>
@@ -129,6 +191,13 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
                 </div>
             </div>
 
+            {assigneeFilter === ASSIGNED_TO_ME && !currentUser && (
+                <div className="mb-6 flex flex-wrap items-center justify-between gap-2 bg-surface rounded-lg p-3 text-sm text-on-surface-secondary">
+                    <span>Choose your profile to see the tasks assigned to you.</span>
+                    <button onClick={onManageProfiles} className="font-semibold text-primary hover:underline">Choose profile</button>
+                </div>
+            )}
+
             {selectedProjects.length > 0 && (
                 <div className="sticky top-20 z-30 bg-surface/95 backdrop-blur-sm rounded-lg p-3 mb-4 flex justify-between items-center ring-1 ring-primary/50 shadow-lg">
                     <span className="font-semibold">{selectedProjects.length} project{selectedProjects.length > 1 ? 's' : ''} selected</span>
@@ -155,13 +224,25 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
                         <ProjectCard
                             key={project.id}
                             project={project}
+                            role={getProjectRole(project, currentUser)}
                             tasks={tasksByProject[project.id] || []}
                             comments={comments[project.id] || []}
                             activityLog={activityLog[project.id]?.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()) || []}
+                            allTasks={tasks}
+                            allProjects={projects}
+                            profiles={appState.profiles}
+                            taskHistory={taskHistory}
+                            highlightTerms={highlightTerms}
+                            matchingTaskIds={filteredData.matchingTaskIds}
+                            timeTotals={timeTotals}
+                            projectTime={projectTimeTotals[project.id] || 0}
+                            activeTimerTaskId={activeTimer?.taskId ?? null}
                             isSelected={selectedProjects.includes(project.id)}
                             onToggleSelect={handleToggleSelect}
                             onToggleArchive={restHandlers.onToggleArchive}
                             onAddComment={restHandlers.onAddComment}
+                            commentCounts={commentCounts}
+                            onOpenTaskComments={restHandlers.onOpenTaskComments}
                             {...restHandlers}
                         />
                     ))}
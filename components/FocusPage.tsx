@@ -0,0 +1,196 @@
+import React, { useState, useMemo } from 'react';
+import { AppState, Project, Task, TaskStatus, TaskPlacement } from '../types';
+import { getFocusList, getPlanSuggestions, PlanSuggestions } from '../utils/focusPlan';
+import { getAncestors } from '../utils/taskTree';
+import { todayKey, taskDateKey } from '../utils/dates';
+import { StarIcon, CalendarDaysIcon, CheckboxIcon } from './IconComponents';
+
+interface FocusPageProps {
+  appState: AppState;
+  onUpdateTaskStatus: (taskId: string, status: TaskStatus) => void;
+  onToggleTaskFocus: (taskId: string) => void;
+  onEditTask: (task: Task) => void;
+  onReorderFocus: (taskId: string, placement: TaskPlacement) => void;
+  onAddToFocus: (taskIds: string[]) => void;
+  onSetAutoRollover: (enabled: boolean) => void;
+}
+
+const suggestionGroups: { key: keyof PlanSuggestions, label: string }[] = [
+  { key: 'carriedOver', label: 'Unfinished from yesterday' },
+  { key: 'overdue', label: 'Overdue' },
+  { key: 'dueToday', label: 'Due today' },
+];
+
+const FocusPage: React.FC<FocusPageProps> = ({ appState, onUpdateTaskStatus, onToggleTaskFocus, onEditTask, onReorderFocus, onAddToFocus, onSetAutoRollover }) => {
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskPlacement | null>(null);
+
+  const today = todayKey();
+  const focusList: Task[] = useMemo(() => getFocusList(appState), [appState]);
+  const suggestions: PlanSuggestions = useMemo(() => getPlanSuggestions(appState, today), [appState, today]);
+  const suggestionCount = suggestions.carriedOver.length + suggestions.overdue.length + suggestions.dueToday.length;
+  const projectById = useMemo(() => new Map<string, Project>(appState.projects.map((p: Project) => [p.id, p])), [appState.projects]);
+  const taskById = useMemo(() => new Map<string, Task>(appState.tasks.map((t: Task) => [t.id, t])), [appState.tasks]);
+  const doneCount = focusList.filter(t => t.status === TaskStatus.Done).length;
+
+  const openPlanner = () => {
+    // Pre-select everything that is carried over or overdue; due-today tasks are opt-in
+    setSelectedIds([...suggestions.carriedOver, ...suggestions.overdue].map(t => t.id));
+    setIsPlanning(true);
+  };
+
+  const handleAddSelected = () => {
+    if (selectedIds.length > 0) onAddToFocus(selectedIds);
+    setIsPlanning(false);
+  };
+
+  const toggleSelected = (taskId: string) => {
+    setSelectedIds(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]);
+  };
+
+  const getPlacement = (e: React.DragEvent<HTMLDivElement>, targetId: string): TaskPlacement => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { targetId, position: e.clientY < rect.top + rect.height / 2 ? 'top' : 'bottom' };
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, task: Task) => {
+    e.dataTransfer.setData('taskId', task.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setTimeout(() => setDraggedTaskId(task.id), 0);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, task: Task) => {
+    if (!e.dataTransfer.types.includes('taskid')) return;
+    e.preventDefault();
+    if (task.id !== draggedTaskId) setDropTarget(getPlacement(e, task.id));
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, task: Task) => {
+    e.preventDefault();
+    const draggedId = e.dataTransfer.getData('taskId');
+    if (draggedId && draggedId !== task.id) onReorderFocus(draggedId, getPlacement(e, task.id));
+    handleDragEnd();
+  };
+
+  const renderBreadcrumb = (task: Task) => {
+    const project = projectById.get(task.projectId);
+    const path = [project?.name || 'Unknown project', ...getAncestors(task, taskById).map(a => a.title)];
+    return <p className="text-xs text-on-surface-secondary truncate">{path.join(' › ')}</p>;
+  };
+
+  return (
+    <main className="container mx-auto p-4 sm:p-6 lg:p-8 max-w-4xl">
+      <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Today's Focus</h2>
+          <p className="text-sm text-on-surface-secondary">
+            {new Date().toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+            {focusList.length > 0 && ` · ${doneCount} of ${focusList.length} done`}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-on-surface-secondary cursor-pointer" title="When a new day starts, unfinished focus tasks stay on the list">
+            <input type="checkbox" checked={appState.focusPlan.autoRollover} onChange={e => onSetAutoRollover(e.target.checked)} className="accent-primary" />
+            Roll over unfinished tasks
+          </label>
+          <button onClick={() => isPlanning ? setIsPlanning(false) : openPlanner()} className="flex items-center gap-2 bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-lg transition-colors">
+            <CalendarDaysIcon className="w-5 h-5" />
+            Plan my day{suggestionCount > 0 ? ` (${suggestionCount})` : ''}
+          </button>
+        </div>
+      </div>
+
+      {isPlanning && (
+        <div className="bg-surface rounded-xl p-4 mb-6 ring-1 ring-primary/40">
+          {suggestionCount === 0 ? (
+            <p className="text-sm text-on-surface-secondary">Nothing is overdue or due today. You're all caught up.</p>
+          ) : (
+            <div className="space-y-4">
+              {suggestionGroups.filter(g => suggestions[g.key].length > 0).map(group => (
+                <div key={group.key}>
+                  <h3 className="text-sm font-semibold text-on-surface-secondary mb-2">{group.label}</h3>
+                  <div className="space-y-1">
+                    {suggestions[group.key].map(task => (
+                      <button key={task.id} onClick={() => toggleSelected(task.id)} className="w-full flex items-center gap-3 text-left px-2 py-1.5 rounded-md hover:bg-secondary transition-colors">
+                        <CheckboxIcon checked={selectedIds.includes(task.id)} className={`w-5 h-5 flex-shrink-0 ${selectedIds.includes(task.id) ? 'text-primary' : 'text-on-surface-secondary'}`} />
+                        <div className="w-1 self-stretch rounded-full" style={{ backgroundColor: projectById.get(task.projectId)?.color }}></div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-on-surface truncate">{task.title}</p>
+                          {renderBreadcrumb(task)}
+                        </div>
+                        {task.dueDate && <span className={`text-xs ${taskDateKey(task.dueDate)! < today ? 'text-red-500' : 'text-on-surface-secondary'}`}>{new Date(task.dueDate).toLocaleDateString()}</span>}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={() => setIsPlanning(false)} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Close</button>
+            {suggestionCount > 0 && (
+              <button onClick={handleAddSelected} disabled={selectedIds.length === 0} className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                Add {selectedIds.length} to Focus
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {focusList.length > 0 ? (
+        <div className="space-y-2">
+          {focusList.map((task, index) => {
+            const project = projectById.get(task.projectId);
+            const isOverdue = task.dueDate && taskDateKey(task.dueDate)! < today && task.status !== TaskStatus.Done;
+            const indicator = dropTarget?.targetId === task.id ? dropTarget.position : null;
+            return (
+              <div
+                key={task.id}
+                draggable
+                onDragStart={(e) => handleDragStart(e, task)}
+                onDragEnd={handleDragEnd}
+                onDragOver={(e) => handleDragOver(e, task)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, task)}
+                onDoubleClick={() => onEditTask(task)}
+                className={`flex items-center gap-3 bg-surface rounded-lg p-3 cursor-grab active:cursor-grabbing border-y-2 border-transparent border-l-4 transition-all ${draggedTaskId === task.id ? 'opacity-40' : 'hover:bg-secondary'} ${indicator === 'top' ? '!border-t-primary' : ''} ${indicator === 'bottom' ? '!border-b-primary' : ''}`}
+                style={{ borderLeftColor: project?.color }}
+              >
+                <span className="w-6 text-center text-sm font-semibold text-on-surface-secondary">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <p className={`font-medium truncate ${task.status === TaskStatus.Done ? 'line-through text-on-surface-secondary' : 'text-on-surface'}`}>{task.title}</p>
+                  {renderBreadcrumb(task)}
+                </div>
+                {task.dueDate && <div className={`hidden sm:flex items-center gap-1 text-xs ${isOverdue ? 'text-red-500' : 'text-on-surface-secondary'}`}><CalendarDaysIcon className="w-3 h-3" /><span>{new Date(task.dueDate).toLocaleDateString()}</span></div>}
+                <select
+                  value={task.status}
+                  onChange={e => onUpdateTaskStatus(task.id, e.target.value as TaskStatus)}
+                  className="bg-slate-700 border border-slate-600 rounded-md py-1 px-2 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+                >
+                  {Object.values(TaskStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+                <button onClick={() => onToggleTaskFocus(task.id)} className="text-yellow-400 hover:text-slate-500 transition-colors" title="Remove from focus">
+                  <StarIcon filled className="w-5 h-5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-16 bg-surface rounded-lg">
+          <h3 className="text-xl font-semibold">Nothing in focus yet</h3>
+          <p className="text-on-surface-secondary mt-2">Star tasks in your projects or use "Plan my day" to build today's list.</p>
+        </div>
+      )}
+    </main>
+  );
+};
+
+export default FocusPage;
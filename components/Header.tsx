@@ -1,42 +1,61 @@
 
 import React, { useRef } from 'react';
-import { Project, Task } from '../types';
-import { UploadIcon, DownloadIcon, StarIcon, FloppyDiskIcon } from './IconComponents';
+import { AppState, UserProfile } from '../types';
+import { UploadIcon, DownloadIcon, StarIcon, FloppyDiskIcon, CalendarDaysIcon, TableCellsIcon, AtSymbolIcon, CloudIcon } from './IconComponents';
 import useLocalStorage from '../hooks/useLocalStorage';
-import SaveStatusIndicator, { SaveStatus } from './SaveStatusIndicator';
+import SaveStatusIndicator, { SaveStatus, isSaved } from './SaveStatusIndicator';
+import { buildWorkspaceExport } from '../storage/exportFormat';
+import { buildTasksCsv } from '../storage/csv';
+import { SearchError } from '../utils/searchQuery';
+import { downloadFile, fileDateStamp } from '../utils/download';
+import ProfileSwitcher from './ProfileSwitcher';
+
+export type AppPage = 'projects' | 'focus' | 'time' | 'analytics';
+
+const pageLabels: Record<AppPage, string> = { projects: 'Projects', focus: 'Focus', time: 'Timesheet', analytics: 'Analytics' };
 
 interface HeaderProps {
-  projects: Project[];
-  tasks: Task[];
-  onImport: (data: { projects: Project[]; tasks: Task[] }) => void;
+  page: AppPage;
+  onChangePage: (page: AppPage) => void;
+  focusCount: number;
+  mentionCount: number;
+  onOpenMentions: () => void;
+  profiles: UserProfile[];
+  currentUser: UserProfile | null; // The acting profile; null while roles are not enforced
+  onChangeCurrentUser: (profileId: string | null) => void;
+  onManageProfiles: () => void;
+  appState: AppState;
+  onImport: (fileContent: string, fileName: string) => void;
   onAddNewProject: () => void;
+  onOpenCalendar: () => void;
   searchQuery: string;
   setSearchQuery: (query: string) => void;
+  searchErrors: SearchError[];
   undo: () => void;
   redo: () => void;
   canUndo: boolean;
   canRedo: boolean;
   onManualSave: () => void;
   saveStatus: SaveStatus;
+  saveStatusTitle?: string;
+  onOpenTabConflicts?: () => void; // Set while edits clash with another tab's
+  onOpenSync: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ projects, tasks, onImport, onAddNewProject, searchQuery, setSearchQuery, undo, redo, canUndo, canRedo, onManualSave, saveStatus }) => {
+const Header: React.FC<HeaderProps> = ({ page, onChangePage, focusCount, mentionCount, onOpenMentions, profiles, currentUser, onChangeCurrentUser, onManageProfiles, appState, onImport, onAddNewProject, onOpenCalendar, searchQuery, setSearchQuery, searchErrors, undo, redo, canUndo, canRedo, onManualSave, saveStatus, saveStatusTitle, onOpenTabConflicts, onOpenSync }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [lastBackup, setLastBackup] = useLocalStorage<string | null>('focusflow_last_backup', null);
 
   const handleExport = () => {
-    const data = {
-      projects,
-      tasks,
-    };
-    const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(JSON.stringify(data, null, 2))}`;
-    const link = document.createElement('a');
-    link.href = jsonString;
-    link.download = `focusflow-backup-${new Date().toISOString().split('T')[0]}.json`;
-    link.click();
+    const data = buildWorkspaceExport(appState);
+    downloadFile(JSON.stringify(data, null, 2), `focusflow-backup-${fileDateStamp()}.json`, 'application/json');
     setLastBackup(new Date().toISOString());
   };
 
+  const handleExportCsv = () => {
+    downloadFile(buildTasksCsv(appState.tasks, appState.projects), `focusflow-tasks-${fileDateStamp()}.csv`, 'text/csv');
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
@@ -47,26 +66,10 @@ const Header: React.FC<HeaderProps> = ({ projects, tasks, onImport, onAddNewProj
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const text = e.target?.result;
-        if (typeof text !== 'string') throw new Error("File content is not a string");
-        
-        const data = JSON.parse(text);
-        if (Array.isArray(data.projects) && Array.isArray(data.tasks)) {
-           if (window.confirm("Are you sure you want to import this data? This will overwrite your current projects and tasks and clear your undo history.")) {
-                onImport(data);
-                alert("Data imported successfully!");
-           }
-        } else {
-          throw new Error("Invalid file format.");
-        }
-      } catch (error) {
-        console.error("Failed to import data:", error);
-        alert(`Failed to import data. Please check the file format. Error: ${(error as Error).message}`);
-      } finally {
-        if(fileInputRef.current) {
-            fileInputRef.current.value = "";
-        }
+      const text = e.target?.result;
+      onImport(typeof text === 'string' ? text : '', file.name);
+      if(fileInputRef.current) {
+          fileInputRef.current.value = "";
       }
     };
     reader.readAsText(file);
@@ -79,16 +82,33 @@ const Header: React.FC<HeaderProps> = ({ projects, tasks, onImport, onAddNewProj
           <div className="flex items-center gap-3 flex-shrink-0">
             <StarIcon className="h-8 w-8 text-primary" filled={true}/>
             <h1 className="text-3xl font-bold text-on-surface hidden md:block">FocusFlow</h1>
+            <nav className="flex items-center bg-secondary/60 p-1 rounded-lg ml-2">
+              {(Object.keys(pageLabels) as AppPage[]).map(option => (
+                <button key={option} onClick={() => onChangePage(option)} className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${page === option ? 'bg-primary text-white' : 'text-on-surface-secondary hover:text-on-surface'}`}>
+                  {pageLabels[option]}{option === 'focus' && focusCount > 0 ? ` (${focusCount})` : ''}
+                </button>
+              ))}
+            </nav>
           </div>
           
-          <div className="flex-1 min-w-0 max-w-xl">
+          <div className="relative flex-1 min-w-0 max-w-xl">
              <input
                 type="search"
-                placeholder="Search tasks and projects..."
+                placeholder='Search, e.g. status:done tag:ui due:<7d "free text"'
+                title='Filters: status:, priority:, tag:, project:, due:, start:, is:focused|overdue|blocked|recurring|open, has:subtasks|dependencies|due|start|description|tags. Prefix with "-" to exclude.'
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full bg-secondary border border-slate-600 rounded-lg px-4 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+                className={`w-full bg-secondary border rounded-lg px-4 py-2 text-on-surface focus:ring-2 focus:outline-none ${searchErrors.length > 0 ? 'border-red-500 focus:ring-red-500' : 'border-slate-600 focus:ring-primary'}`}
              />
+             {searchErrors.length > 0 && (
+                <ul className="absolute top-full left-0 right-0 mt-1 bg-surface border border-red-500/50 rounded-lg p-2 space-y-1 shadow-lg text-xs">
+                    {searchErrors.map(error => (
+                        <li key={error.start} className="text-on-surface-secondary">
+                            <code className="text-red-400 bg-red-500/10 px-1 rounded">{error.token}</code> {error.message}
+                        </li>
+                    ))}
+                </ul>
+             )}
           </div>
 
           <div className="flex items-center gap-1 sm:gap-2">
@@ -99,14 +119,25 @@ const Header: React.FC<HeaderProps> = ({ projects, tasks, onImport, onAddNewProj
                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="m15 15 6-6m0 0-6-6m6 6H9a6 6 0 0 0 0 12h3" /></svg>
             </button>
 
+            <ProfileSwitcher profiles={profiles} currentUser={currentUser} onChangeCurrentUser={onChangeCurrentUser} onManageProfiles={onManageProfiles} />
+
+            <button onClick={onOpenMentions} className="relative p-2 rounded-md hover:bg-secondary" title="Mentions">
+                <AtSymbolIcon className="w-5 h-5" />
+                {mentionCount > 0 && <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary text-white text-xs font-bold flex items-center justify-center">{mentionCount}</span>}
+            </button>
+
             <div className="h-6 border-l border-slate-600 mx-1"></div>
             
-            <SaveStatusIndicator status={saveStatus} />
+            <button onClick={onOpenSync} className="p-2 rounded-md hover:bg-secondary" title="Sync with your other devices">
+                <CloudIcon className="w-5 h-5" />
+            </button>
+
+            <SaveStatusIndicator status={saveStatus} title={saveStatusTitle} onClick={onOpenTabConflicts ?? (saveStatus === 'pending' || saveStatus === 'syncError' ? onOpenSync : undefined)} />
 
             <button
               onClick={onManualSave}
               title="Save progress"
-              disabled={saveStatus === 'saved'}
+              disabled={isSaved(saveStatus)}
               className="flex items-center gap-2 bg-secondary hover:bg-slate-600 text-on-surface font-semibold py-2 px-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <FloppyDiskIcon className="w-5 h-5"/>
@@ -126,18 +157,36 @@ const Header: React.FC<HeaderProps> = ({ projects, tasks, onImport, onAddNewProj
                 </div>}
             </div>
             
+            <button
+                onClick={handleExportCsv}
+                title="Export all tasks as CSV"
+                className="flex items-center gap-2 bg-secondary hover:bg-slate-600 text-on-surface font-semibold py-2 px-3 rounded-lg transition-colors"
+            >
+                <TableCellsIcon className="w-5 h-5"/>
+                <span className="hidden lg:inline">CSV</span>
+            </button>
+
             <button
                 onClick={handleImportClick}
+                title="Import a backup (.json) or a task spreadsheet (.csv)"
                 className="flex items-center gap-2 bg-secondary hover:bg-slate-600 text-on-surface font-semibold py-2 px-3 rounded-lg transition-colors"
             >
                 <UploadIcon className="w-5 h-5"/>
                 <span className="hidden lg:inline">Import</span>
+            </button>
+            <button
+                onClick={onOpenCalendar}
+                title="Export or import calendar (.ics) files"
+                className="flex items-center gap-2 bg-secondary hover:bg-slate-600 text-on-surface font-semibold py-2 px-3 rounded-lg transition-colors"
+            >
+                <CalendarDaysIcon className="w-5 h-5"/>
+                <span className="hidden lg:inline">Calendar</span>
             </button>
              <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileChange}
-              accept=".json"
+              accept=".json,.csv"
               className="hidden"
             />
             
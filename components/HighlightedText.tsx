@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Marks every case-insensitive occurrence of the search terms inside `text`.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  const activeTerms = terms.filter((t: string) => t.length > 0);
+  if (activeTerms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${activeTerms.map(escapeRegExp).join('|')})`, 'gi');
+  const lowerTerms = activeTerms.map((t: string) => t.toLowerCase());
+  return (
+    <>
+      {text.split(pattern).map((part: string, index: number) =>
+        lowerTerms.includes(part.toLowerCase())
+          ? <mark key={index} className="bg-primary/40 text-inherit rounded-sm">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { ImportPreview as ImportPreviewData, ImportIssue, ImportMode } from '../storage/importValidation';
+
+interface ImportPreviewProps {
+  fileName: string;
+  preview: ImportPreviewData;
+  onConfirm: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const recordTypeLabels: Record<ImportIssue['recordType'], string> = {
+  project: 'Project',
+  task: 'Task',
+  comment: 'Comments',
+  activity: 'Activity',
+  timeEntry: 'Time entry',
+};
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ fileName, preview, onConfirm, onCancel }) => {
+  const { data, issues }: ImportPreviewData = preview;
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const commentCount = Object.values(data.comments).reduce((sum, list) => sum + (Array.isArray(list) ? list.length : 0), 0);
+
+  const issuesByRecord = issues.reduce((acc, issue) => {
+    const key = `${issue.recordType}:${issue.recordId}`;
+    if (!acc[key]) acc[key] = [];
+    acc[key].push(issue);
+    return acc;
+  }, {} as Record<string, ImportIssue[]>);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-on-surface-secondary">
+        <p><strong className="text-on-surface">{fileName}</strong> contains {data.projects.length} project(s), {data.tasks.length} task(s) and {commentCount} comment(s).</p>
+        {preview.exportedAt && <p className="mt-1 text-xs">Exported {new Date(preview.exportedAt).toLocaleString()}{preview.appVersion ? ` from FocusFlow ${preview.appVersion}` : ''}.</p>}
+        <p className="mt-1">
+          {preview.kind === 'project'
+            ? 'The project will be added to your current workspace. If it already exists, it is imported as a copy.'
+            : 'Importing replaces your current workspace and clears your undo history.'}
+        </p>
+      </div>
+
+      {issues.length > 0 ? (
+        <div>
+          <p className="text-sm font-semibold mb-2">
+            {errorCount > 0 && <span className="text-red-400">{errorCount} error(s)</span>}
+            {errorCount > 0 && warningCount > 0 && <span className="text-on-surface-secondary">, </span>}
+            {warningCount > 0 && <span className="text-yellow-400">{warningCount} warning(s)</span>}
+          </p>
+          <div className="max-h-64 overflow-y-auto space-y-2 pr-2">
+            {Object.entries(issuesByRecord).map(([key, recordIssues]) => (
+              <div key={key} className="bg-secondary rounded-md p-2 text-sm">
+                <p className="font-semibold text-on-surface truncate">
+                  <span className="text-xs text-on-surface-secondary mr-2">{recordTypeLabels[recordIssues[0].recordType]}</span>
+                  {recordIssues[0].recordLabel}
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {recordIssues.map((issue, index) => (
+                    <li key={index} className="flex items-start gap-2 text-xs text-on-surface-secondary">
+                      <span className={`mt-1 w-2 h-2 rounded-full flex-shrink-0 ${issue.severity === 'error' ? 'bg-red-500' : 'bg-yellow-400'}`}></span>
+                      <span>{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-on-surface-secondary mt-2">
+            Skipping drops records with errors (and their sub-tasks). Auto-repair fixes values where possible and moves orphaned tasks into a "Recovered Tasks" project.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-green-400">No problems found.</p>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button onClick={onCancel} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Abort</button>
+        {issues.length > 0 ? (
+          <>
+            <button onClick={() => onConfirm('skip')} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">
+              {errorCount > 0 ? 'Skip Bad Records' : 'Import As-Is'}
+            </button>
+            <button onClick={() => onConfirm('repair')} className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-md transition-colors">Auto-Repair</button>
+          </>
+        ) : (
+          <button onClick={() => onConfirm('skip')} className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-md transition-colors">Import</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { Member } from '../types';
+import { parseMarkdown, MarkdownBlock, MarkdownInline, TableAlign } from '../utils/markdown';
+
+interface MarkdownProps {
+  source: string;
+  members?: Member[]; // Names comment mentions
+  onToggleChecklistItem?: (line: number) => void; // Checklist items are read-only without it
+  className?: string;
+}
+
+const headingClasses = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+const alignClasses: Record<Exclude<TableAlign, null>, string> = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const Markdown: React.FC<MarkdownProps> = ({ source, members = [], onToggleChecklistItem, className = '' }) => {
+  const blocks: MarkdownBlock[] = useMemo(() => parseMarkdown(source), [source]);
+
+  const renderInlines = (inlines: MarkdownInline[]): React.ReactNode => inlines.map((inline, i) => {
+    switch (inline.type) {
+      case 'text': return <React.Fragment key={i}>{inline.text}</React.Fragment>;
+      case 'strong': return <strong key={i} className="font-semibold text-on-surface">{renderInlines(inline.children)}</strong>;
+      case 'em': return <em key={i}>{renderInlines(inline.children)}</em>;
+      case 'del': return <del key={i}>{renderInlines(inline.children)}</del>;
+      case 'code': return <code key={i} className="bg-slate-700/70 rounded px-1 py-0.5 text-[0.85em] font-mono text-on-surface">{inline.text}</code>;
+      case 'link': return <a key={i} href={inline.href} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-words" onClick={e => e.stopPropagation()}>{renderInlines(inline.children)}</a>;
+      case 'mention': return <span key={i} className="text-primary font-semibold bg-primary/10 rounded px-0.5">@{members.find(m => m.id === inline.memberId)?.name ?? 'former member'}</span>;
+      case 'break': return <br key={i} />;
+    }
+  });
+
+  const renderBlocks = (list: MarkdownBlock[]): React.ReactNode => list.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3'; // Below the card and modal headings
+        return <Tag key={i} className={`${headingClasses[block.level - 1]} text-on-surface`}>{renderInlines(block.children)}</Tag>;
+      }
+      case 'paragraph': return <p key={i}>{renderInlines(block.children)}</p>;
+      case 'code': return <pre key={i} className="bg-slate-900/70 rounded-md p-3 overflow-x-auto text-xs font-mono text-on-surface"><code>{block.text}</code></pre>;
+      case 'quote': return <blockquote key={i} className="border-l-4 border-slate-600 pl-3 italic space-y-2">{renderBlocks(block.children)}</blockquote>;
+      case 'rule': return <hr key={i} className="border-slate-600" />;
+      case 'list': {
+        const isChecklist = block.items.some(item => item.checked !== null);
+        const items = block.items.map(item => (
+          <li key={item.line} className={item.checked !== null ? 'flex items-start gap-2 list-none' : ''}>
+            {item.checked !== null && (
+              <input
+                type="checkbox"
+                checked={item.checked}
+                disabled={!onToggleChecklistItem}
+                onChange={() => onToggleChecklistItem?.(item.line)}
+                onClick={e => e.stopPropagation()}
+                className="mt-1 accent-primary cursor-pointer disabled:cursor-default"
+              />
+            )}
+            <div className={`min-w-0 space-y-1 ${item.checked ? 'line-through opacity-60' : ''}`}>{renderBlocks(item.children)}</div>
+          </li>
+        ));
+        const listClassName = `space-y-1 ${isChecklist ? 'pl-1' : `pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}`;
+        return block.ordered
+          ? <ol key={i} start={block.start} className={listClassName}>{items}</ol>
+          : <ul key={i} className={listClassName}>{items}</ul>;
+      }
+      case 'table': return (
+        <div key={i} className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>{block.header.map((cell, c) => <th key={c} className={`border border-slate-600 px-2 py-1 font-semibold text-on-surface ${alignClasses[block.align[c] || 'left']}`}>{renderInlines(cell)}</th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => <tr key={r}>{row.map((cell, c) => <td key={c} className={`border border-slate-600 px-2 py-1 ${alignClasses[block.align[c] || 'left']}`}>{renderInlines(cell)}</td>)}</tr>)}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+  });
+
+  return <div className={`text-sm text-on-surface-secondary space-y-2 break-words ${className}`}>{renderBlocks(blocks)}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { AppState, Task, UserProfile } from '../types';
+import { getMentionsOf, MentionItem } from '../utils/mentions';
+import { resolveAuthor } from '../utils/profiles';
+import Markdown from './Markdown';
+
+interface MentionsListProps {
+  appState: AppState;
+  currentUser: UserProfile | null;
+  onManageProfiles: () => void;
+  onOpenTask: (task: Task) => void;
+}
+
+const MentionsList: React.FC<MentionsListProps> = ({ appState, currentUser, onManageProfiles, onOpenTask }) => {
+  const mentions: MentionItem[] = getMentionsOf(appState, currentUser);
+
+  return (
+    <div className="space-y-4">
+      {!currentUser ? (
+        <div className="text-center py-6 text-on-surface-secondary">
+          <p>Choose your profile to see where you were mentioned.</p>
+          <button onClick={onManageProfiles} className="mt-2 text-sm font-semibold text-primary hover:underline">Choose profile</button>
+        </div>
+      ) : mentions.length === 0 ? (
+        <p className="text-center py-6 text-on-surface-secondary">Nobody has mentioned {currentUser.name} yet.</p>
+      ) : (
+        <ul className="max-h-[60vh] overflow-y-auto space-y-3 pr-2">
+          {mentions.map(({ comment, project, task }) => (
+            <li key={comment.id} className="bg-secondary/50 rounded-lg p-3 border-l-4" style={{ borderLeftColor: project.color }}>
+              <div className="flex items-baseline justify-between gap-2 mb-1">
+                <p className="text-xs text-on-surface-secondary truncate">
+                  <span className="font-semibold text-on-surface">{resolveAuthor(appState.profiles, comment.authorProfileId, comment.authorName).name}</span> in {project.name}{task ? ` · ${task.title}` : comment.taskId ? ' · deleted task' : ''}
+                </p>
+                <span className="text-xs text-on-surface-secondary whitespace-nowrap">{new Date(comment.createdAt).toLocaleString()}</span>
+              </div>
+              <Markdown source={comment.content} members={project.members} />
+              {task && <button onClick={() => onOpenTask(task)} className="mt-2 text-xs font-semibold text-primary hover:underline">Open thread</button>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionsList;
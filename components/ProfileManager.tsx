@@ -0,0 +1,159 @@
+import React, { useState, useRef } from 'react';
+import { UserProfile } from '../types';
+import { getInitials, getProfileAvatarUrl, PROFILE_COLORS } from '../utils/profiles';
+import { EditIcon, TrashIcon, PlusIcon, UploadIcon } from './IconComponents';
+
+interface ProfileManagerProps {
+  profiles: UserProfile[];
+  currentProfileId: string | null;
+  onSelectProfile: (profileId: string | null) => void;
+  onSaveProfile: (profile: UserProfile) => void; // Adds the profile, or replaces the one with the same ID
+  onDeleteProfile: (profileId: string) => void;
+}
+
+const AVATAR_SIZE = 96;
+
+// Uploaded images are cropped to a square and scaled down, so the data URL stays small enough to store
+const readAvatar = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onerror = () => reject(new Error('The image could not be read.'));
+  reader.onload = () => {
+    const image = new Image();
+    image.onerror = () => reject(new Error('The file is not an image.'));
+    image.onload = () => {
+      const side = Math.min(image.width, image.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = AVATAR_SIZE;
+      canvas.getContext('2d')!.drawImage(image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.src = reader.result as string;
+  };
+  reader.readAsDataURL(file);
+});
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({ profiles, currentProfileId, onSelectProfile, onSaveProfile, onDeleteProfile }) => {
+  const [editing, setEditing] = useState<UserProfile | null>(null); // The profile in the form; a new one has an ID not in `profiles`
+  const [name, setName] = useState('');
+  const [initials, setInitials] = useState('');
+  const [color, setColor] = useState(PROFILE_COLORS[0]);
+  const [avatarDataUrl, setAvatarDataUrl] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const openForm = (profile: UserProfile | null) => {
+    const next: UserProfile = profile || { id: `profile_${Date.now()}`, name: '', initials: '', avatarDataUrl: null, color: PROFILE_COLORS[profiles.length % PROFILE_COLORS.length], createdAt: new Date().toISOString() };
+    setEditing(next);
+    setName(next.name);
+    setInitials(next.initials);
+    setColor(next.color);
+    setAvatarDataUrl(next.avatarDataUrl);
+    setUploadError('');
+  };
+
+  // Initials follow the name until they are edited by hand
+  const handleNameChange = (value: string) => {
+    if (!initials || initials === getInitials(name)) setInitials(getInitials(value));
+    setName(value);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      setAvatarDataUrl(await readAvatar(file));
+      setUploadError('');
+    } catch (error) {
+      setUploadError((error as Error).message);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    if (!name.trim()) {
+      alert("Profile name cannot be empty.");
+      return;
+    }
+    onSaveProfile({ ...editing, name: name.trim(), initials: (initials.trim() || getInitials(name)).slice(0, 3).toUpperCase(), color, avatarDataUrl });
+    setEditing(null);
+  };
+
+  const handleDelete = (profile: UserProfile) => {
+    if (window.confirm(`Delete the profile "${profile.name}"? Members linked to it keep their name but are no longer linked.`)) onDeleteProfile(profile.id);
+  };
+
+  const preview: UserProfile | null = editing && { ...editing, initials: initials || getInitials(name), color, avatarDataUrl };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-on-surface-secondary">
+        Profiles live on this device. The profile you use is recorded on your comments, activity and new tasks, and project roles apply to the members linked to it.
+      </p>
+      {profiles.length > 0 ? (
+        <ul className="space-y-2 max-h-64 overflow-y-auto pr-2">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center gap-3 bg-secondary/50 rounded-lg p-2">
+              <img src={getProfileAvatarUrl(profile)} alt="" className="w-8 h-8 rounded-full object-cover" />
+              <span className="flex-1 min-w-0 truncate font-semibold text-on-surface">{profile.name}</span>
+              {profile.id === currentProfileId
+                ? <span className="text-xs font-semibold text-primary px-2">In use</span>
+                : <button onClick={() => onSelectProfile(profile.id)} className="text-xs font-semibold text-primary hover:underline px-2">Use</button>}
+              <button onClick={() => openForm(profile)} className="p-1 text-on-surface-secondary hover:text-on-surface" title="Edit profile"><EditIcon className="w-4 h-4" /></button>
+              <button onClick={() => handleDelete(profile)} className="p-1 text-on-surface-secondary hover:text-red-400" title="Delete profile"><TrashIcon className="w-4 h-4" /></button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center py-4 text-on-surface-secondary">No profiles yet.</p>
+      )}
+
+      {editing && preview ? (
+        <form onSubmit={handleSubmit} className="space-y-3 border-t border-slate-700 pt-4">
+          <div className="flex items-center gap-4">
+            <img src={getProfileAvatarUrl(preview)} alt="" className="w-14 h-14 rounded-full object-cover" />
+            <div className="flex flex-col gap-1 text-sm">
+              <button type="button" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 font-semibold text-primary hover:underline">
+                <UploadIcon className="w-4 h-4" /> Upload picture
+              </button>
+              {avatarDataUrl && <button type="button" onClick={() => setAvatarDataUrl(null)} className="text-left text-on-surface-secondary hover:text-on-surface">Use initials instead</button>}
+              {uploadError && <span className="text-red-400 text-xs">{uploadError}</span>}
+              <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label htmlFor="profileName" className="block text-sm font-medium text-on-surface-secondary mb-1">Name</label>
+              <input id="profileName" type="text" value={name} onChange={(e) => handleNameChange(e.target.value)} placeholder="e.g., Alice" autoFocus className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+            </div>
+            <div>
+              <label htmlFor="profileInitials" className="block text-sm font-medium text-on-surface-secondary mb-1">Initials</label>
+              <input id="profileInitials" type="text" value={initials} maxLength={3} onChange={(e) => setInitials(e.target.value.toUpperCase())} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-on-surface-secondary mb-1">Color</span>
+            <div className="flex flex-wrap gap-2">
+              {PROFILE_COLORS.map(c => (
+                <button key={c} type="button" onClick={() => setColor(c)} className={`w-7 h-7 rounded-full transition-all ${color === c ? 'ring-2 ring-offset-2 ring-offset-surface ring-primary' : ''}`} style={{ backgroundColor: c }} aria-label={`Select color ${c}`}/>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setEditing(null)} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Cancel</button>
+            <button type="submit" className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-md transition-colors">
+              {profiles.some(p => p.id === editing.id) ? 'Save Profile' : 'Create Profile'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button onClick={() => openForm(null)} className="flex items-center gap-2 text-sm font-semibold text-primary hover:underline">
+          <PlusIcon className="w-4 h-4" /> New profile
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProfileManager;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { getProfileAvatarUrl } from '../utils/profiles';
+import { ChevronDownIcon, UserGroupIcon } from './IconComponents';
+
+interface ProfileSwitcherProps {
+  profiles: UserProfile[];
+  currentUser: UserProfile | null; // null while roles are not enforced
+  onChangeCurrentUser: (profileId: string | null) => void;
+  onManageProfiles: () => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, currentUser, onChangeCurrentUser, onManageProfiles }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const choose = (profileId: string | null) => {
+    onChangeCurrentUser(profileId);
+    setIsOpen(false);
+  };
+
+  // Closes when focus leaves the switcher, e.g. on a click elsewhere
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" onBlur={handleBlur}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={currentUser ? `Acting as ${currentUser.name}: project roles apply` : 'No profile: project roles are not enforced'}
+        className="flex items-center gap-1 p-1 rounded-md hover:bg-secondary"
+      >
+        {currentUser
+          ? <img src={getProfileAvatarUrl(currentUser)} alt={currentUser.name} className="w-7 h-7 rounded-full object-cover" />
+          : <span className="w-7 h-7 rounded-full bg-secondary flex items-center justify-center"><UserGroupIcon className="w-4 h-4 text-on-surface-secondary" /></span>}
+        <ChevronDownIcon className="w-4 h-4 text-on-surface-secondary" />
+      </button>
+      {isOpen && (
+        <ul className="absolute right-0 mt-2 w-56 z-50 bg-surface border border-slate-700 rounded-lg shadow-lg py-1 text-sm">
+          {profiles.map(profile => (
+            <li key={profile.id}>
+              <button onClick={() => choose(profile.id)} className={`w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-secondary ${profile.id === currentUser?.id ? 'text-primary font-semibold' : 'text-on-surface'}`}>
+                <img src={getProfileAvatarUrl(profile)} alt="" className="w-6 h-6 rounded-full object-cover" />
+                <span className="truncate">{profile.name}</span>
+              </button>
+            </li>
+          ))}
+          <li>
+            <button onClick={() => choose(null)} className={`w-full px-3 py-2 text-left hover:bg-secondary ${currentUser ? 'text-on-surface-secondary' : 'text-primary font-semibold'}`}>
+              No profile (roles off)
+            </button>
+          </li>
+          <li className="border-t border-slate-700 mt-1 pt-1">
+            <button onClick={() => { setIsOpen(false); onManageProfiles(); }} className="w-full px-3 py-2 text-left text-on-surface-secondary hover:bg-secondary hover:text-on-surface">
+              Manage profiles...
+            </button>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -1,31 +1,60 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Chart } from "react-google-charts";
-import { Project, Task, TaskStatus, TaskPriority, Comment, ActivityLog } from '../types';
+import { Project, Task, TaskStatus, TaskPriority, Comment, ActivityLog, TaskPlacement, TaskSnapshot, ProjectRole, UserProfile } from '../types';
 import TaskItem from './TaskItem';
-import { EditIcon, TrashIcon, PlusIcon, ChevronDownIcon, TagIcon, ArrowUpIcon, ArrowDownIcon, ArchiveBoxIcon, UserGroupIcon, LinkIcon, ChatBubbleLeftRightIcon, TrophyIcon, ClipboardDocumentListIcon, CheckboxIcon, ChartBarIcon } from './IconComponents';
+import TaskBoard from './TaskBoard';
+import BurnChart from './BurnChart';
+import TimelineFallback from './TimelineFallback';
+import ActivityFeed from './ActivityFeed';
+import CommentThread from './CommentThread';
+import Markdown from './Markdown';
+import { markdownToText } from '../utils/markdown';
+import { getAssignees } from '../utils/assignees';
+import { roleCan } from '../utils/permissions';
+import HighlightedText from './HighlightedText';
+import { formatDuration, TimeTotal } from '../utils/timeTracking';
+import { getEstimateRollups, EstimateRollup } from '../utils/estimates';
+import { EditIcon, TrashIcon, PlusIcon, ChevronDownIcon, TagIcon, ArrowUpIcon, ArrowDownIcon, ArchiveBoxIcon, UserGroupIcon, LinkIcon, ChatBubbleLeftRightIcon, TrophyIcon, ClipboardDocumentListIcon, CheckboxIcon, ChartBarIcon, ViewColumnsIcon, DownloadIcon, ClockIcon, ArrowTrendingDownIcon } from './IconComponents';
 
 interface ProjectCardProps {
+  role: ProjectRole; // The current user's role, which decides the actions on offer
   project: Project;
   tasks: Task[];
   comments: Comment[];
   activityLog: ActivityLog[];
+  allTasks: Task[];
+  allProjects: Project[];
+  profiles: UserProfile[];
+  taskHistory: TaskSnapshot[];
+  highlightTerms: string[];
+  matchingTaskIds: Set<string> | null; // Tasks matching the search query; null when there is no query
+  timeTotals: Map<string, TimeTotal>;
+  projectTime: number; // Milliseconds tracked on all of the project's tasks
+  activeTimerTaskId: string | null;
   isSelected: boolean;
   onToggleSelect: (projectId: string) => void;
   onEditProject: (project: Project) => void;
   onDeleteProject: (project: Project) => void;
   onToggleArchive: (projectId: string) => void;
+  onExportProject: (projectId: string) => void;
   onAddTask: (projectId: string) => void;
-  onUpdateTaskStatus: (taskId: string, status: TaskStatus) => void;
+  onUpdateTaskStatus: (taskId: string, status: TaskStatus, placement?: TaskPlacement) => void;
   onDeleteTask: (taskId: string) => void;
   onEditTask: (task: Task) => void;
   onToggleTaskFocus: (taskId: string) => void;
   onAddSubTask: (parentTask: Task) => void;
   onReorderProject: (draggedId: string, targetId: string) => void;
-  onAddComment: (projectId: string, content: string) => void;
+  onMoveTask: (taskId: string, projectId: string, newParentId: string | null, placement?: TaskPlacement) => void;
+  onAddComment: (projectId: string, content: string, taskId: string | null) => void;
+  commentCounts: Map<string, number>;
+  onOpenTaskComments: (task: Task) => void;
+  onToggleChecklistItem: (taskId: string, line: number) => void;
+  onStartTimer: (taskId: string) => void;
+  onStopTimer: () => void;
 }
 
-type Tab = 'Tasks' | 'Timeline' | 'Goals' | 'Comments' | 'Links' | 'Members' | 'Activity';
+type Tab = 'Tasks' | 'Board' | 'Timeline' | 'Burndown' | 'Goals' | 'Comments' | 'Links' | 'Members' | 'Activity';
 
 const priorityIcons: Record<TaskPriority, React.ReactNode> = {
     [TaskPriority.High]: <ArrowUpIcon className="w-4 h-4 text-red-400" />,
@@ -33,6 +62,9 @@ const priorityIcons: Record<TaskPriority, React.ReactNode> = {
     [TaskPriority.Low]: <ArrowDownIcon className="w-4 h-4 text-green-400" />,
 }
 
+// The Timeline tooltip is an HTML string, so user text must not be taken for markup
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
 const TabButton: React.FC<{icon: React.ReactNode, label: string, isActive: boolean, onClick: () => void}> = ({ icon, label, isActive, onClick }) => (
     <button onClick={onClick} className={`flex items-center gap-2 px-3 py-2 text-sm font-semibold rounded-md transition-colors ${isActive ? 'bg-primary/20 text-primary' : 'text-on-surface-secondary hover:bg-secondary hover:text-on-surface'}`}>
         {icon}
@@ -48,24 +80,34 @@ const GanttLegend: React.FC = () => (
             </div>
             <span>Task Progress</span>
         </div>
+        <div className="flex items-center gap-2">
+            <div className="w-10 h-[2px] bg-sky-500"></div>
+            <span>Dependency</span>
+        </div>
+        <div className="flex items-center gap-2">
+            <div className="w-10 h-[2px] bg-rose-500"></div>
+            <span>Critical Path</span>
+        </div>
     </div>
 );
 
 
 const ProjectCard: React.FC<ProjectCardProps> = (props) => {
   const { 
-    project, tasks, comments, activityLog, isSelected, onToggleSelect, onEditProject, onDeleteProject, onToggleArchive, onAddTask,
-    onUpdateTaskStatus, onDeleteTask, onEditTask, onToggleTaskFocus, onAddSubTask, onReorderProject, onAddComment
+    project, role, tasks, comments, activityLog, allTasks, allProjects, profiles, taskHistory, highlightTerms, matchingTaskIds, timeTotals, projectTime, activeTimerTaskId, isSelected, onToggleSelect, onEditProject, onDeleteProject, onToggleArchive, onExportProject, onAddTask,
+    onUpdateTaskStatus, onDeleteTask, onEditTask, onToggleTaskFocus, onAddSubTask, onReorderProject, onMoveTask, onAddComment, onStartTimer, onStopTimer, commentCounts, onOpenTaskComments, onToggleChecklistItem
   } = props;
 
   const [isExpanded, setIsExpanded] = useState(true);
+  const canEditTasks = roleCan(role, 'editTasks');
   const [isDragging, setIsDragging] = useState(false);
   const [activeTab, setActiveTab] = useState<Tab>('Tasks');
-  const [newComment, setNewComment] = useState('');
+  const [isRootDropTarget, setIsRootDropTarget] = useState(false);
 
   const topLevelTasks = tasks.filter(task => !task.parentId).sort((a,b) => a.order - b.order);
   const doneTasksCount = tasks.filter(t => t.status === TaskStatus.Done).length;
   const progress = tasks.length > 0 ? Math.round((doneTasksCount / tasks.length) * 100) : 0;
+  const estimateRollups: Map<string, EstimateRollup> = useMemo(() => getEstimateRollups(tasks), [tasks]);
   const priorityOrder: Record<TaskPriority, number> = { [TaskPriority.High]: 3, [TaskPriority.Medium]: 2, [TaskPriority.Low]: 1 };
   
   const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
@@ -82,25 +124,37 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
   };
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => e.preventDefault();
 
-  const handleCommentSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newComment.trim()) {
-        onAddComment(project.id, newComment.trim());
-        setNewComment('');
-    }
-  }
+  // Dropping a task on the list background (outside any task row) promotes it to the top level
+  const handleTaskListDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('taskid')) return;
+    e.preventDefault(); e.stopPropagation();
+    setIsRootDropTarget(true);
+  };
+  const handleTaskListDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('taskid')) return;
+    e.preventDefault(); e.stopPropagation();
+    setIsRootDropTarget(false);
+    const draggedId = e.dataTransfer.getData('taskId');
+    if (draggedId) onMoveTask(draggedId, project.id, null);
+  };
 
   const generateTooltipHtml = (task: Task): string => {
     const startDate = task.startDate ? new Date(task.startDate).toLocaleDateString() : 'N/A';
     const dueDate = task.dueDate ? new Date(task.dueDate).toLocaleDateString() : 'N/A';
+    const prerequisites = tasks.filter(t => (task.dependsOn || []).includes(t.id)).map(t => escapeHtml(t.title)).join(', ');
+    const assignees = getAssignees(task, project.members)
+        .map(m => `<span style="display: inline-flex; align-items: center; gap: 4px; margin-right: 8px;"><img src="${escapeHtml(m.avatarUrl)}" alt="" style="width: 18px; height: 18px; border-radius: 9999px;" />${escapeHtml(m.name)}</span>`)
+        .join('');
 
     return `
         <div style="padding: 12px; background-color: #0f172a; color: #e2e8f0; border-radius: 8px; border: 1px solid #334155; font-family: sans-serif; font-size: 14px; min-width: 280px; box-shadow: 0 4px 6px -1px rgba(0,0,0,0.1), 0 2px 4px -2px rgba(0,0,0,0.1);">
-            <div style="font-weight: bold; font-size: 16px; margin-bottom: 8px; color: ${project.color}; border-bottom: 1px solid #334155; padding-bottom: 8px;">${task.title}</div>
+            <div style="font-weight: bold; font-size: 16px; margin-bottom: 8px; color: ${project.color}; border-bottom: 1px solid #334155; padding-bottom: 8px;">${escapeHtml(task.title)}</div>
             <div style="display: grid; grid-template-columns: 80px 1fr; gap: 4px;">
                 <strong style="color: #94a3b8;">Status:</strong> <span>${task.status}</span>
                 <strong style="color: #94a3b8;">Priority:</strong> <span>${task.priority}</span>
                 <strong style="color: #94a3b8;">Dates:</strong> <span>${startDate} - ${dueDate}</span>
+                ${prerequisites ? `<strong style="color: #94a3b8;">Depends on:</strong> <span>${prerequisites}</span>` : ''}
+                ${assignees ? `<strong style="color: #94a3b8;">Assignees:</strong> <span>${assignees}</span>` : ''}
             </div>
         </div>
     `;
@@ -111,16 +165,19 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
           case 'Tasks':
             return (
               <div 
-                className={`space-y-2 rounded-lg p-2 transition-colors`}
+                onDragOver={handleTaskListDragOver} onDragLeave={() => setIsRootDropTarget(false)} onDrop={handleTaskListDrop}
+                className={`space-y-2 rounded-lg p-2 transition-colors ${isRootDropTarget ? 'bg-primary/10 ring-1 ring-primary/40' : ''}`}
               >
                 {tasks.length > 0 ? (
                   topLevelTasks
                     .sort((a,b) => (b.isFocused ? 1 : 0) - (a.isFocused ? 1 : 0) || priorityOrder[b.priority] - priorityOrder[a.priority] || a.order - b.order) 
                     .map(task => (
                       <TaskItem 
-                        key={task.id} task={task} allProjectTasks={tasks} level={0}
+                        key={task.id} task={task} allProjectTasks={tasks} members={project.members} level={0}
                         onUpdateStatus={onUpdateTaskStatus} onDelete={onDeleteTask} onEdit={onEditTask}
-                        onToggleFocus={onToggleTaskFocus} onAddSubTask={onAddSubTask}
+                        onToggleFocus={onToggleTaskFocus} onAddSubTask={onAddSubTask} onMove={onMoveTask}
+                        highlightTerms={highlightTerms} matchingTaskIds={matchingTaskIds}
+                        timeTotals={timeTotals} estimateRollups={estimateRollups} estimateUnit={project.estimateUnit} activeTimerTaskId={activeTimerTaskId} onStartTimer={onStartTimer} onStopTimer={onStopTimer} commentCounts={commentCounts} onOpenComments={onOpenTaskComments} onToggleChecklistItem={onToggleChecklistItem} canEdit={canEditTasks}
                       />
                     ))
                 ) : (
@@ -130,10 +187,15 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
                 )}
               </div>
             );
+          case 'Board':
+            return <TaskBoard tasks={tasks} onUpdateStatus={onUpdateTaskStatus} onEdit={onEditTask} canEdit={canEditTasks} highlightTerms={highlightTerms} matchingTaskIds={matchingTaskIds} />;
           case 'Timeline':
-              const chartTasks = tasks
-                  .filter(task => task.startDate && task.dueDate)
+              const scheduledTasks = tasks.filter(task => task.startDate && task.dueDate);
+              const scheduledIds = new Set(scheduledTasks.map(task => task.id));
+              const chartTasks = scheduledTasks
                   .map(task => {
+                      // Arrows can only be drawn between tasks that are on the chart
+                      const dependencies = (task.dependsOn || []).filter(id => scheduledIds.has(id));
                       let percentComplete = 0;
                       if (task.status === TaskStatus.InProgress) percentComplete = 50;
                       else if (task.status === TaskStatus.Done) percentComplete = 100;
@@ -146,6 +208,7 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
                           new Date(task.dueDate!),
                           null, // Duration is auto-calculated
                           percentComplete,
+                          dependencies.length > 0 ? dependencies.join(',') : null,
                           generateTooltipHtml(task)
                       ];
                   });
@@ -162,10 +225,12 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
                   { type: 'date', label: 'End Date' },
                   { type: 'number', label: 'Duration' },
                   { type: 'number', label: 'Percent Complete' },
+                  { type: 'string', label: 'Dependencies' },
                   { type: 'string', role: 'tooltip', p: { html: true } }
               ];
               
               const data = [dataColumns, ...chartTasks];
+              const fallback = <TimelineFallback tasks={scheduledTasks} color={project.color} />;
               
               const options = {
                   height: chartTasks.length * 44 + 50,
@@ -173,7 +238,11 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
                   gantt: {
                       trackHeight: 44,
                       barHeight: 24,
-                      criticalPathEnabled: false,
+                      criticalPathEnabled: true,
+                      criticalPathStyle: {
+                          stroke: '#f43f5e', // rose-500
+                          strokeWidth: 2,
+                      },
                       arrow: {
                           angle: 100,
                           width: 2,
@@ -203,11 +272,14 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
                           height="100%"
                           data={data}
                           options={options}
-                          loader={<div className="text-on-surface-secondary">Loading Chart...</div>}
+                          loader={navigator.onLine ? <div className="text-on-surface-secondary">Loading Chart...</div> : fallback}
+                          errorElement={fallback}
                       />
                       <GanttLegend />
                   </div>
               );
+          case 'Burndown':
+              return <BurnChart project={project} history={taskHistory} />;
           case 'Goals':
              return project.goals.length > 0 ? (
                 <div className="space-y-3">
@@ -226,28 +298,7 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
                 </div>
             ) : <div className="text-center py-6 text-on-surface-secondary">No goals defined for this project.</div>;
           case 'Comments':
-            return (
-                <div className="space-y-4">
-                    <div className="max-h-64 overflow-y-auto space-y-4 pr-2">
-                        {comments.length > 0 ? comments.map(comment => (
-                            <div key={comment.id} className="flex items-start gap-3">
-                                <img src={comment.authorAvatarUrl} alt={comment.authorName} className="w-8 h-8 rounded-full bg-secondary"/>
-                                <div>
-                                    <div className="flex items-baseline gap-2">
-                                        <span className="font-semibold text-sm text-on-surface">{comment.authorName}</span>
-                                        <span className="text-xs text-on-surface-secondary">{new Date(comment.createdAt).toLocaleString()}</span>
-                                    </div>
-                                    <p className="text-sm text-on-surface-secondary">{comment.content}</p>
-                                </div>
-                            </div>
-                        )) : <div className="text-center py-6 text-on-surface-secondary">No comments yet.</div>}
-                    </div>
-                     <form onSubmit={handleCommentSubmit} className="flex gap-2">
-                        <input type="text" value={newComment} onChange={e => setNewComment(e.target.value)} placeholder="Add a comment..." className="flex-1 bg-secondary border border-slate-600 rounded-md px-3 py-2 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
-                        <button type="submit" className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-3 rounded-md transition-colors">Send</button>
-                    </form>
-                </div>
-            );
+            return <CommentThread comments={comments.filter(c => !c.taskId)} members={project.members} profiles={profiles} onAddComment={content => onAddComment(project.id, content, null)} emptyMessage="No project comments yet." canComment={roleCan(role, 'comment')} />;
            case 'Links':
             return project.links.length > 0 ? (
                 <ul className="space-y-2 list-disc list-inside">
@@ -273,16 +324,7 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
                 </div>
             ) : <div className="text-center py-6 text-on-surface-secondary">No members assigned to this project.</div>;
         case 'Activity':
-            return (
-                 <div className="max-h-80 overflow-y-auto space-y-3 pr-2">
-                    {activityLog.length > 0 ? activityLog.map(log => (
-                        <div key={log.id} className="text-sm">
-                            <p className="text-on-surface">{log.action}</p>
-                            <p className="text-xs text-on-surface-secondary">{new Date(log.timestamp).toLocaleString()} by {log.author}</p>
-                        </div>
-                    )) : <div className="text-center py-6 text-on-surface-secondary">No activity recorded for this project yet.</div>}
-                </div>
-            );
+            return <ActivityFeed projectId={project.id} activityLog={activityLog} allTasks={allTasks} allProjects={allProjects} profiles={profiles} />;
       }
   }
 
@@ -301,24 +343,29 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
             <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2">
                     <span title={project.priority}>{priorityIcons[project.priority]}</span>
-                    <h3 className="text-xl font-bold text-on-surface truncate">{project.name}</h3>
+                    <h3 className="text-xl font-bold text-on-surface truncate"><HighlightedText text={project.name} terms={highlightTerms} /></h3>
+                    {role !== ProjectRole.Owner && <span className="text-xs font-semibold px-1.5 py-0.5 rounded bg-slate-700 text-on-surface-secondary flex-shrink-0" title={role === ProjectRole.Viewer ? 'You can view this project but not change it' : 'You can change tasks and comment, but not archive, delete or change members'}>{role}</span>}
+                    {projectTime > 0 && <span className="flex items-center gap-1 text-xs text-on-surface-secondary flex-shrink-0" title="Time tracked on this project"><ClockIcon className="w-3 h-3" />{formatDuration(projectTime)}</span>}
                 </div>
-                <p className="text-sm text-on-surface-secondary mt-1 truncate">{project.description}</p>
+                {!isExpanded && <p className="text-sm text-on-surface-secondary mt-1 truncate"><HighlightedText text={markdownToText(project.description)} terms={highlightTerms} /></p>}
             </div>
         </div>
         <div className="flex items-center gap-1 pl-4">
-          <button onClick={(e) => { e.stopPropagation(); onToggleArchive(project.id); }} className="p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" title={project.isArchived ? 'Restore' : 'Archive'}>
+          {roleCan(role, 'archiveProject') && <button onClick={(e) => { e.stopPropagation(); onToggleArchive(project.id); }} className="p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" title={project.isArchived ? 'Restore' : 'Archive'}>
             <ArchiveBoxIcon className="w-5 h-5"/>
+          </button>}
+          <button onClick={(e) => { e.stopPropagation(); onExportProject(project.id); }} className="p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" title="Export Project">
+            <DownloadIcon className="w-5 h-5"/>
           </button>
-           <button onClick={(e) => { e.stopPropagation(); onEditProject(project); }} className="p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" title="Edit">
+          {roleCan(role, 'editProject') && <button onClick={(e) => { e.stopPropagation(); onEditProject(project); }} className="p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" title="Edit">
             <EditIcon className="w-5 h-5"/>
-          </button>
-          <button onClick={(e) => { e.stopPropagation(); onDeleteProject(project); }} className="p-2 text-on-surface-secondary hover:text-red-500 rounded-full transition-colors" title="Delete">
+          </button>}
+          {roleCan(role, 'deleteProject') && <button onClick={(e) => { e.stopPropagation(); onDeleteProject(project); }} className="p-2 text-on-surface-secondary hover:text-red-500 rounded-full transition-colors" title="Delete">
             <TrashIcon className="w-5 h-5"/>
-          </button>
-          <button onClick={(e) => { e.stopPropagation(); onAddTask(project.id); }} className="bg-primary hover:bg-primary-focus text-white rounded-full p-2 ml-2 transition-colors" title="Add Task">
+          </button>}
+          {canEditTasks && <button onClick={(e) => { e.stopPropagation(); onAddTask(project.id); }} className="bg-primary hover:bg-primary-focus text-white rounded-full p-2 ml-2 transition-colors" title="Add Task">
             <PlusIcon className="w-5 h-5"/>
-          </button>
+          </button>}
           <ChevronDownIcon className={`w-6 h-6 text-on-surface-secondary transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
         </div>
       </div>
@@ -328,9 +375,12 @@ const ProjectCard: React.FC<ProjectCardProps> = (props) => {
            <div className="w-full bg-secondary rounded-full h-1 mb-4">
                 <div className="h-1 rounded-full" style={{width: `${progress}%`, transition: 'width 0.5s ease-in-out', backgroundColor: 'var(--project-color)'}}></div>
             </div>
+            {project.description.trim() && <Markdown source={project.description} className="mb-4 px-2" />}
             <div className="flex flex-wrap gap-x-1 gap-y-2 border-b border-slate-700 pb-3 mb-4">
                 <TabButton icon={<ClipboardDocumentListIcon className="w-5 h-5"/>} label="Tasks" isActive={activeTab==='Tasks'} onClick={()=>setActiveTab('Tasks')} />
+                <TabButton icon={<ViewColumnsIcon className="w-5 h-5"/>} label="Board" isActive={activeTab==='Board'} onClick={()=>setActiveTab('Board')} />
                 <TabButton icon={<ChartBarIcon className="w-5 h-5" />} label="Timeline" isActive={activeTab==='Timeline'} onClick={()=>setActiveTab('Timeline')} />
+                <TabButton icon={<ArrowTrendingDownIcon className="w-5 h-5" />} label="Burndown" isActive={activeTab==='Burndown'} onClick={()=>setActiveTab('Burndown')} />
                 <TabButton icon={<TrophyIcon className="w-5 h-5"/>} label="Goals" isActive={activeTab==='Goals'} onClick={()=>setActiveTab('Goals')} />
                 <TabButton icon={<ChatBubbleLeftRightIcon className="w-5 h-5"/>} label="Comments" isActive={activeTab==='Comments'} onClick={()=>setActiveTab('Comments')} />
                 <TabButton icon={<LinkIcon className="w-5 h-5"/>} label="Links" isActive={activeTab==='Links'} onClick={()=>setActiveTab('Links')} />
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { Project, TaskPriority, ProjectRole, Member, Goal, Link } from '../types';
+import { Project, TaskPriority, ProjectRole, Member, Goal, Link, EstimateUnit, UserProfile } from '../types';
+import { ESTIMATE_UNIT_LABELS } from '../utils/estimates';
+import { applyProfileToMember } from '../utils/profiles';
 
 interface ProjectFormProps {
   onSave: (projectData: {
@@ -11,19 +13,28 @@ interface ProjectFormProps {
     members: Member[];
     goals: Goal[];
     links: Link[];
+    estimateUnit: EstimateUnit;
+    startDate: string | null;
+    targetDate: string | null;
   }) => void;
   projectToEdit?: Project | null;
+  profiles: UserProfile[]; // Members can be linked to these
+  canManageMembers: boolean; // Only Owners change who is on a project
 }
 
-const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit }) => {
+const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit, profiles, canManageMembers }) => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [tags, setTags] = useState('');
   const [priority, setPriority] = useState<TaskPriority>(TaskPriority.Medium);
   const [color, setColor] = useState('#334155'); // default slate-700
   const [members, setMembers] = useState(''); // "name (role), name2 (role)"
+  const [profileLinks, setProfileLinks] = useState<Record<string, string>>({}); // Lowercased member name -> profile ID, or '' for none
   const [goals, setGoals] = useState(''); // "title (current/target unit), ..."
   const [links, setLinks] = useState(''); // "title (url), ..."
+  const [estimateUnit, setEstimateUnit] = useState<EstimateUnit>('hours');
+  const [startDate, setStartDate] = useState('');
+  const [targetDate, setTargetDate] = useState('');
 
   useEffect(() => {
     if (projectToEdit) {
@@ -33,8 +44,12 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit }) => {
       setPriority(projectToEdit.priority || TaskPriority.Medium);
       setColor(projectToEdit.color || '#334155');
       setMembers(projectToEdit.members.map(m => `${m.name} (${m.role})`).join(', '));
+      setProfileLinks(Object.fromEntries(projectToEdit.members.map(m => [m.name.toLowerCase(), m.profileId ?? ''])));
       setGoals(projectToEdit.goals.map(g => `${g.title} (${g.currentValue}/${g.targetValue} ${g.unit})`).join(', '));
       setLinks(projectToEdit.links.map(l => `${l.title} (${l.url})`).join(', '));
+      setEstimateUnit(projectToEdit.estimateUnit || 'hours');
+      setStartDate(projectToEdit.startDate ? projectToEdit.startDate.split('T')[0] : '');
+      setTargetDate(projectToEdit.targetDate ? projectToEdit.targetDate.split('T')[0] : '');
     } else {
       setName('');
       setDescription('');
@@ -42,21 +57,28 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit }) => {
       setPriority(TaskPriority.Medium);
       setColor('#334155');
       setMembers('');
+      setProfileLinks({});
       setGoals('');
       setLinks('');
+      setEstimateUnit('hours');
+      setStartDate('');
+      setTargetDate('');
     }
   }, [projectToEdit]);
 
   const parseMembers = (text: string): Member[] => {
     return text.split(',')
-      .map((part, index) => {
+      .map((part, index): Member | null => {
         const match = part.trim().match(/^(.*)\s\((Owner|Collaborator|Viewer)\)$/i);
         if (match) {
+          // Existing members keep their ID so assignments and mentions stay attached
+          const existing = projectToEdit?.members.find(m => m.name.toLowerCase() === match[1].trim().toLowerCase());
           return {
-            id: `mem_${Date.now()}_${index}`,
+            id: existing ? existing.id : `mem_${Date.now()}_${index}`,
             name: match[1].trim(),
             role: match[2] as ProjectRole,
-            avatarUrl: `https://i.pravatar.cc/40?u=${match[1].trim()}`
+            avatarUrl: existing ? existing.avatarUrl : `https://i.pravatar.cc/40?u=${match[1].trim()}`,
+            profileId: null,
           };
         }
         return null;
@@ -64,6 +86,21 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit }) => {
       .filter((m): m is Member => m !== null);
   };
 
+  // A member's profile: the one picked for it, else one with the same name
+  const getLinkedProfile = (member: Member): UserProfile | undefined => {
+    const key = member.name.toLowerCase();
+    const profileId = key in profileLinks ? profileLinks[key] : profiles.find(p => p.name.toLowerCase() === key)?.id;
+    return profileId ? profiles.find(p => p.id === profileId) : undefined;
+  };
+
+  // Linked members take the profile's name and avatar, so the person looks the same in every project
+  const linkMembers = (parsed: Member[]): Member[] => parsed.map(m => {
+    const profile = getLinkedProfile(m);
+    return profile ? applyProfileToMember(m, profile) : m;
+  });
+
+  const parsedMembers: Member[] = parseMembers(members);
+
   const parseGoals = (text: string): Goal[] => {
      return text.split(',').map((part, index) => {
         const match = part.trim().match(/^(.*?)\s\((\d+)\/(\d+)\s(.*)\)$/);
@@ -106,9 +143,12 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit }) => {
       tags: tags.split(',').map(t => t.trim()).filter(Boolean),
       priority,
       color,
-      members: parseMembers(members),
+      members: canManageMembers || !projectToEdit ? linkMembers(parsedMembers) : projectToEdit.members,
       goals: parseGoals(goals),
-      links: parseLinks(links)
+      links: parseLinks(links),
+      estimateUnit,
+      startDate: startDate ? new Date(startDate).toISOString() : null,
+      targetDate: targetDate ? new Date(targetDate).toISOString() : null,
     });
   };
   
@@ -131,6 +171,23 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit }) => {
       <div>
         <label htmlFor="projectDescription" className="block text-sm font-medium text-on-surface-secondary mb-1">Description</label>
         <textarea id="projectDescription" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="A short description of the project" rows={2} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+        <p className="text-xs text-on-surface-secondary mt-1">Supports Markdown, shown when the project is expanded.</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="projectEstimateUnit" className="block text-sm font-medium text-on-surface-secondary mb-1">Estimates in</label>
+          <select id="projectEstimateUnit" value={estimateUnit} onChange={(e) => setEstimateUnit(e.target.value as EstimateUnit)} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none">
+            {(Object.keys(ESTIMATE_UNIT_LABELS) as EstimateUnit[]).map((u) => (<option key={u} value={u}>{ESTIMATE_UNIT_LABELS[u]}</option>))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="projectStartDate" className="block text-sm font-medium text-on-surface-secondary mb-1">Start Date</label>
+          <input id="projectStartDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+        </div>
+        <div>
+          <label htmlFor="projectTargetDate" className="block text-sm font-medium text-on-surface-secondary mb-1">Target Date</label>
+          <input id="projectTargetDate" type="date" value={targetDate} min={startDate || undefined} onChange={(e) => setTargetDate(e.target.value)} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+        </div>
       </div>
        <div>
          <label htmlFor="projectColor" className="block text-sm font-medium text-on-surface-secondary mb-1">Project Color</label>
@@ -147,8 +204,26 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ onSave, projectToEdit }) => {
       </div>
       <div>
         <label htmlFor="projectMembers" className="block text-sm font-medium text-on-surface-secondary mb-1">Members</label>
-        <textarea id="projectMembers" value={members} onChange={(e) => setMembers(e.target.value)} placeholder="Alice (Owner), Bob (Collaborator)" rows={2} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
-        <p className="text-xs text-on-surface-secondary mt-1">Format: Name (Role), Name (Role). Roles: Owner, Collaborator, Viewer.</p>
+        <textarea id="projectMembers" value={members} onChange={(e) => setMembers(e.target.value)} placeholder="Alice (Owner), Bob (Collaborator)" rows={2} readOnly={!canManageMembers} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none read-only:opacity-60"/>
+        <p className="text-xs text-on-surface-secondary mt-1">{canManageMembers ? 'Format: Name (Role), Name (Role). Roles: Owner, Collaborator, Viewer.' : 'Only Owners can change the members of this project.'}</p>
+        {canManageMembers && profiles.length > 0 && parsedMembers.length > 0 && (
+          <div className="mt-2 space-y-1">
+            <p className="text-xs font-medium text-on-surface-secondary">Linked profiles</p>
+            {parsedMembers.map((m, index) => (
+              <label key={index} className="flex items-center justify-between gap-2 text-sm text-on-surface">
+                <span className="truncate">{m.name}</span>
+                <select
+                  value={getLinkedProfile(m)?.id ?? ''}
+                  onChange={e => setProfileLinks(current => ({ ...current, [m.name.toLowerCase()]: e.target.value }))}
+                  className="bg-secondary border border-slate-600 rounded-md px-2 py-1 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+                >
+                  <option value="">Not linked</option>
+                  {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
       </div>
        <div>
         <label htmlFor="projectGoals" className="block text-sm font-medium text-on-surface-secondary mb-1">Goals</label>
@@ -1,13 +1,21 @@
 
 import React from 'react';
 
-export type SaveStatus = 'saved' | 'unsaved' | 'saving';
+// 'outdated': another tab saved newer data, which is being merged or has edits that clash with this tab's.
+// 'saveError': writing to the device's storage failed, so the latest changes are not stored.
+// 'synced', 'pending' and 'syncError' replace 'saved' while sync is on.
+export type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'saveError' | 'outdated' | 'synced' | 'pending' | 'syncError';
+
+// Whether everything is saved on this device, however far it has synced
+export const isSaved = (status: SaveStatus) => status === 'saved' || status === 'synced' || status === 'pending' || status === 'syncError';
 
 interface SaveStatusIndicatorProps {
   status: SaveStatus;
+  title?: string;
+  onClick?: () => void; // Opens the clashing edits, or the sync settings
 }
 
-const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({ status }) => {
+const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({ status, title, onClick }) => {
   const getStatusContent = () => {
     switch (status) {
       case 'saved':
@@ -37,6 +45,53 @@ const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({ status }) =>
           text: 'Saving...',
           color: 'text-blue-400',
         };
+      case 'saveError':
+        return {
+          icon: (
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126ZM12 15.75h.007v.008H12v-.008Z" />
+            </svg>
+          ),
+          text: 'Changes not saved',
+          color: 'text-red-400',
+        };
+      case 'outdated':
+        return {
+          icon: (
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9 3.75h.008v.008H12v-.008Z" />
+            </svg>
+          ),
+          text: 'Another tab has newer data',
+          color: 'text-amber-400',
+        };
+      case 'synced':
+        return {
+          icon: (
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15a4.5 4.5 0 0 0 4.5 4.5H18a3.75 3.75 0 0 0 1.332-7.257 3 3 0 0 0-3.758-3.848 5.25 5.25 0 0 0-10.233 2.33A4.502 4.502 0 0 0 2.25 15Z" />
+              <path strokeLinecap="round" strokeLinejoin="round" d="m9 14.25 2.25 2.25L15 12" />
+            </svg>
+          ),
+          text: 'Synced',
+          color: 'text-green-400',
+        };
+      case 'pending':
+        return {
+          icon: <div className="w-2.5 h-2.5 bg-blue-400 rounded-full animate-pulse"></div>,
+          text: 'Sync pending',
+          color: 'text-blue-400',
+        };
+      case 'syncError':
+        return {
+          icon: (
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126ZM12 15.75h.007v.008H12v-.008Z" />
+            </svg>
+          ),
+          text: 'Sync failed',
+          color: 'text-red-400',
+        };
       default:
         return null;
     }
@@ -46,8 +101,19 @@ const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({ status }) =>
 
   if (!content) return null;
 
+  const className = `flex items-center gap-2 px-3 py-2 text-xs font-semibold rounded-lg bg-secondary transition-colors ${content.color}`;
+
+  if (onClick) {
+    return (
+      <button onClick={onClick} className={`${className} hover:bg-slate-600`} title={title}>
+        {content.icon}
+        <span className="hidden xl:inline">{content.text}</span>
+      </button>
+    );
+  }
+
   return (
-    <div className={`flex items-center gap-2 px-3 py-2 text-xs font-semibold rounded-lg bg-secondary transition-colors ${content.color}`}>
+    <div className={className} title={title}>
       {content.icon}
       <span className="hidden xl:inline">{content.text}</span>
     </div>
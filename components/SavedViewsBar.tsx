@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { DashboardFilters, SavedView } from '../types';
+import { areFiltersEqual } from '../hooks/useDashboardFilters';
+import { ASSIGNED_TO_ME } from '../utils/assignees';
+import { EditIcon, TrashIcon, PlusIcon, FloppyDiskIcon } from './IconComponents';
+
+interface SavedViewsBarProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  filters: DashboardFilters;
+  onSelect: (view: SavedView | null) => void;
+  onSelectAssignedToMe: () => void;
+  onSave: (name: string) => void;
+  onUpdate: (viewId: string) => void;
+  onRename: (viewId: string, name: string) => void;
+  onDelete: (viewId: string) => void;
+}
+
+const SavedViewsBar: React.FC<SavedViewsBarProps> = ({ views, activeViewId, filters, onSelect, onSelectAssignedToMe, onSave, onUpdate, onRename, onDelete }) => {
+  // The view being renamed, or 'new' while naming a new view
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const activeView: SavedView | undefined = views.find((v: SavedView) => v.id === activeViewId);
+  const isModified = !!activeView && !areFiltersEqual(activeView.filters, filters);
+
+  const startEditing = (id: string, initialName: string) => {
+    setEditing(id);
+    setName(initialName);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (trimmed) {
+      if (editing === 'new') onSave(trimmed);
+      else if (editing) onRename(editing, trimmed);
+    }
+    setEditing(null);
+  };
+
+  const chipClassName = (isActive: boolean) => `px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${isActive ? 'bg-primary text-white' : 'text-on-surface-secondary hover:bg-secondary'}`;
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2 bg-surface p-1 rounded-lg">
+      <button onClick={() => onSelect(null)} className={chipClassName(!activeView && filters.assignee !== ASSIGNED_TO_ME)}>All Projects</button>
+      <button onClick={onSelectAssignedToMe} className={chipClassName(!activeView && filters.assignee === ASSIGNED_TO_ME)}>Assigned to Me</button>
+      {views.map(view => editing === view.id ? null : (
+        <button key={view.id} onClick={() => onSelect(view)} onDoubleClick={() => startEditing(view.id, view.name)} className={chipClassName(view.id === activeViewId)} title="Double-click to rename">
+          {view.name}{view.id === activeViewId && isModified ? ' *' : ''}
+        </button>
+      ))}
+
+      {editing ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-1">
+          <input
+            autoFocus
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onBlur={handleSubmit}
+            onKeyDown={e => { if (e.key === 'Escape') setEditing(null); }}
+            placeholder="View name"
+            className="bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+          />
+        </form>
+      ) : (
+        <button onClick={() => startEditing('new', '')} className="flex items-center gap-1 px-2 py-1.5 text-sm font-semibold text-on-surface-secondary hover:text-primary rounded-md transition-colors" title="Save the current filters as a view">
+          <PlusIcon className="w-4 h-4" /> Save View
+        </button>
+      )}
+
+      {activeView && !editing && (
+        <div className="flex items-center gap-1 ml-auto">
+          {isModified && (
+            <button onClick={() => onUpdate(activeView.id)} className="p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" title={`Save the current filters to "${activeView.name}"`}>
+              <FloppyDiskIcon className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={() => startEditing(activeView.id, activeView.name)} className="p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" title="Rename view">
+            <EditIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => onDelete(activeView.id)} className="p-2 text-on-surface-secondary hover:text-red-500 rounded-full transition-colors" title="Delete view">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsBar;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { SyncSettings as SyncSettingsData } from '../storage/syncProtocol';
+import { SyncConflict } from '../storage/syncEngine';
+import { getEntities, describeEntity } from '../storage/syncEntities';
+import { SyncStatus } from '../hooks/useSync';
+
+interface SyncSettingsProps {
+  settings: SyncSettingsData;
+  onSaveSettings: (settings: SyncSettingsData) => void;
+  status: SyncStatus;
+  error: string | null;
+  isLeader: boolean; // False while another tab does the syncing
+  isSyncing: boolean;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  conflicts: SyncConflict[];
+  appState: AppState;
+  onSyncNow: () => void;
+  onResolveConflict: (key: string, choice: 'mine' | 'theirs') => void;
+}
+
+// "dueDate" -> "Due date"
+const formatFieldName = (field: string) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return 'none';
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value)) && /^\d{4}-\d{2}-\d{2}/.test(value)) return new Date(value).toLocaleString();
+  if (typeof value === 'string') return value.length > 120 ? `${value.slice(0, 120)}…` : value;
+  if (Array.isArray(value) && value.every(item => typeof item !== 'object')) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const SyncSettings: React.FC<SyncSettingsProps> = ({ settings, onSaveSettings, status, error, isLeader, isSyncing, pendingCount, lastSyncedAt, conflicts, appState, onSyncNow, onResolveConflict }) => {
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [token, setToken] = useState(settings.token);
+  const isChanged = serverUrl.trim() !== settings.serverUrl || token !== settings.token;
+  const entities = getEntities(appState);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serverUrl.trim()) {
+      alert("Server URL cannot be empty.");
+      return;
+    }
+    onSaveSettings({ enabled: true, serverUrl: serverUrl.trim(), token });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-on-surface-secondary">
+        Sync keeps this workspace in step with your other devices through a server you run yourself. Changes made offline are kept and sent once the server can be reached. The running timer stays on this device.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div>
+          <label htmlFor="syncServerUrl" className="block text-sm font-medium text-on-surface-secondary mb-1">Server URL</label>
+          <input id="syncServerUrl" type="url" value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} placeholder="e.g., http://localhost:8787" className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+        </div>
+        <div>
+          <label htmlFor="syncToken" className="block text-sm font-medium text-on-surface-secondary mb-1">Access token <span className="font-normal">(optional)</span></label>
+          <input id="syncToken" type="password" value={token} onChange={(e) => setToken(e.target.value)} autoComplete="off" className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+        </div>
+        <div className="flex justify-end gap-2">
+          {settings.enabled && (
+            <button type="button" onClick={() => onSaveSettings({ ...settings, enabled: false })} className="bg-secondary hover:bg-slate-600 font-bold py-2 px-4 rounded-md">Turn Off</button>
+          )}
+          <button type="submit" disabled={settings.enabled && !isChanged} className="bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {settings.enabled ? 'Save' : 'Turn On Sync'}
+          </button>
+        </div>
+      </form>
+
+      {settings.enabled && (
+        <div className="border-t border-slate-700 pt-4 space-y-2 text-sm">
+          {isLeader ? (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-on-surface-secondary">
+                {lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+                {pendingCount > 0 && ` · ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`}
+              </span>
+              <button onClick={onSyncNow} disabled={isSyncing} className="font-semibold text-primary hover:underline disabled:opacity-50 disabled:no-underline">
+                {isSyncing ? 'Syncing...' : 'Sync now'}
+              </button>
+            </div>
+          ) : (
+            <p className="text-on-surface-secondary">Another tab of FocusFlow is syncing this workspace.</p>
+          )}
+          {status === 'error' && error && <p className="text-red-400">{error}</p>}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="border-t border-slate-700 pt-4 space-y-3">
+          <p className="text-sm text-on-surface-secondary">
+            These were changed here and on another device since they last synced. Everything else has been merged. Your values are kept, and not sent, until you choose.
+          </p>
+          <ul className="max-h-[40vh] overflow-y-auto space-y-3 pr-2">
+            {conflicts.map(conflict => {
+              const local = entities.get(conflict.key)?.data ?? {};
+              return (
+                <li key={conflict.key} className="bg-secondary/50 rounded-lg p-3">
+                  <p className="font-semibold text-on-surface mb-2 truncate">{describeEntity({ ...conflict, data: local })}</p>
+                  <table className="w-full text-sm table-fixed">
+                    <thead>
+                      <tr className="text-xs text-on-surface-secondary text-left">
+                        <th className="w-1/4 font-medium pb-1">Field</th>
+                        <th className="font-medium pb-1">This device</th>
+                        <th className="font-medium pb-1">Other device</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflict.fields.map(field => (
+                        <tr key={field} className="align-top">
+                          <td className="py-1 pr-2 text-on-surface-secondary">{formatFieldName(field)}</td>
+                          <td className="py-1 pr-2 text-on-surface break-words">{formatValue(local[field])}</td>
+                          <td className="py-1 text-on-surface break-words">{formatValue(conflict.remote[field])}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="flex justify-end gap-2 mt-3">
+                    <button onClick={() => onResolveConflict(conflict.key, 'mine')} className="bg-secondary hover:bg-slate-600 font-bold py-1.5 px-3 rounded-md text-sm">Keep mine</button>
+                    <button onClick={() => onResolveConflict(conflict.key, 'theirs')} className="bg-primary hover:bg-primary-focus text-white font-bold py-1.5 px-3 rounded-md text-sm">Use theirs</button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncSettings;
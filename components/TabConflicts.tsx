@@ -0,0 +1,87 @@
+import React from 'react';
+import { Project, Task } from '../types';
+import { TaskConflict } from '../storage/mergeState';
+import { describeRecurrence } from '../utils/recurrence';
+import { markdownToText } from '../utils/markdown';
+
+interface TabConflictsProps {
+  conflicts: TaskConflict[];
+  allProjects: Project[];
+  allTasks: Task[];
+  onKeepMine: (taskId: string) => void;
+  onUseTheirs: (taskId: string) => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  startDate: 'Start date',
+  dueDate: 'Due date',
+  dependsOn: 'Dependencies',
+  assigneeIds: 'Assignees',
+  projectId: 'Project',
+  parentId: 'Parent task',
+  remaining: 'Remaining effort',
+};
+
+const formatField = (task: Task, field: keyof Task, allProjects: Project[], allTasks: Task[]): string => {
+  const value = task[field];
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) return 'none';
+  switch (field) {
+    case 'startDate':
+    case 'dueDate':
+      return new Date(value as string).toLocaleDateString();
+    case 'description':
+      return markdownToText(task.description);
+    case 'recurrence':
+      return task.recurrence ? describeRecurrence(task.recurrence) : 'none';
+    case 'projectId':
+      return allProjects.find(p => p.id === task.projectId)?.name ?? 'a deleted project';
+    case 'parentId':
+    case 'dependsOn':
+      return ([] as string[]).concat(value as string | string[]).map(id => allTasks.find(t => t.id === id)?.title ?? 'a deleted task').join(', ');
+    case 'assigneeIds': {
+      const members = allProjects.flatMap(p => p.members);
+      return task.assigneeIds.map(id => members.find(m => m.id === id)?.name ?? 'former member').join(', ');
+    }
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+};
+
+const TabConflicts: React.FC<TabConflictsProps> = ({ conflicts, allProjects, allTasks, onKeepMine, onUseTheirs }) => (
+  <div className="space-y-4">
+    <p className="text-sm text-on-surface-secondary">
+      These tasks were changed in this tab and in another one at the same time. Everything else from the other tab has been merged in. This tab's values are kept unless you choose theirs.
+    </p>
+    <ul className="max-h-[60vh] overflow-y-auto space-y-3 pr-2">
+      {conflicts.map(conflict => (
+        <li key={conflict.taskId} className="bg-secondary/50 rounded-lg p-3">
+          <p className="font-semibold text-on-surface mb-2 truncate">{conflict.local.title}</p>
+          <table className="w-full text-sm table-fixed">
+            <thead>
+              <tr className="text-xs text-on-surface-secondary text-left">
+                <th className="w-1/4 font-medium pb-1">Field</th>
+                <th className="font-medium pb-1">This tab</th>
+                <th className="font-medium pb-1">Other tab</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflict.fields.map(field => (
+                <tr key={field} className="align-top">
+                  <td className="py-1 pr-2 text-on-surface-secondary">{FIELD_LABELS[field] ?? field.charAt(0).toUpperCase() + field.slice(1)}</td>
+                  <td className="py-1 pr-2 text-on-surface break-words">{formatField(conflict.local, field, allProjects, allTasks)}</td>
+                  <td className="py-1 text-on-surface break-words">{formatField(conflict.remote, field, allProjects, allTasks)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex justify-end gap-2 mt-3">
+            <button onClick={() => onKeepMine(conflict.taskId)} className="bg-secondary hover:bg-slate-600 font-bold py-1.5 px-3 rounded-md text-sm">Keep mine</button>
+            <button onClick={() => onUseTheirs(conflict.taskId)} className="bg-primary hover:bg-primary-focus text-white font-bold py-1.5 px-3 rounded-md text-sm">Use theirs</button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default TabConflicts;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Task, TaskStatus, TaskPriority, TaskPlacement } from '../types';
+import HighlightedText from './HighlightedText';
+import { StarIcon, ArrowUpIcon, ArrowDownIcon, CalendarDaysIcon, TagIcon } from './IconComponents';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  onUpdateStatus: (taskId: string, status: TaskStatus, placement?: TaskPlacement) => void;
+  onEdit: (task: Task) => void;
+  canEdit: boolean; // Viewers can look at the board but not move cards
+  highlightTerms: string[];
+  matchingTaskIds: Set<string> | null; // Tasks matching the search query; null when there is no query
+}
+
+const columnAccents: Record<TaskStatus, string> = {
+  [TaskStatus.ToDo]: 'bg-slate-500',
+  [TaskStatus.InProgress]: 'bg-blue-500',
+  [TaskStatus.Done]: 'bg-green-600',
+};
+
+const priorityIcons: Record<TaskPriority, React.ReactNode> = {
+    [TaskPriority.High]: <ArrowUpIcon className="w-4 h-4 text-red-500" />,
+    [TaskPriority.Medium]: <div className="w-4 h-4 flex items-center justify-center"><div className="w-2 h-[2px] bg-yellow-500"></div></div>,
+    [TaskPriority.Low]: <ArrowDownIcon className="w-4 h-4 text-green-500" />,
+}
+
+const TaskBoard: React.FC<TaskBoardProps> = ({ tasks, onUpdateStatus, onEdit, canEdit, highlightTerms, matchingTaskIds }) => {
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: TaskStatus, placement?: TaskPlacement } | null>(null);
+
+  const taskById = new Map<string, Task>(tasks.map(t => [t.id, t]));
+
+  const handleCardDragStart = (e: React.DragEvent<HTMLDivElement>, task: Task) => {
+    e.stopPropagation(); // Keep the surrounding ProjectCard from starting a project drag
+    e.dataTransfer.setData('taskId', task.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setTimeout(() => setDraggedTaskId(task.id), 0);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  const getPlacement = (e: React.DragEvent<HTMLDivElement>, targetId: string): TaskPlacement => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { targetId, position: e.clientY < rect.top + rect.height / 2 ? 'top' : 'bottom' };
+  };
+
+  // A column mixes tasks from different parents, but order only applies among siblings. Other cards
+  // pass the drag on to their column, which moves the task without changing its place.
+  const isSiblingOf = (draggedId: string | null, target: Task) => {
+    const dragged = draggedId ? taskById.get(draggedId) : undefined;
+    return !!dragged && dragged.id !== target.id && dragged.projectId === target.projectId && dragged.parentId === target.parentId;
+  };
+
+  const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, target: Task) => {
+    if (target.id === draggedTaskId) { e.preventDefault(); e.stopPropagation(); return; }
+    if (!isSiblingOf(draggedTaskId, target)) return;
+    e.preventDefault(); e.stopPropagation();
+    setDropTarget({ status: target.status, placement: getPlacement(e, target.id) });
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    e.preventDefault();
+    if (dropTarget?.status !== status || dropTarget.placement) setDropTarget({ status });
+  };
+
+  const handleCardDrop = (e: React.DragEvent<HTMLDivElement>, target: Task) => {
+    const draggedId = e.dataTransfer.getData('taskId');
+    if (draggedId !== target.id && !isSiblingOf(draggedId, target)) return;
+    e.preventDefault(); e.stopPropagation();
+    if (draggedId && draggedId !== target.id) onUpdateStatus(draggedId, target.status, getPlacement(e, target.id));
+    handleDragEnd();
+  };
+
+  const handleColumnDrop = (e: React.DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    e.preventDefault(); e.stopPropagation();
+    const draggedId = e.dataTransfer.getData('taskId');
+    if (draggedId) onUpdateStatus(draggedId, status);
+    handleDragEnd();
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      {Object.values(TaskStatus).map(status => {
+        const columnTasks = tasks
+          .filter(t => t.status === status)
+          .sort((a, b) => a.order - b.order || a.createdAt.localeCompare(b.createdAt));
+        const isColumnTarget = dropTarget?.status === status && !dropTarget.placement;
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => handleColumnDragOver(e, status)}
+            onDrop={(e) => handleColumnDrop(e, status)}
+            className={`bg-background/40 rounded-lg p-2 min-h-[8rem] transition-colors ${isColumnTarget ? 'ring-2 ring-primary/60' : ''}`}
+          >
+            <div className="flex items-center gap-2 px-1 pb-2 mb-2 border-b border-slate-700">
+              <div className={`w-2 h-2 rounded-full ${columnAccents[status]}`}></div>
+              <h4 className="text-sm font-semibold text-on-surface">{status}</h4>
+              <span className="ml-auto text-xs text-on-surface-secondary">{columnTasks.length}</span>
+            </div>
+            <div className="space-y-2">
+              {columnTasks.map(task => {
+                const parent = task.parentId ? taskById.get(task.parentId) : undefined;
+                const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && task.status !== TaskStatus.Done;
+                const indicator = dropTarget?.placement?.targetId === task.id ? dropTarget.placement.position : null;
+                return (
+                  <div
+                    key={task.id}
+                    draggable={canEdit}
+                    onDragStart={(e) => handleCardDragStart(e, task)}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={(e) => handleCardDragOver(e, task)}
+                    onDrop={(e) => handleCardDrop(e, task)}
+                    onDoubleClick={() => canEdit && onEdit(task)}
+                    className={`bg-secondary rounded-md p-2 ${canEdit ? 'cursor-grab active:cursor-grabbing' : ''} border-y-2 border-transparent transition-all ${draggedTaskId === task.id ? 'opacity-40' : 'hover:bg-slate-600'} ${task.isFocused ? 'ring-1 ring-primary' : ''} ${matchingTaskIds && !matchingTaskIds.has(task.id) ? 'opacity-50' : ''} ${indicator === 'top' ? '!border-t-primary' : ''} ${indicator === 'bottom' ? '!border-b-primary' : ''}`}
+                  >
+                    {parent && <p className="text-[11px] text-on-surface-secondary truncate">{parent.title} /</p>}
+                    <div className="flex items-center gap-2">
+                      <div title={task.priority}>{priorityIcons[task.priority]}</div>
+                      <p className="text-sm text-on-surface font-medium truncate flex-1"><HighlightedText text={task.title} terms={highlightTerms} /></p>
+                      {task.isFocused && <StarIcon filled className="w-4 h-4 text-yellow-400" />}
+                    </div>
+                    {(task.dueDate || task.tags.length > 0) && (
+                      <div className="flex items-center gap-x-3 gap-y-1 text-xs text-on-surface-secondary flex-wrap mt-1">
+                        {task.dueDate && <div className={`flex items-center gap-1 ${isOverdue ? 'text-red-500' : ''}`}><CalendarDaysIcon className="w-3 h-3" /><span>{new Date(task.dueDate).toLocaleDateString()}</span></div>}
+                        {task.tags.length > 0 && <div className="flex items-center gap-1"><TagIcon className="w-3 h-3" /><span>{task.tags.join(', ')}</span></div>}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {columnTasks.length === 0 && (
+                <div className="text-center py-4 text-xs text-on-surface-secondary border-2 border-dashed border-slate-700 rounded-md">Drop tasks here</div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaskBoard;
@@ -1,9 +1,15 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Task, TaskStatus, TaskPriority, Project } from '../types';
+import { Task, TaskStatus, TaskPriority, Project, RecurrenceRule, Member } from '../types';
+import { getDescendants, getDependents } from '../utils/taskTree';
+import { WEEKDAY_NAMES, WEEK_OF_MONTH_NAMES } from '../utils/recurrence';
+import { getEstimateRollups, formatEstimate, ESTIMATE_UNIT_LABELS } from '../utils/estimates';
+import { remapAssignees } from '../utils/assignees';
+import { toggleChecklistItem } from '../utils/markdown';
+import Markdown from './Markdown';
 
 interface TaskFormProps {
   onSave: (
-    taskData: Omit<Task, 'id' | 'projectId' | 'parentId' | 'isFocused' | 'createdAt' | 'order'>,
+    taskData: Omit<Task, 'id' | 'projectId' | 'parentId' | 'isFocused' | 'createdAt' | 'createdBy' | 'order'>,
     newProjectId: string,
     newParentId: string | null
   ) => void;
@@ -14,31 +20,20 @@ interface TaskFormProps {
   contextParentId?: string | null;
 }
 
-const getDescendants = (taskId: string, tasks: Task[]): Set<string> => {
-    const descendants = new Set<string>();
-    const queue = [taskId];
-    while (queue.length > 0) {
-        const currentId = queue.shift()!;
-        const children = tasks.filter(t => t.parentId === currentId);
-        for (const child of children) {
-            if (!descendants.has(child.id)) {
-                descendants.add(child.id);
-                queue.push(child.id);
-            }
-        }
-    }
-    return descendants;
-};
-
-
 const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, allTasks, contextProjectId, contextParentId }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [isPreviewingDescription, setIsPreviewingDescription] = useState(false);
   const [status, setStatus] = useState<TaskStatus>(TaskStatus.ToDo);
   const [priority, setPriority] = useState<TaskPriority>(TaskPriority.Medium);
   const [startDate, setStartDate] = useState<string>('');
   const [dueDate, setDueDate] = useState<string>('');
   const [tags, setTags] = useState('');
+  const [dependsOn, setDependsOn] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [estimate, setEstimate] = useState('');
+  const [remaining, setRemaining] = useState('');
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
   const [newProjectId, setNewProjectId] = useState<string>('');
   const [newParentId, setNewParentId] = useState<string | null>(null);
 
@@ -51,6 +46,11 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
       setStartDate(taskToEdit.startDate ? taskToEdit.startDate.split('T')[0] : '');
       setDueDate(taskToEdit.dueDate ? taskToEdit.dueDate.split('T')[0] : '');
       setTags(taskToEdit.tags.join(', '));
+      setDependsOn(taskToEdit.dependsOn || []);
+      setRecurrence(taskToEdit.recurrence || null);
+      setEstimate(taskToEdit.estimate !== null ? String(taskToEdit.estimate) : '');
+      setRemaining(taskToEdit.remaining !== null ? String(taskToEdit.remaining) : '');
+      setAssigneeIds(taskToEdit.assigneeIds);
       setNewProjectId(taskToEdit.projectId);
       setNewParentId(taskToEdit.parentId);
     } else {
@@ -61,11 +61,45 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
       setStartDate('');
       setDueDate('');
       setTags('');
+      setDependsOn([]);
+      setRecurrence(null);
+      setEstimate('');
+      setRemaining('');
+      setAssigneeIds([]);
       setNewProjectId(contextProjectId || '');
       setNewParentId(contextParentId || null);
     }
   }, [taskToEdit, contextProjectId, contextParentId]);
 
+  const parseEffort = (value: string) => {
+    const number = parseFloat(value);
+    return value.trim() !== '' && isFinite(number) && number >= 0 ? number : null;
+  };
+
+  const estimateUnit = allProjects.find(p => p.id === newProjectId)?.estimateUnit || 'hours';
+  const getMembers = (projectId: string): Member[] => allProjects.find(p => p.id === projectId)?.members || [];
+  const projectMembers = getMembers(newProjectId);
+  // Assignees who would be dropped by moving the task to the selected project
+  const unmatchedAssignees: Member[] = taskToEdit && taskToEdit.projectId !== newProjectId
+    ? remapAssignees(taskToEdit.assigneeIds, getMembers(taskToEdit.projectId), projectMembers).unmatched
+    : [];
+  // Dependencies stay within a project, so moving the task drops those with its current project's tasks
+  const droppedDependencies = useMemo(() => {
+    if (!taskToEdit || taskToEdit.projectId === newProjectId) return { prerequisites: [], dependents: [] };
+    return {
+      prerequisites: allTasks.filter(t => dependsOn.includes(t.id) && t.projectId !== newProjectId),
+      dependents: allTasks.filter(t => t.dependsOn.includes(taskToEdit.id) && t.projectId !== newProjectId),
+    };
+  }, [taskToEdit, newProjectId, allTasks, dependsOn]);
+  // What the sub-tasks add to this task's own estimate
+  const subTaskEffort = useMemo(() => {
+    if (!taskToEdit) return null;
+    const rollup = getEstimateRollups(allTasks).get(taskToEdit.id);
+    if (!rollup) return null;
+    const subTaskEstimate = rollup.estimate - (taskToEdit.estimate ?? 0);
+    return subTaskEstimate > 0 ? subTaskEstimate : null;
+  }, [taskToEdit, allTasks]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim()) {
@@ -80,6 +114,11 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
       startDate: startDate ? new Date(startDate).toISOString() : null,
       dueDate: dueDate ? new Date(dueDate).toISOString() : null,
       tags: tags.split(',').map(t => t.trim()).filter(Boolean),
+      dependsOn: dependsOn.filter(id => possiblePrerequisites.some(t => t.id === id)),
+      recurrence,
+      estimate: parseEffort(estimate),
+      remaining: parseEffort(remaining),
+      assigneeIds: assigneeIds.filter(id => projectMembers.some(m => m.id === id)),
     }, newProjectId, newParentId);
   };
 
@@ -93,6 +132,43 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
     );
   }, [taskToEdit, newProjectId, allTasks]);
 
+  const possiblePrerequisites = useMemo(() => {
+    // Tasks that already depend on this one would close a cycle
+    const dependents = taskToEdit ? getDependents(taskToEdit.id, allTasks) : new Set<string>();
+    return allTasks.filter(t =>
+        t.projectId === newProjectId &&
+        t.id !== taskToEdit?.id &&
+        !dependents.has(t.id)
+    );
+  }, [taskToEdit, newProjectId, allTasks]);
+
+  // New rules default to the weekday / day of month of the task's own dates
+  const handleRecurrenceTypeChange = (type: RecurrenceRule['type'] | '') => {
+    const anchor = new Date(dueDate || startDate || new Date().toISOString().split('T')[0]);
+    switch (type) {
+      case 'daily': setRecurrence({ type: 'daily' }); break;
+      case 'weekdays': setRecurrence({ type: 'weekdays' }); break;
+      case 'weekly': setRecurrence({ type: 'weekly', interval: 1, daysOfWeek: [anchor.getUTCDay()] }); break;
+      case 'monthlyByDay': setRecurrence({ type: 'monthlyByDay', dayOfMonth: anchor.getUTCDate() }); break;
+      case 'monthlyByWeekday': setRecurrence({ type: 'monthlyByWeekday', weekOfMonth: Math.min(5, Math.ceil(anchor.getUTCDate() / 7)), dayOfWeek: anchor.getUTCDay() }); break;
+      default: setRecurrence(null);
+    }
+  };
+
+  const toggleRecurrenceDay = (day: number) => {
+    if (recurrence?.type !== 'weekly') return;
+    const daysOfWeek = recurrence.daysOfWeek.includes(day) ? recurrence.daysOfWeek.filter(d => d !== day) : [...recurrence.daysOfWeek, day];
+    setRecurrence({ ...recurrence, daysOfWeek });
+  };
+
+  const toggleDependency = (taskId: string) => {
+    setDependsOn(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]);
+  };
+
+  const toggleAssignee = (memberId: string) => {
+    setAssigneeIds(prev => prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]);
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div>
@@ -107,15 +183,30 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
         />
       </div>
       <div>
-        <label htmlFor="taskDescription" className="block text-sm font-medium text-on-surface-secondary mb-1">Description</label>
-        <textarea
-          id="taskDescription"
-          value={description}
-          onChange={(e) => setDescription(e.target.value)}
-          placeholder="Details about the task"
-          rows={3}
-          className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
-        />
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="taskDescription" className="block text-sm font-medium text-on-surface-secondary">Description</label>
+          <div className="flex text-xs rounded-md overflow-hidden border border-slate-600">
+            <button type="button" onClick={() => setIsPreviewingDescription(false)} className={`px-2 py-0.5 ${!isPreviewingDescription ? 'bg-primary text-white' : 'text-on-surface-secondary hover:bg-slate-700'}`}>Write</button>
+            <button type="button" onClick={() => setIsPreviewingDescription(true)} className={`px-2 py-0.5 ${isPreviewingDescription ? 'bg-primary text-white' : 'text-on-surface-secondary hover:bg-slate-700'}`}>Preview</button>
+          </div>
+        </div>
+        {isPreviewingDescription ? (
+          <div className="min-h-[5.5rem] max-h-64 overflow-y-auto bg-secondary border border-slate-600 rounded-md px-3 py-2">
+            {description.trim()
+              ? <Markdown source={description} onToggleChecklistItem={line => setDescription(current => toggleChecklistItem(current, line))} />
+              : <p className="text-sm text-on-surface-secondary italic">Nothing to preview.</p>}
+          </div>
+        ) : (
+          <textarea
+            id="taskDescription"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Details about the task"
+            rows={3}
+            className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+          />
+        )}
+        <p className="text-xs text-on-surface-secondary mt-1">Supports Markdown: **bold**, _italic_, `code`, [links](https://...), lists, tables and `- [ ]` checklists.</p>
       </div>
        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <div>
@@ -170,6 +261,83 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
             />
           </div>
         </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="taskEstimate" className="block text-sm font-medium text-on-surface-secondary mb-1">Estimate ({ESTIMATE_UNIT_LABELS[estimateUnit].toLowerCase()})</label>
+          <input id="taskEstimate" type="number" min={0} step="any" value={estimate} onChange={(e) => setEstimate(e.target.value)} placeholder="Not estimated" className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+          {subTaskEffort !== null && <p className="text-xs text-on-surface-secondary mt-1">Sub-tasks add {formatEstimate(subTaskEffort, estimateUnit)}.</p>}
+        </div>
+        <div>
+          <label htmlFor="taskRemaining" className="block text-sm font-medium text-on-surface-secondary mb-1">Remaining</label>
+          <input id="taskRemaining" type="number" min={0} step="any" value={remaining} onChange={(e) => setRemaining(e.target.value)} placeholder={estimate ? `${estimate} (the full estimate)` : 'Same as estimate'} className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"/>
+          <p className="text-xs text-on-surface-secondary mt-1">Counts as zero once the task is Done.</p>
+        </div>
+      </div>
+       <div>
+        <label htmlFor="taskRecurrence" className="block text-sm font-medium text-on-surface-secondary mb-1">Repeat</label>
+        <select
+          id="taskRecurrence"
+          value={recurrence?.type || ''}
+          onChange={(e) => handleRecurrenceTypeChange(e.target.value as RecurrenceRule['type'] | '')}
+          className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekdays">Every weekday (Mon-Fri)</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthlyByDay">Monthly on a day of the month</option>
+          <option value="monthlyByWeekday">Monthly on a weekday</option>
+        </select>
+        {recurrence?.type === 'weekly' && (
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <span className="text-sm text-on-surface-secondary">Every</span>
+            <input
+              type="number" min={1} value={recurrence.interval}
+              onChange={(e) => setRecurrence({ ...recurrence, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-16 bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+            />
+            <span className="text-sm text-on-surface-secondary">week(s) on</span>
+            {WEEKDAY_NAMES.map((name, day) => (
+              <button
+                key={name} type="button" onClick={() => toggleRecurrenceDay(day)}
+                className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${recurrence.daysOfWeek.includes(day) ? 'bg-primary text-white' : 'bg-secondary text-on-surface-secondary hover:bg-slate-600'}`}
+              >{name}</button>
+            ))}
+          </div>
+        )}
+        {recurrence?.type === 'monthlyByDay' && (
+          <div className="flex items-center gap-2 mt-2">
+            <span className="text-sm text-on-surface-secondary">On day</span>
+            <input
+              type="number" min={1} max={31} value={recurrence.dayOfMonth}
+              onChange={(e) => setRecurrence({ ...recurrence, dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className="w-16 bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+            />
+            <span className="text-sm text-on-surface-secondary">of every month</span>
+          </div>
+        )}
+        {recurrence?.type === 'monthlyByWeekday' && (
+          <div className="flex items-center gap-2 mt-2">
+            <span className="text-sm text-on-surface-secondary">On the</span>
+            <select
+              value={recurrence.weekOfMonth}
+              onChange={(e) => setRecurrence({ ...recurrence, weekOfMonth: parseInt(e.target.value) })}
+              className="bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+            >
+              {WEEK_OF_MONTH_NAMES.map((name, index) => <option key={name} value={index + 1}>{name}</option>)}
+            </select>
+            <select
+              value={recurrence.dayOfWeek}
+              onChange={(e) => setRecurrence({ ...recurrence, dayOfWeek: parseInt(e.target.value) })}
+              className="bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+            >
+              {WEEKDAY_NAMES.map((name, day) => <option key={name} value={day}>{name}</option>)}
+            </select>
+            <span className="text-sm text-on-surface-secondary">of every month</span>
+          </div>
+        )}
+        <p className="text-xs text-on-surface-secondary mt-1">When marked Done, the next occurrence is created with shifted dates.</p>
       </div>
        <div>
         <label htmlFor="taskTags" className="block text-sm font-medium text-on-surface-secondary mb-1">Tags</label>
@@ -183,6 +351,44 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
         />
         <p className="text-xs text-on-surface-secondary mt-1">Comma-separated values.</p>
       </div>
+      <div>
+        <span className="block text-sm font-medium text-on-surface-secondary mb-1">Assignees</span>
+        {projectMembers.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {projectMembers.map(member => (
+              <button
+                key={member.id}
+                type="button"
+                onClick={() => toggleAssignee(member.id)}
+                aria-pressed={assigneeIds.includes(member.id)}
+                className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full text-sm border transition-colors ${assigneeIds.includes(member.id) ? 'bg-primary/20 border-primary text-on-surface' : 'bg-secondary border-slate-600 text-on-surface-secondary hover:border-slate-400'}`}
+              >
+                <img src={member.avatarUrl} alt="" className="w-6 h-6 rounded-full bg-slate-700" />
+                {member.name}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-on-surface-secondary">Add members to the project to assign this task.</p>
+        )}
+      </div>
+      <div>
+        <span className="block text-sm font-medium text-on-surface-secondary mb-1">Depends On</span>
+        {possiblePrerequisites.length > 0 ? (
+          <div className="max-h-32 overflow-y-auto bg-secondary border border-slate-600 rounded-md px-3 py-2 space-y-1">
+            {possiblePrerequisites.map(t => (
+              <label key={t.id} className="flex items-center gap-2 text-sm text-on-surface cursor-pointer">
+                <input type="checkbox" checked={dependsOn.includes(t.id)} onChange={() => toggleDependency(t.id)} className="accent-primary" />
+                <span className="truncate">{t.title}</span>
+                <span className="ml-auto text-xs text-on-surface-secondary">{t.status}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-on-surface-secondary">No other tasks in this project can be a prerequisite.</p>
+        )}
+        <p className="text-xs text-on-surface-secondary mt-1">This task is blocked until the selected tasks are Done.</p>
+      </div>
 
       {taskToEdit && (
         <div className="space-y-4 pt-4 border-t border-slate-700/60">
@@ -196,6 +402,8 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
                         onChange={(e) => {
                             setNewProjectId(e.target.value);
                             setNewParentId(null); // Reset parent when project changes
+                            setDependsOn([]); // Dependencies are scoped to a project
+                            setAssigneeIds(remapAssignees(assigneeIds, projectMembers, getMembers(e.target.value)).assigneeIds);
                         }}
                         className="w-full bg-secondary border border-slate-600 rounded-md px-3 py-2 text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
                     >
@@ -215,6 +423,28 @@ const TaskForm: React.FC<TaskFormProps> = ({ onSave, taskToEdit, allProjects, al
                     </select>
                 </div>
             </div>
+            {unmatchedAssignees.length > 0 && (
+                <div className="flex items-start gap-2 rounded-md bg-amber-500/10 border border-amber-500/40 px-3 py-2 text-sm text-amber-300">
+                    <div className="flex -space-x-2 shrink-0">
+                        {unmatchedAssignees.map(member => <img key={member.id} src={member.avatarUrl} alt={member.name} className="w-6 h-6 rounded-full ring-2 ring-amber-500/60 bg-slate-700" />)}
+                    </div>
+                    <p>
+                        {unmatchedAssignees.map(m => m.name).join(', ')} {unmatchedAssignees.length === 1 ? 'is not a member' : 'are not members'} of {allProjects.find(p => p.id === newProjectId)?.name}
+                        {' '}and will be unassigned. Add them to that project's members to keep the assignment.
+                    </p>
+                </div>
+            )}
+            {(droppedDependencies.prerequisites.length > 0 || droppedDependencies.dependents.length > 0) && (
+                <div className="rounded-md bg-amber-500/10 border border-amber-500/40 px-3 py-2 text-sm text-amber-300 space-y-1">
+                    <p>Dependencies only link tasks in the same project, so moving this task removes these:</p>
+                    {droppedDependencies.prerequisites.length > 0 && (
+                        <p>It will no longer wait for {droppedDependencies.prerequisites.map(t => `"${t.title}"`).join(', ')}.</p>
+                    )}
+                    {droppedDependencies.dependents.length > 0 && (
+                        <p>{droppedDependencies.dependents.map(t => `"${t.title}"`).join(', ')} will no longer wait for it.</p>
+                    )}
+                </div>
+            )}
         </div>
       )}
 
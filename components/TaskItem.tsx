@@ -1,18 +1,42 @@
 import React, { useState } from 'react';
-import { Task, TaskStatus, TaskPriority } from '../types';
-import { EditIcon, TrashIcon, StarIcon, PlusIcon, ChevronDownIcon, LockClosedIcon, ArrowUpIcon, ArrowDownIcon, CalendarDaysIcon, TagIcon } from './IconComponents';
+import { Task, TaskStatus, TaskPriority, TaskPlacement, EstimateUnit, Member } from '../types';
+import { getBlockingTasks } from '../utils/taskTree';
+import { describeRecurrence } from '../utils/recurrence';
+import { formatDuration, TimeTotal } from '../utils/timeTracking';
+import { formatEstimate, EstimateRollup } from '../utils/estimates';
+import { getChecklistProgress, ChecklistProgress } from '../utils/markdown';
+import { getAssignees } from '../utils/assignees';
+import HighlightedText from './HighlightedText';
+import Markdown from './Markdown';
+import { EditIcon, TrashIcon, StarIcon, PlusIcon, ChevronDownIcon, LockClosedIcon, ArrowUpIcon, ArrowDownIcon, CalendarDaysIcon, TagIcon, ArrowPathIcon, PlayIcon, StopIcon, ClockIcon, ChatBubbleIcon, CheckCircleIcon, ClipboardDocumentListIcon } from './IconComponents';
 
 interface TaskItemProps {
   task: Task;
   allProjectTasks: Task[];
+  members: Member[]; // The project's members, for assignee avatars
   level: number;
   onUpdateStatus: (taskId: string, status: TaskStatus) => void;
   onDelete: (taskId: string) => void;
   onEdit: (task: Task) => void;
   onToggleFocus: (taskId: string) => void;
   onAddSubTask: (parentTask: Task) => void;
+  onMove: (taskId: string, projectId: string, newParentId: string | null, placement?: TaskPlacement) => void;
+  highlightTerms: string[];
+  matchingTaskIds: Set<string> | null; // Tasks matching the search query; null when there is no query
+  timeTotals: Map<string, TimeTotal>;
+  estimateRollups: Map<string, EstimateRollup>;
+  estimateUnit: EstimateUnit;
+  activeTimerTaskId: string | null;
+  onStartTimer: (taskId: string) => void;
+  onStopTimer: () => void;
+  commentCounts: Map<string, number>;
+  onOpenComments: (task: Task) => void;
+  onToggleChecklistItem: (taskId: string, line: number) => void;
+  canEdit: boolean; // False for project Viewers, who can only read tasks and their comments
 }
 
+type DropZone = 'top' | 'bottom' | 'inside';
+
 const statusColors: Record<TaskStatus, string> = {
   [TaskStatus.ToDo]: 'bg-slate-500',
   [TaskStatus.InProgress]: 'bg-blue-500',
@@ -25,8 +49,11 @@ const priorityIcons: Record<TaskPriority, React.ReactNode> = {
     [TaskPriority.Low]: <ArrowDownIcon className="w-4 h-4 text-green-500" />,
 }
 
-const TaskItem: React.FC<TaskItemProps> = ({ task, allProjectTasks, level, onUpdateStatus, onDelete, onEdit, onToggleFocus, onAddSubTask }) => {
+const TaskItem: React.FC<TaskItemProps> = ({ task, allProjectTasks, members, level, onUpdateStatus, onDelete, onEdit, onToggleFocus, onAddSubTask, onMove, highlightTerms, matchingTaskIds, timeTotals, estimateRollups, estimateUnit, activeTimerTaskId, onStartTimer, onStopTimer, commentCounts, onOpenComments, onToggleChecklistItem, canEdit }) => {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [isDescriptionOpen, setIsDescriptionOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [dropZone, setDropZone] = useState<DropZone | null>(null);
 
   const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     onUpdateStatus(task.id, e.target.value as TaskStatus);
@@ -36,12 +63,60 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, allProjectTasks, level, onUpd
     .sort((a,b) => a.order - b.order);
 
   const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && task.status !== TaskStatus.Done;
+  const blockingTasks = task.status === TaskStatus.Done ? [] : getBlockingTasks(task, allProjectTasks);
+  const timeTotal = timeTotals.get(task.id);
+  const isTimerRunning = activeTimerTaskId === task.id;
+  const effort = estimateRollups.get(task.id);
+  const commentCount = commentCounts.get(task.id) || 0;
+  const hasDescription = task.description.trim() !== '';
+  const checklist: ChecklistProgress | null = getChecklistProgress(task.description);
+  const assignees: Member[] = getAssignees(task, members);
+
+  const isTaskDrag = (e: React.DragEvent<HTMLDivElement>) => canEdit && e.dataTransfer.types.includes('taskid');
+
+  const getDropZone = (e: React.DragEvent<HTMLDivElement>): DropZone => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    if (offset < 0.25) return 'top';
+    if (offset > 0.75) return 'bottom';
+    return 'inside';
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
+    e.stopPropagation(); // Keep the surrounding ProjectCard from starting a project drag
+    e.dataTransfer.setData('taskId', task.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setTimeout(() => setIsDragging(true), 0);
+  };
+  const handleDragEnd = () => setIsDragging(false);
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isTaskDrag(e)) return;
+    e.preventDefault(); e.stopPropagation();
+    setDropZone(getDropZone(e));
+  };
+  const handleDragLeave = () => setDropZone(null);
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isTaskDrag(e)) return;
+    e.preventDefault(); e.stopPropagation();
+    setDropZone(null);
+    const draggedId = e.dataTransfer.getData('taskId');
+    if (!draggedId || draggedId === task.id) return;
+    const zone = getDropZone(e);
+    if (zone === 'inside') {
+      onMove(draggedId, task.projectId, task.id);
+      setIsExpanded(true);
+    } else {
+      onMove(draggedId, task.projectId, task.parentId, { targetId: task.id, position: zone });
+    }
+  };
 
   return (
     <React.Fragment>
       <div 
         id={`task-${task.id}`}
-        className={`group relative bg-secondary rounded-lg flex items-start justify-between transition-all duration-300 ${task.isFocused ? 'shadow-glow ring-2 ring-primary' : ''} hover:bg-slate-600`}
+        draggable={canEdit}
+        onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}
+        className={`group relative bg-secondary rounded-lg flex items-start justify-between transition-all duration-300 border-y-2 border-transparent ${task.isFocused ? 'shadow-glow ring-2 ring-primary' : ''} ${isDragging ? 'opacity-40' : ''} ${matchingTaskIds && !matchingTaskIds.has(task.id) && !isDragging ? 'opacity-50' : ''} ${dropZone === 'top' ? '!border-t-primary' : ''} ${dropZone === 'bottom' ? '!border-b-primary' : ''} ${dropZone === 'inside' ? 'bg-primary/20 ring-1 ring-primary/60' : ''} hover:bg-slate-600`}
         style={{ 
             paddingLeft: `${level * 20 + 8}px`,
             paddingRight: '12px',
@@ -63,26 +138,59 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, allProjectTasks, level, onUpd
           </button>
           <div title={task.priority}>{priorityIcons[task.priority]}</div>
           <div className="flex-1 min-w-0">
-            <p className={`text-on-surface font-medium truncate`}>{task.title}</p>
+            <p className={`text-on-surface font-medium truncate`}><HighlightedText text={task.title} terms={highlightTerms} /></p>
             <div className="flex items-center gap-x-3 gap-y-1 text-xs text-on-surface-secondary flex-wrap mt-1">
+              {blockingTasks.length > 0 && <div className="flex items-center gap-1 px-1.5 rounded bg-amber-500/20 text-amber-400 font-semibold" title={`Blocked by: ${blockingTasks.map(t => t.title).join(', ')}`}><LockClosedIcon className="w-3 h-3" /><span>Blocked</span></div>}
               {task.dueDate && <div className={`flex items-center gap-1 ${isOverdue ? 'text-red-500' : ''}`}><CalendarDaysIcon className="w-3 h-3" /><span>{new Date(task.dueDate).toLocaleDateString()}</span></div>}
+              {task.recurrence && <div className="flex items-center gap-1" title="Recurring task"><ArrowPathIcon className="w-3 h-3" /><span>{describeRecurrence(task.recurrence)}</span></div>}
+              {hasDescription && (
+                <button onClick={() => setIsDescriptionOpen(!isDescriptionOpen)} className={`flex items-center gap-1 hover:text-primary ${isDescriptionOpen ? 'text-primary' : ''}`} aria-expanded={isDescriptionOpen} title={isDescriptionOpen ? 'Hide description' : 'Show description'}>
+                  {checklist
+                    ? <><CheckCircleIcon className={`w-3 h-3 ${checklist.done === checklist.total ? 'text-green-500' : ''}`} /><span>{checklist.done}/{checklist.total}</span></>
+                    : <><ClipboardDocumentListIcon className="w-3 h-3" /><span>Notes</span></>}
+                </button>
+              )}
               {task.tags.length > 0 && <div className="flex items-center gap-1"><TagIcon className="w-3 h-3" /><span>{task.tags.join(', ')}</span></div>}
+              {effort?.hasEstimate && <div className="flex items-center gap-1" title={subTasks.length > 0 ? 'Remaining of estimated effort, including sub-tasks' : 'Remaining of estimated effort'}><span>{effort.remaining > 0 ? `${formatEstimate(effort.remaining, estimateUnit)} of ${formatEstimate(effort.estimate, estimateUnit)} left` : `${formatEstimate(effort.estimate, estimateUnit)} done`}</span></div>}
+              {timeTotal && timeTotal.total > 0 && <div className="flex items-center gap-1" title={timeTotal.total > timeTotal.own ? `${formatDuration(timeTotal.own)} on this task, ${formatDuration(timeTotal.total - timeTotal.own)} on sub-tasks` : 'Time tracked'}><ClockIcon className="w-3 h-3" /><span>{formatDuration(timeTotal.total)}</span></div>}
             </div>
           </div>
         </div>
 
         <div className="flex items-center gap-1 sm:gap-2 pl-2">
+          {assignees.length > 0 && (
+            <div className="flex -space-x-2" title={`Assigned to ${assignees.map(m => m.name).join(', ')}`}>
+              {assignees.slice(0, 3).map(member => <img key={member.id} src={member.avatarUrl} alt={member.name} className="w-6 h-6 rounded-full ring-2 ring-secondary bg-slate-700" />)}
+              {assignees.length > 3 && <span className="w-6 h-6 rounded-full ring-2 ring-secondary bg-slate-700 text-[10px] font-semibold text-on-surface flex items-center justify-center">+{assignees.length - 3}</span>}
+            </div>
+          )}
+          <button
+            onClick={() => isTimerRunning ? onStopTimer() : onStartTimer(task.id)}
+            className={`p-1 rounded-full transition-all ${isTimerRunning ? 'text-primary animate-pulse' : 'text-on-surface-secondary hover:text-primary opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+            aria-label={isTimerRunning ? 'Stop timer' : 'Start timer'} title={isTimerRunning ? 'Stop timer' : 'Start timer'}
+          >
+            {isTimerRunning ? <StopIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => onOpenComments(task)}
+            className={`flex items-center gap-1 p-1 rounded-full text-xs font-semibold transition-all text-on-surface-secondary hover:text-primary ${commentCount > 0 ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+            aria-label={`Comments (${commentCount})`} title={commentCount > 0 ? `${commentCount} comment(s)` : 'Comment on this task'}
+          >
+            <ChatBubbleIcon className="w-5 h-5" />
+            {commentCount > 0 && <span>{commentCount}</span>}
+          </button>
           <div className="relative">
             <select
               value={task.status}
               onChange={handleStatusChange}
-              className={`appearance-none bg-slate-700 border border-slate-600 rounded-md py-1 pl-3 pr-8 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none`}
+              disabled={!canEdit}
+              className={`appearance-none disabled:opacity-70 bg-slate-700 border border-slate-600 rounded-md py-1 pl-3 pr-8 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none`}
             >
               {Object.values(TaskStatus).map(s => <option key={s} value={s}>{s}</option>)}
             </select>
             <div className={`absolute top-1/2 right-3 -translate-y-1/2 w-2 h-2 rounded-full ${statusColors[task.status]}`}></div>
           </div>
-          <div className="flex items-center gap-0 sm:gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          {canEdit && <div className="flex items-center gap-0 sm:gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
             <button onClick={() => onAddSubTask(task)} className="p-1 sm:p-2 text-on-surface-secondary hover:text-primary rounded-full transition-colors" aria-label="Add sub-task">
                 <PlusIcon className="w-5 h-5"/>
             </button>
@@ -92,9 +200,14 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, allProjectTasks, level, onUpd
             <button onClick={() => onDelete(task.id)} className="p-1 sm:p-2 text-on-surface-secondary hover:text-red-500 rounded-full transition-colors" aria-label="Delete task">
                 <TrashIcon className="w-5 h-5"/>
             </button>
-          </div>
+          </div>}
         </div>
       </div>
+      {isDescriptionOpen && hasDescription && (
+        <div className="bg-secondary/50 rounded-b-lg -mt-1 pr-3 py-2" style={{ paddingLeft: `${level * 20 + 44}px` }}>
+          <Markdown source={task.description} onToggleChecklistItem={canEdit ? line => onToggleChecklistItem(task.id, line) : undefined} />
+        </div>
+      )}
       {isExpanded && subTasks.length > 0 && (
          <div className="mt-2 space-y-2">
             {subTasks.map(subTask => (
@@ -102,12 +215,26 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, allProjectTasks, level, onUpd
                     key={subTask.id}
                     task={subTask}
                     allProjectTasks={allProjectTasks}
+                    members={members}
                     level={level + 1}
                     onUpdateStatus={onUpdateStatus}
                     onDelete={onDelete}
                     onEdit={onEdit}
                     onToggleFocus={onToggleFocus}
                     onAddSubTask={onAddSubTask}
+                    onMove={onMove}
+                    highlightTerms={highlightTerms}
+                    matchingTaskIds={matchingTaskIds}
+                    timeTotals={timeTotals}
+                    estimateRollups={estimateRollups}
+                    estimateUnit={estimateUnit}
+                    activeTimerTaskId={activeTimerTaskId}
+                    onStartTimer={onStartTimer}
+                    onStopTimer={onStopTimer}
+                    commentCounts={commentCounts}
+                    onOpenComments={onOpenComments}
+                    onToggleChecklistItem={onToggleChecklistItem}
+                    canEdit={canEdit}
                 />
             ))}
         </div>
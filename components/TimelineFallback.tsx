@@ -0,0 +1,50 @@
+import React from 'react';
+import { Task, TaskStatus } from '../types';
+
+interface TimelineFallbackProps {
+  tasks: Task[]; // Tasks with both a start and a due date
+  color: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A plain timeline for when Google's chart library cannot be loaded, e.g. offline before it was ever cached
+const TimelineFallback: React.FC<TimelineFallbackProps> = ({ tasks, color }) => {
+  const spans = tasks
+    .map(task => ({ task, start: new Date(task.startDate!).getTime(), end: new Date(task.dueDate!).getTime() + DAY }))
+    .sort((a, b) => a.start - b.start);
+  const first = Math.min(...spans.map(s => s.start));
+  const last = Math.max(...spans.map(s => s.end));
+  const range = Math.max(last - first, DAY);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-on-surface-secondary">The interactive timeline needs an internet connection the first time it loads. Showing a simple version instead.</p>
+      <div className="flex justify-between text-xs text-on-surface-secondary pl-[33%]">
+        <span>{new Date(first).toLocaleDateString()}</span>
+        <span>{new Date(last - DAY).toLocaleDateString()}</span>
+      </div>
+      <ul className="space-y-2">
+        {spans.map(({ task, start, end }) => {
+          const progress = task.status === TaskStatus.Done ? 100 : task.status === TaskStatus.InProgress ? 50 : 0;
+          return (
+            <li key={task.id} className="flex items-center gap-2 text-sm">
+              <span className="w-1/3 truncate text-on-surface" title={task.title}>{task.title}</span>
+              <div className="relative flex-1 h-6 bg-secondary/50 rounded">
+                <div
+                  className="absolute top-1 bottom-1 rounded-sm overflow-hidden"
+                  style={{ left: `${((start - first) / range) * 100}%`, width: `${Math.max(((end - start) / range) * 100, 1)}%`, backgroundColor: color, opacity: 0.6 }}
+                  title={`${new Date(start).toLocaleDateString()} – ${new Date(end - DAY).toLocaleDateString()}`}
+                >
+                  <div className="h-full bg-white/40" style={{ width: `${progress}%` }}></div>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TimelineFallback;
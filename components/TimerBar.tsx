@@ -0,0 +1,60 @@
+import React, { useState, useEffect } from 'react';
+import { Project, RunningTimer, Task } from '../types';
+import { formatClock } from '../utils/timeTracking';
+import { StopIcon } from './IconComponents';
+
+interface TimerBarProps {
+  timer: RunningTimer;
+  task: Task | undefined;
+  project: Project | undefined;
+  phaseEnd: number | null; // End of the current Pomodoro phase; the clock then counts down
+  onChangeNote: (note: string) => void;
+  onStop: () => void;
+}
+
+const TimerBar: React.FC<TimerBarProps> = ({ timer, task, project, phaseEnd, onChangeNote, onStop }) => {
+  const [now, setNow] = useState(Date.now());
+  const [note, setNote] = useState(timer.note);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // A new timer (or a note changed elsewhere) replaces whatever was being typed
+  useEffect(() => setNote(timer.note), [timer.taskId, timer.note]);
+
+  const isBreak = timer.pomodoro?.phase === 'break';
+  const clock = phaseEnd !== null ? formatClock(phaseEnd - now) : formatClock(now - new Date(timer.segmentStartedAt).getTime());
+
+  return (
+    <div className={`sticky top-20 z-30 border-b ${isBreak ? 'bg-green-900/80 border-green-700' : 'bg-primary/20 border-primary/40'} backdrop-blur-sm`}>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-4">
+        <span className={`font-mono text-lg font-bold ${isBreak ? 'text-green-300' : 'text-primary'}`}>{clock}</span>
+        {timer.pomodoro && (
+          <span className="text-xs font-semibold uppercase tracking-wide text-on-surface-secondary">{isBreak ? 'Break' : 'Focus'}</span>
+        )}
+        <div className="w-1 self-stretch rounded-full" style={{ backgroundColor: project?.color }}></div>
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-on-surface truncate">{task?.title || 'Unknown task'}</p>
+          <p className="text-xs text-on-surface-secondary truncate">{project?.name}</p>
+        </div>
+        <input
+          type="text"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          onBlur={() => { if (note !== timer.note) onChangeNote(note); }}
+          onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          placeholder="What are you working on?"
+          className="flex-1 min-w-0 bg-secondary border border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:ring-2 focus:ring-primary focus:outline-none"
+        />
+        <button onClick={() => { if (note !== timer.note) onChangeNote(note); onStop(); }} className="flex items-center gap-2 bg-secondary hover:bg-slate-600 text-on-surface font-semibold py-1.5 px-3 rounded-lg transition-colors">
+          <StopIcon className="w-4 h-4" />
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimerBar;
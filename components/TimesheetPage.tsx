@@ -0,0 +1,170 @@
+import React, { useState, useMemo } from 'react';
+import { AppState, PomodoroSettings, Project, Task, TimeEntry } from '../types';
+import { buildTimesheet, formatDuration, getEntryDuration, getWeekStart, Timesheet } from '../utils/timeTracking';
+import { buildTimesheetCsv } from '../storage/csv';
+import { downloadFile } from '../utils/download';
+import { toDateKey } from '../utils/dates';
+import { ChevronDownIcon, DownloadIcon, TrashIcon } from './IconComponents';
+
+interface TimesheetPageProps {
+  appState: AppState;
+  onUpdateEntryNote: (entryId: string, note: string) => void;
+  onDeleteEntry: (entryId: string) => void;
+  onUpdatePomodoroSettings: (settings: PomodoroSettings) => void;
+}
+
+const formatDay = (dateKey: string, options: Intl.DateTimeFormatOptions) => new Date(`${dateKey}T00:00:00`).toLocaleDateString(undefined, options);
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+const formatCell = (ms: number) => ms > 0 ? formatDuration(ms) : '–';
+
+const TimesheetPage: React.FC<TimesheetPageProps> = ({ appState, onUpdateEntryNote, onDeleteEntry, onUpdatePomodoroSettings }) => {
+  const [weekStart, setWeekStart] = useState<Date>(() => getWeekStart(new Date()));
+  const timesheet: Timesheet = useMemo(() => buildTimesheet(appState, weekStart), [appState.tasks, appState.projects, appState.timeEntries, weekStart]);
+  const taskById = useMemo(() => new Map<string, Task>(appState.tasks.map((t: Task) => [t.id, t])), [appState.tasks]);
+  const projectById = useMemo(() => new Map<string, Project>(appState.projects.map((p: Project) => [p.id, p])), [appState.projects]);
+  const settings: PomodoroSettings = appState.pomodoroSettings;
+
+  const projectIds: string[] = Array.from(new Set(timesheet.rows.map(r => r.project.id)));
+  const dayTotals = timesheet.days.map((_, i) => timesheet.rows.reduce((sum, r) => sum + r.days[i], 0));
+  const weekTotal = dayTotals.reduce((a, b) => a + b, 0);
+
+  const moveWeek = (weeks: number) => setWeekStart(current => new Date(current.getFullYear(), current.getMonth(), current.getDate() + weeks * 7));
+
+  const handleExport = () => {
+    downloadFile(buildTimesheetCsv(timesheet), `focusflow-timesheet-${timesheet.days[0]}.csv`, 'text/csv');
+  };
+
+  const updateMinutes = (key: 'workMinutes' | 'breakMinutes', value: string) => {
+    const minutes = parseInt(value, 10);
+    if (minutes > 0) onUpdatePomodoroSettings({ ...settings, [key]: minutes });
+  };
+
+  return (
+    <main className="container mx-auto p-4 sm:p-6 lg:p-8">
+      <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Timesheet</h2>
+          <p className="text-sm text-on-surface-secondary">
+            {formatDay(timesheet.days[0], { month: 'long', day: 'numeric' })} – {formatDay(timesheet.days[6], { month: 'long', day: 'numeric', year: 'numeric' })}
+            {weekTotal > 0 && ` · ${formatDuration(weekTotal)} tracked`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => moveWeek(-1)} className="p-2 rounded-md bg-secondary hover:bg-slate-600" title="Previous week">
+            <ChevronDownIcon className="w-5 h-5 rotate-90" />
+          </button>
+          <button onClick={() => setWeekStart(getWeekStart(new Date()))} className="py-2 px-3 rounded-md bg-secondary hover:bg-slate-600 text-sm font-semibold">This week</button>
+          <button onClick={() => moveWeek(1)} className="p-2 rounded-md bg-secondary hover:bg-slate-600" title="Next week">
+            <ChevronDownIcon className="w-5 h-5 -rotate-90" />
+          </button>
+          <button onClick={handleExport} disabled={timesheet.rows.length === 0} className="flex items-center gap-2 bg-primary hover:bg-primary-focus text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            <DownloadIcon className="w-5 h-5" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-surface rounded-xl p-4 mb-6 flex flex-wrap items-center gap-x-6 gap-y-3 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={settings.enabled} onChange={e => onUpdatePomodoroSettings({ ...settings, enabled: e.target.checked })} className="accent-primary" />
+          <span className="font-semibold">Pomodoro mode</span>
+        </label>
+        <label className={`flex items-center gap-2 ${settings.enabled ? '' : 'opacity-50'}`}>
+          Work
+          <input type="number" min={1} value={settings.workMinutes} disabled={!settings.enabled} onChange={e => updateMinutes('workMinutes', e.target.value)} className="w-16 bg-secondary border border-slate-600 rounded-md px-2 py-1 text-on-surface" />
+          min
+        </label>
+        <label className={`flex items-center gap-2 ${settings.enabled ? '' : 'opacity-50'}`}>
+          Break
+          <input type="number" min={1} value={settings.breakMinutes} disabled={!settings.enabled} onChange={e => updateMinutes('breakMinutes', e.target.value)} className="w-16 bg-secondary border border-slate-600 rounded-md px-2 py-1 text-on-surface" />
+          min
+        </label>
+        <span className="text-xs text-on-surface-secondary">Applies to the next timer you start. Break time is not recorded.</span>
+      </div>
+
+      {timesheet.rows.length > 0 ? (
+        <>
+          <div className="bg-surface rounded-xl overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-700 text-on-surface-secondary">
+                  <th className="text-left font-semibold p-3">Task</th>
+                  {timesheet.days.map(day => <th key={day} className="text-right font-semibold p-3 whitespace-nowrap">{formatDay(day, { weekday: 'short', day: 'numeric' })}</th>)}
+                  <th className="text-right font-semibold p-3">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projectIds.map(projectId => {
+                  const rows = timesheet.rows.filter(r => r.project.id === projectId);
+                  const project = rows[0].project;
+                  const projectDays = timesheet.days.map((_, i) => rows.reduce((sum, r) => sum + r.days[i], 0));
+                  return (
+                    <React.Fragment key={projectId}>
+                      <tr className="bg-secondary/40 font-semibold">
+                        <td className="p-3 border-l-4" style={{ borderLeftColor: project.color }}>{project.name}</td>
+                        {projectDays.map((ms, i) => <td key={i} className="p-3 text-right">{formatCell(ms)}</td>)}
+                        <td className="p-3 text-right">{formatDuration(projectDays.reduce((a, b) => a + b, 0))}</td>
+                      </tr>
+                      {rows.map(row => (
+                        <tr key={row.task.id} className="border-t border-slate-700/50">
+                          <td className="p-3 pl-6 text-on-surface truncate max-w-xs">{row.task.title}</td>
+                          {row.days.map((ms, i) => <td key={i} className="p-3 text-right text-on-surface-secondary">{formatCell(ms)}</td>)}
+                          <td className="p-3 text-right">{formatDuration(row.total)}</td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="border-t-2 border-slate-600 font-bold">
+                  <td className="p-3">Total</td>
+                  {dayTotals.map((ms, i) => <td key={i} className="p-3 text-right">{formatCell(ms)}</td>)}
+                  <td className="p-3 text-right">{formatDuration(weekTotal)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <h3 className="text-lg font-semibold mb-3">Entries</h3>
+          <div className="space-y-2">
+            {timesheet.entries.map((entry: TimeEntry) => {
+              const task = taskById.get(entry.taskId);
+              const project = task && projectById.get(task.projectId);
+              return (
+                <div key={entry.id} className="group flex items-center gap-3 bg-surface rounded-lg p-3 border-l-4" style={{ borderLeftColor: project?.color }}>
+                  <div className="w-40 flex-shrink-0 text-xs text-on-surface-secondary">
+                    <p>{formatDay(toDateKey(new Date(entry.start)), { weekday: 'short', month: 'short', day: 'numeric' })}</p>
+                    <p>{formatTime(entry.start)} – {formatTime(entry.end)}</p>
+                  </div>
+                  <div className="w-48 min-w-0 flex-shrink-0">
+                    <p className="text-sm text-on-surface truncate">{task?.title || 'Deleted task'}</p>
+                    <p className="text-xs text-on-surface-secondary truncate">{project?.name}</p>
+                  </div>
+                  <input
+                    type="text"
+                    defaultValue={entry.note}
+                    onBlur={e => { if (e.target.value !== entry.note) onUpdateEntryNote(entry.id, e.target.value); }}
+                    placeholder="Add a note"
+                    className="flex-1 min-w-0 bg-transparent border border-transparent hover:border-slate-600 focus:border-slate-600 rounded-md px-2 py-1 text-sm text-on-surface focus:outline-none"
+                  />
+                  <span className="text-sm font-semibold w-16 text-right">{formatDuration(getEntryDuration(entry))}</span>
+                  <button onClick={() => onDeleteEntry(entry.id)} className="p-1 text-on-surface-secondary hover:text-red-500 rounded-full transition-colors opacity-0 group-hover:opacity-100" aria-label="Delete entry">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-16 bg-surface rounded-lg">
+          <h3 className="text-xl font-semibold">No time tracked this week</h3>
+          <p className="text-on-surface-secondary mt-2">Start a timer from any task to log time against it.</p>
+        </div>
+      )}
+    </main>
+  );
+};
+
+export default TimesheetPage;
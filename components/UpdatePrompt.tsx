@@ -0,0 +1,31 @@
+import React from 'react';
+import { ArrowPathIcon } from './IconComponents';
+
+interface UpdatePromptProps {
+  canReload: boolean; // False until this tab's changes are saved
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ canReload, onReload, onDismiss }) => (
+  <div role="status" className="fixed bottom-4 right-4 z-50 max-w-sm bg-surface border border-slate-600 rounded-lg shadow-xl p-4 flex items-start gap-3">
+    <ArrowPathIcon className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+    <div className="flex-1">
+      <p className="font-semibold text-on-surface">A new version of FocusFlow is available</p>
+      <p className="text-sm text-on-surface-secondary mt-1">Reload to start using it. Your data stays as it is.</p>
+      <div className="flex justify-end gap-2 mt-3">
+        <button onClick={onDismiss} className="bg-secondary hover:bg-slate-600 font-bold py-1.5 px-3 rounded-md text-sm">Later</button>
+        <button
+          onClick={onReload}
+          disabled={!canReload}
+          title={canReload ? undefined : 'Waiting for your changes to be saved'}
+          className="bg-primary hover:bg-primary-focus text-white font-bold py-1.5 px-3 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default UpdatePrompt;
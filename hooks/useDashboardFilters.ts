@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { DashboardFilters, DashboardStatusFilter, TaskStatus, TaskPriority } from '../types';
+
+export const DEFAULT_FILTERS: DashboardFilters = {
+  searchQuery: '',
+  status: 'All',
+  priority: 'All',
+  tag: 'All',
+  assignee: 'All',
+  showArchived: false,
+};
+
+const STATUS_VALUES: DashboardStatusFilter[] = ['All', 'Focused', ...Object.values(TaskStatus)];
+const PRIORITY_VALUES: (TaskPriority | 'All')[] = ['All', ...Object.values(TaskPriority)];
+
+export const areFiltersEqual = (a: DashboardFilters, b: DashboardFilters) =>
+  a.searchQuery === b.searchQuery && a.status === b.status && a.priority === b.priority && a.tag === b.tag && a.assignee === b.assignee && a.showArchived === b.showArchived;
+
+const readUrl = () => {
+  const params = new URLSearchParams(window.location.search);
+  const status = params.get('status') as DashboardStatusFilter;
+  const priority = params.get('priority') as TaskPriority | 'All';
+  const filters: DashboardFilters = {
+    searchQuery: params.get('q') || DEFAULT_FILTERS.searchQuery,
+    status: STATUS_VALUES.includes(status) ? status : DEFAULT_FILTERS.status,
+    priority: PRIORITY_VALUES.includes(priority) ? priority : DEFAULT_FILTERS.priority,
+    tag: params.get('tag') || DEFAULT_FILTERS.tag,
+    assignee: params.get('assignee') || DEFAULT_FILTERS.assignee,
+    showArchived: params.get('archived') === '1',
+  };
+  return {
+    filters,
+    viewId: params.get('view'),
+    hasFilters: ['q', 'status', 'priority', 'tag', 'assignee', 'archived'].some(key => params.has(key)),
+  };
+};
+
+const writeUrl = (filters: DashboardFilters, viewId: string | null) => {
+  const params = new URLSearchParams(window.location.search);
+  const set = (key: string, value: string | null) => value ? params.set(key, value) : params.delete(key);
+  set('view', viewId);
+  set('q', filters.searchQuery);
+  set('status', filters.status !== DEFAULT_FILTERS.status ? filters.status : null);
+  set('priority', filters.priority !== DEFAULT_FILTERS.priority ? filters.priority : null);
+  set('tag', filters.tag !== DEFAULT_FILTERS.tag ? filters.tag : null);
+  set('assignee', filters.assignee !== DEFAULT_FILTERS.assignee ? filters.assignee : null);
+  set('archived', filters.showArchived ? '1' : null);
+  const query = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+};
+
+/**
+ * The dashboard filters and the active saved view, mirrored to the URL query string so the
+ * current view can be bookmarked. `urlHasFilters` tells whether the URL spelled out filters of its
+ * own, which then take precedence over the filters stored in the linked view.
+ */
+export const useDashboardFilters = () => {
+  const [initial] = useState(readUrl);
+  const [filters, setFilters] = useState<DashboardFilters>(initial.filters);
+  const [activeViewId, setActiveViewId] = useState<string | null>(initial.viewId);
+
+  useEffect(() => {
+    writeUrl(filters, activeViewId);
+  }, [filters, activeViewId]);
+
+  return { filters, setFilters, activeViewId, setActiveViewId, urlHasFilters: initial.hasFilters };
+};
@@ -1,5 +1,5 @@
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 
 function useLocalStorage<T,>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
   const [storedValue, setStoredValue] = useState<T>(() => {
@@ -41,6 +41,7 @@ interface UndoableState<T> {
     state: T;
     setState: (newState: T | ((prevState: T) => T)) => void;
     resetState: (newState: T) => void;
+    rebaseState: (update: (state: T, isCurrent: boolean) => T) => void;
     undo: () => void;
     redo: () => void;
     canUndo: boolean;
@@ -52,51 +53,66 @@ export const useUndoableState = <T,>(initialState: T): UndoableState<T> => {
   const [currentIndex, setCurrentIndex] = useState(0);
 
   const state = history[currentIndex];
+  // Updates resolve against the latest history, not the one of the render that created the callback,
+  // so a callback kept by a timer or listener cannot write back stale state
+  const historyRef = useRef({ history, currentIndex });
+  historyRef.current = { history, currentIndex };
 
   const setState = useCallback((newState: T | ((prevState: T) => T)) => {
+    const { history: latestHistory, currentIndex: latestIndex } = historyRef.current;
+    const latestState = latestHistory[latestIndex];
     const resolvedState = typeof newState === 'function' 
-      ? (newState as (prevState: T) => T)(state) 
+      ? (newState as (prevState: T) => T)(latestState) 
       : newState;
     
     // Simple deep-ish comparison to avoid re-saving identical state
-    if (JSON.stringify(resolvedState) === JSON.stringify(state)) {
+    if (JSON.stringify(resolvedState) === JSON.stringify(latestState)) {
       return;
     }
 
-    const newHistory = history.slice(0, currentIndex + 1);
+    const newHistory = latestHistory.slice(0, latestIndex + 1);
     newHistory.push(resolvedState);
     
     // Limit history size to prevent memory issues
     if (newHistory.length > 50) {
         newHistory.shift();
-        setCurrentIndex(newHistory.length - 1);
-    } else {
-        setCurrentIndex(newHistory.length - 1);
     }
+    historyRef.current = { history: newHistory, currentIndex: newHistory.length - 1 };
+    setCurrentIndex(newHistory.length - 1);
     setHistory(newHistory);
-
-
-  }, [currentIndex, history, state]);
+  }, []);
 
   const undo = useCallback(() => {
     if (currentIndex > 0) {
+      historyRef.current = { history, currentIndex: currentIndex - 1 };
       setCurrentIndex(currentIndex - 1);
     }
-  }, [currentIndex]);
+  }, [currentIndex, history]);
 
   const redo = useCallback(() => {
     if (currentIndex < history.length - 1) {
+      historyRef.current = { history, currentIndex: currentIndex + 1 };
       setCurrentIndex(currentIndex + 1);
     }
-  }, [currentIndex, history.length]);
+  }, [currentIndex, history]);
   
   const resetState = useCallback((newState: T) => {
+    historyRef.current = { history: [newState], currentIndex: 0 };
     setHistory([newState]);
     setCurrentIndex(0);
   }, []);
 
+  // Applies a change made elsewhere, e.g. in another tab, to every step of the history, so undo and
+  // redo keep it and move through this tab's own edits only
+  const rebaseState = useCallback((update: (state: T, isCurrent: boolean) => T) => {
+    const { history: latestHistory, currentIndex: latestIndex } = historyRef.current;
+    const newHistory = latestHistory.map((entry, index) => update(entry, index === latestIndex));
+    historyRef.current = { history: newHistory, currentIndex: latestIndex };
+    setHistory(newHistory);
+  }, []);
+
   const canUndo = currentIndex > 0;
   const canRedo = currentIndex < history.length - 1;
 
-  return { state, setState, undo, redo, canUndo, canRedo, resetState };
+  return { state, setState, undo, redo, canUndo, canRedo, resetState, rebaseState };
 };
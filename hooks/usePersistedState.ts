@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from '../types';
+import { StorageAdapter } from '../storage/storageAdapter';
+import { createTabId, readRevision, bumpRevision, withSaveLock, onOtherTabSaved } from '../storage/tabSync';
+
+/**
+ * Loads the workspace from a storage adapter once on mount and writes it back on every update.
+ * Until `isLoaded` is true, `persistedState` holds `initialValue`. If loading fails, `loadError`
+ * says why and `persistedState` must not be saved over what could not be read. `persistedState`
+ * changes only once a save has succeeded; when one fails, `saveError` says why until the next
+ * save succeeds.
+ *
+ * Other tabs open on the same workspace save to the same storage. When one of them does, the
+ * saved data is loaded and handed to `onRemoteSave` together with `base`, the state this tab last
+ * loaded or saved, so the caller can merge it into its live state. A save that finds another
+ * tab's newer data does the same instead of writing over it; the merged state is saved next.
+ */
+export const usePersistedState = (adapter: StorageAdapter, initialValue: AppState, onRemoteSave: (remoteState: AppState, base: AppState) => void) => {
+  const [persistedState, setPersistedStateValue] = useState<AppState>(initialValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isLoadingRemote, setIsLoadingRemote] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const tabId = useRef(createTabId()).current;
+  const knownRevision = useRef(0); // The revision that `baseRef` holds
+  const baseRef = useRef<AppState>(initialValue);
+  const onRemoteSaveRef = useRef(onRemoteSave);
+  onRemoteSaveRef.current = onRemoteSave;
+
+  useEffect(() => {
+    let isCancelled = false;
+    knownRevision.current = readRevision().revision;
+    adapter.load()
+      .then(loadedState => {
+        if (isCancelled) return;
+        if (loadedState) {
+          setPersistedStateValue(loadedState);
+          baseRef.current = loadedState;
+        }
+        setIsLoaded(true);
+      })
+      .catch(error => {
+        console.error(error);
+        if (isCancelled) return;
+        setLoadError((error as Error).message);
+        setIsLoaded(true);
+      });
+    return () => { isCancelled = true; };
+  }, [adapter]);
+
+  const loadRemote = useCallback(async () => {
+    setIsLoadingRemote(true);
+    try {
+      const revision = readRevision().revision;
+      const remoteState = await adapter.load();
+      if (!remoteState) return;
+      const base = baseRef.current;
+      knownRevision.current = revision;
+      baseRef.current = remoteState;
+      setPersistedStateValue(remoteState);
+      onRemoteSaveRef.current(remoteState, base);
+    } finally {
+      setIsLoadingRemote(false);
+    }
+  }, [adapter]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    return onOtherTabSaved(saved => {
+      if (saved.revision !== knownRevision.current) withSaveLock(loadRemote).catch(error => console.error(error));
+    });
+  }, [isLoaded, loadRemote]);
+
+  const setPersistedState = useCallback((newState: AppState) => {
+    withSaveLock(async () => {
+      if (readRevision().revision !== knownRevision.current) return loadRemote();
+      await adapter.save(newState);
+      knownRevision.current = bumpRevision(tabId);
+      baseRef.current = newState;
+      setPersistedStateValue(newState);
+      setSaveError(null);
+    }).catch(error => {
+      console.error(error);
+      setSaveError((error as Error).message);
+    });
+  }, [adapter, loadRemote, tabId]);
+
+  return { persistedState, setPersistedState, isLoaded, isLoadingRemote, loadError, saveError };
+};
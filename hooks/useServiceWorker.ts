@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000; // The app is often left open for days
+
+/**
+ * Registers the service worker that makes the app work offline, and reports when a new version has
+ * been downloaded. The new version takes over only when `applyUpdate` is called, which then
+ * reloads the page.
+ */
+export const useServiceWorker = () => {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const isApplying = useRef(false);
+
+  useEffect(() => {
+    const scriptUrl = process.env.SERVICE_WORKER;
+    if (!scriptUrl || !('serviceWorker' in navigator)) return;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    // The first worker installed on a page without one is not an update
+    const handleWaiting = (worker: ServiceWorker | null) => {
+      if (worker && navigator.serviceWorker.controller) setWaitingWorker(worker);
+    };
+
+    navigator.serviceWorker.register(scriptUrl)
+      .then(registration => {
+        handleWaiting(registration.waiting);
+        registration.addEventListener('updatefound', () => {
+          const worker = registration.installing;
+          worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed') handleWaiting(worker);
+          });
+        });
+        interval = setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL);
+      })
+      .catch(error => console.error('Service worker registration failed:', error));
+
+    const handleControllerChange = () => {
+      if (isApplying.current) window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    return () => {
+      clearInterval(interval);
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    isApplying.current = true;
+    // Another tab may have applied the update already; then this one only needs to reload
+    if (waitingWorker.state === 'activated') window.location.reload();
+    else waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  const dismissUpdate = useCallback(() => setWaitingWorker(null), []);
+
+  return { isUpdateAvailable: waitingWorker !== null, applyUpdate, dismissUpdate };
+};
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from '../types';
+import useLocalStorage from './useLocalStorage';
+import { EntityChange } from '../storage/syncEntities';
+import { SyncSettings, DEFAULT_SYNC_SETTINGS, createSyncClient } from '../storage/syncProtocol';
+import {
+  SyncMetadata, PendingChange, EntitySnapshot, EMPTY_SYNC_METADATA, loadSyncMetadata, saveSyncMetadata, snapshotEntities, patchSnapshot,
+  queueLocalChanges, runSync, resolveSyncConflict,
+} from '../storage/syncEngine';
+
+const SYNC_INTERVAL = 30 * 1000;
+const PUSH_DELAY = 2000; // After a local change, so a burst of edits goes out together
+
+// 'off': sync is not set up; 'pending': changes are waiting to go out, being exchanged, or held for review
+export type SyncStatus = 'off' | 'synced' | 'pending' | 'error';
+
+/**
+ * Syncs the workspace with the server set up in the sync settings. Only one tab syncs at a time:
+ * the others save to the same storage, so their changes reach it through the tab merge.
+ *
+ * Local changes are found by comparing `state` with the last snapshot of it and queued until they
+ * are pushed, which survives reloads and time offline. Changes from the server are handed to
+ * `onRemoteChanges` to apply to the live state.
+ */
+export const useSync = (state: AppState, isReady: boolean, onRemoteChanges: (changes: EntityChange[]) => void) => {
+  const [settings, setSettings] = useLocalStorage<SyncSettings>('focusflow_sync_settings', DEFAULT_SYNC_SETTINGS);
+  const [meta, setMetaValue] = useState<SyncMetadata>(loadSyncMetadata);
+  const [isLeader, setIsLeader] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const metaRef = useRef(meta);
+  const snapshotRef = useRef<EntitySnapshot | null>(null);
+  const isSyncingRef = useRef(false);
+  const onRemoteChangesRef = useRef(onRemoteChanges);
+  onRemoteChangesRef.current = onRemoteChanges;
+
+  const setMeta = useCallback((next: SyncMetadata) => {
+    metaRef.current = next;
+    saveSyncMetadata(next);
+    setMetaValue(next);
+  }, []);
+
+  const applyRemote = useCallback((changes: EntityChange[]) => {
+    if (snapshotRef.current) snapshotRef.current = patchSnapshot(snapshotRef.current, changes);
+    onRemoteChangesRef.current(changes);
+  }, []);
+
+  // The tab holding the lock syncs; when it closes, the lock passes to another tab
+  useEffect(() => {
+    if (!settings.enabled) return;
+    if (!navigator.locks) {
+      setIsLeader(true);
+      return () => setIsLeader(false);
+    }
+    const controller = new AbortController();
+    let release = () => {};
+    navigator.locks.request('focusflow_sync_leader', { signal: controller.signal }, () => {
+      setIsLeader(true);
+      return new Promise<void>(resolve => { release = resolve; });
+    }).catch(() => {}); // Aborted while waiting
+    return () => {
+      controller.abort();
+      release();
+      setIsLeader(false);
+      snapshotRef.current = null;
+    };
+  }, [settings.enabled]);
+
+  // The syncing tab writes the metadata; the others follow it to show the status
+  useEffect(() => {
+    if (isLeader) return;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === 'focusflow_sync_state') {
+        metaRef.current = loadSyncMetadata();
+        setMetaValue(metaRef.current);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [isLeader]);
+
+  const isActive = settings.enabled && isLeader && isReady;
+
+  // Without a snapshot, i.e. when this tab starts syncing or the server changed, everything not yet synced is queued
+  useEffect(() => {
+    if (!isActive) return;
+    const snapshot = snapshotEntities(state);
+    const next = queueLocalChanges(metaRef.current, snapshotRef.current, snapshot, new Date().toISOString());
+    snapshotRef.current = snapshot;
+    if (next !== metaRef.current) setMeta(next);
+  }, [isActive, state, settings.serverUrl, setMeta]);
+
+  const syncNow = useCallback(async () => {
+    if (!isActive || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      await runSync({ getMeta: () => metaRef.current, setMeta, applyRemote }, createSyncClient(settings));
+      setError(null);
+    } catch (syncError) {
+      console.error(syncError);
+      setError((syncError as Error).message);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [isActive, settings, setMeta, applyRemote]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_INTERVAL);
+    window.addEventListener('online', syncNow);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [isActive, syncNow]);
+
+  const readyCount = Object.values(meta.queue).filter((change: PendingChange) => !change.isHeld).length;
+  useEffect(() => {
+    if (!isActive || readyCount === 0) return;
+    const timer = setTimeout(syncNow, PUSH_DELAY);
+    return () => clearTimeout(timer);
+  }, [isActive, readyCount, meta.queue, syncNow]);
+
+  // Starting over with another server: what was synced with the old one says nothing about the new one
+  const updateSettings = useCallback((next: SyncSettings) => {
+    if (next.serverUrl.trim() !== settings.serverUrl.trim()) {
+      snapshotRef.current = null;
+      setMeta(EMPTY_SYNC_METADATA);
+    }
+    setError(null);
+    setSettings(next);
+  }, [settings, setSettings, setMeta]);
+
+  const resolveConflict = useCallback((key: string, choice: 'mine' | 'theirs') => {
+    const { meta: next, change } = resolveSyncConflict(metaRef.current, key, choice);
+    setMeta(next);
+    if (change) applyRemote([change]);
+  }, [setMeta, applyRemote]);
+
+  const pendingCount = Object.keys(meta.queue).length;
+  const status: SyncStatus = !settings.enabled ? 'off'
+    : error ? 'error'
+    : pendingCount > 0 || isSyncing || meta.conflicts.length > 0 ? 'pending'
+    : 'synced';
+
+  return { settings, updateSettings, status, error, isLeader, isSyncing, pendingCount, conflicts: meta.conflicts, lastSyncedAt: meta.lastSyncedAt, syncNow, resolveConflict };
+};
@@ -0,0 +1,179 @@
+// Reference sync server for FocusFlow; see docs/sync-protocol.md.
+//
+// Keeps every record, including deleted ones, in a single JSON file and needs nothing beyond Node:
+//
+//   SYNC_TOKEN=secret node server/sync-server.mjs
+//
+// PORT (default 8787), HOST (default 127.0.0.1, this machine only), SYNC_DATA_FILE (default
+// ./focusflow-sync.json), SYNC_TOKEN (required unless SYNC_ALLOW_NO_TOKEN=1) and SYNC_ALLOWED_ORIGINS
+// are read from the environment.
+import { createServer } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || 'focusflow-sync.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+// Web pages from these origins may call the server. Without a list, any page may when a token is
+// required (it cannot know the token), and none may when it is not.
+const ALLOWED_ORIGINS = (process.env.SYNC_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const COLLECTIONS = new Set(['profiles', 'projects', 'tasks', 'comments', 'activity', 'savedViews', 'timeEntries', 'taskHistory', 'settings']);
+const MAX_BATCH = 500;
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Profile pictures are stored as data URLs
+
+class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const loadStore = async () => {
+    try {
+        return JSON.parse(await readFile(DATA_FILE, 'utf-8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return { revision: 0, records: {} };
+        throw error;
+    }
+};
+
+if (!TOKEN && process.env.SYNC_ALLOW_NO_TOKEN !== '1') {
+    console.error('Set SYNC_TOKEN to the token devices must send. To run without one, set SYNC_ALLOW_NO_TOKEN=1: then anyone who can reach the server can read and change the workspace.');
+    process.exit(1);
+}
+
+const store = await loadStore();
+
+// Written to a temporary file first, so a crash mid-write cannot leave a damaged data file
+const saveStore = async (data) => {
+    const temporaryFile = `${DATA_FILE}.tmp`;
+    await writeFile(temporaryFile, JSON.stringify(data));
+    await rename(temporaryFile, DATA_FILE);
+};
+
+// Requests are handled one at a time, so a push is checked and written as a whole
+let queue = Promise.resolve();
+const serialize = (task) => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+};
+
+const readBody = (request) => new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+    request.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body is too large.'));
+            request.destroy();
+        } else chunks.push(chunk);
+    });
+    request.on('end', () => {
+        try {
+            resolveBody(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch {
+            reject(new HttpError(400, 'Request body is not valid JSON.'));
+        }
+    });
+    request.on('error', reject);
+});
+
+const pull = (url) => {
+    const since = Number(url.searchParams.get('since') || 0);
+    const limit = Math.min(Number(url.searchParams.get('limit')) || MAX_BATCH, MAX_BATCH);
+    if (!Number.isInteger(since) || since < 0) throw new HttpError(400, '"since" must be a revision number.');
+    const newer = Object.values(store.records).filter(record => record.revision > since).sort((a, b) => a.revision - b.revision);
+    const changes = newer.slice(0, limit);
+    const hasMore = newer.length > limit;
+    return { changes, revision: hasMore ? changes[changes.length - 1].revision : store.revision, hasMore };
+};
+
+const isValidChange = (change) =>
+    change && COLLECTIONS.has(change.collection) && typeof change.id === 'string' && change.id !== ''
+    && Number.isInteger(change.baseRevision) && typeof change.updatedAt === 'string'
+    && (change.deleted === true || (change.data !== null && typeof change.data === 'object'));
+
+const push = async (body) => {
+    const changes = body?.changes;
+    if (!Array.isArray(changes)) throw new HttpError(400, '"changes" must be a list.');
+    if (changes.length > MAX_BATCH) throw new HttpError(413, `At most ${MAX_BATCH} changes can be pushed at once.`);
+    const invalid = changes.findIndex(change => !isValidChange(change));
+    if (invalid !== -1) throw new HttpError(400, `Change ${invalid + 1} is not a valid change.`);
+
+    // Changes are applied to a copy that replaces the store once it is on disk, so a failed write
+    // leaves nothing behind that clients could pull or conflict with
+    const next = { revision: store.revision, records: { ...store.records } };
+    const results = changes.map(change => {
+        const key = `${change.collection}:${change.id}`;
+        const current = next.records[key];
+        if (current && current.revision > change.baseRevision) {
+            return { collection: change.collection, id: change.id, status: 'conflict', current };
+        }
+        const revision = ++next.revision;
+        next.records[key] = {
+            collection: change.collection,
+            id: change.id,
+            revision,
+            updatedAt: change.updatedAt,
+            deleted: Boolean(change.deleted),
+            data: change.deleted ? null : change.data,
+        };
+        return { collection: change.collection, id: change.id, status: 'applied', revision };
+    });
+    if (results.some(result => result.status === 'applied')) {
+        await saveStore(next);
+        store.revision = next.revision;
+        store.records = next.records;
+    }
+    return { results, revision: store.revision };
+};
+
+const corsHeaders = (request) => {
+    const origin = request.headers.origin;
+    const allowOrigin = ALLOWED_ORIGINS.length > 0
+        ? (ALLOWED_ORIGINS.includes(origin) ? origin : null)
+        : (TOKEN ? '*' : null);
+    if (!allowOrigin) return {};
+    return {
+        'Access-Control-Allow-Origin': allowOrigin,
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Vary': 'Origin',
+    };
+};
+
+const send = (request, response, status, body) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders(request) });
+    response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const server = createServer(async (request, response) => {
+    const url = new URL(request.url, 'http://localhost');
+    try {
+        if (request.method === 'OPTIONS') return send(request, response, 204);
+        if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) throw new HttpError(401, 'Missing or wrong access token.');
+        const route = `${request.method} ${url.pathname}`;
+        switch (route) {
+            case 'GET /sync/status':
+                return send(request, response, 200, { revision: store.revision });
+            case 'GET /sync/pull':
+                return send(request, response, 200, await serialize(() => pull(url)));
+            case 'POST /sync/push': {
+                const body = await readBody(request);
+                return send(request, response, 200, await serialize(() => push(body)));
+            }
+            default:
+                throw new HttpError(404, `No route for ${route}.`);
+        }
+    } catch (error) {
+        if (!(error instanceof HttpError)) console.error(error);
+        send(request, response, error.status || 500, { error: error instanceof HttpError ? error.message : 'Internal server error.' });
+    }
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`FocusFlow sync server listening on http://${HOST}:${PORT}, storing data in ${DATA_FILE}`);
+    if (!TOKEN) console.warn('No SYNC_TOKEN is set: anyone who can reach the server can read and change the workspace.');
+});
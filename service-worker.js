@@ -0,0 +1,57 @@
+// Service worker template. The build fills in the files to precache and a cache version that
+// changes with them (see vite.config.ts), so every release installs as a new worker.
+const CACHE_VERSION = '__CACHE_VERSION__';
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const APP_CACHE = `focusflow-app-${CACHE_VERSION}`;
+// Google's chart library cannot be bundled, so it is kept from the last time it loaded
+const CHARTS_CACHE = 'focusflow-charts';
+const CHARTS_ORIGIN = 'https://www.gstatic.com';
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(APP_CACHE).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name.startsWith('focusflow-app-') && name !== APP_CACHE).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// A new version waits until the user chooses to reload, so open tabs keep the version they started with
+self.addEventListener('message', event => {
+    if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const fromCharts = async request => {
+    const cache = await caches.open(CHARTS_CACHE);
+    const cached = await cache.match(request);
+    const fetched = fetch(request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    if (!cached) return fetched;
+    fetched.catch(() => {}); // Refreshed in the background; offline the cached copy is all there is
+    return cached;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (url.origin === CHARTS_ORIGIN && url.pathname.startsWith('/charts/')) {
+        event.respondWith(fromCharts(request));
+        return;
+    }
+    if (url.origin !== self.location.origin) return; // e.g. a sync server
+
+    // The app has a single page, so every navigation gets the cached shell
+    if (request.mode === 'navigate') {
+        event.respondWith(caches.match('index.html', { cacheName: APP_CACHE }).then(cached => cached || fetch(request)));
+        return;
+    }
+    event.respondWith(caches.match(request, { cacheName: APP_CACHE }).then(cached => cached || fetch(request)));
+});
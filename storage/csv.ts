@@ -0,0 +1,343 @@
+import { AppState, Project, Task, TaskStatus, TaskPriority } from '../types';
+import { getAncestors } from '../utils/taskTree';
+import { getAssignees } from '../utils/assignees';
+import { Timesheet } from '../utils/timeTracking';
+
+// Spreadsheet export and import of tasks (RFC 4180 CSV).
+
+export const PARENT_PATH_SEPARATOR = ' > ';
+
+const EXPORT_HEADERS = ['ID', 'Project', 'Parent Path', 'Title', 'Status', 'Priority', 'Start Date', 'Due Date', 'Tags', 'Assignees', 'Description'];
+
+// Spreadsheets run a cell that starts with one of these as a formula; an apostrophe makes it plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCell = (raw: string) => {
+    const value = FORMULA_START.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// The byte order mark makes spreadsheet applications read the file as UTF-8
+const toCsv = (rows: string[][]) => '\uFEFF' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+const toDateCell = (date: string | null) => date ? date.slice(0, 10) : '';
+
+export const buildTasksCsv = (tasks: Task[], projects: Project[]): string => {
+    const projectById = new Map<string, Project>(projects.map(p => [p.id, p]));
+    const taskById = new Map<string, Task>(tasks.map(t => [t.id, t]));
+    const rows = tasks.map(t => [
+        t.id,
+        projectById.get(t.projectId)?.name || '',
+        getAncestors(t, taskById).map(a => a.title).join(PARENT_PATH_SEPARATOR),
+        t.title,
+        t.status,
+        t.priority,
+        toDateCell(t.startDate),
+        toDateCell(t.dueDate),
+        t.tags.join(', '),
+        getAssignees(t, projectById.get(t.projectId)?.members || []).map(m => m.name).join(', '),
+        t.description,
+    ]);
+    return toCsv([EXPORT_HEADERS, ...rows]);
+};
+
+const toHours = (ms: number) => (ms / (60 * 60 * 1000)).toFixed(2);
+
+// One row per task with hours per day, followed by one total row per project
+export const buildTimesheetCsv = (timesheet: Timesheet): string => {
+    const header = ['Project', 'Task', ...timesheet.days, 'Total'];
+    const taskRows = timesheet.rows.map(row => [row.project.name, row.task.title, ...row.days.map(toHours), toHours(row.total)]);
+    const projectIds = Array.from(new Set(timesheet.rows.map(r => r.project.id)));
+    const projectRows = projectIds.map(projectId => {
+        const rows = timesheet.rows.filter(r => r.project.id === projectId);
+        const days = timesheet.days.map((_, i) => rows.reduce((sum, r) => sum + r.days[i], 0));
+        return [rows[0].project.name, 'Project total', ...days.map(toHours), toHours(days.reduce((a, b) => a + b, 0))];
+    });
+    return toCsv([header, ...taskRows, ...projectRows]);
+};
+
+export interface CsvTable {
+    headers: string[];
+    rows: string[][];
+}
+
+// Spreadsheets in some locales export with semicolons or tabs, so the delimiter is detected from the header line
+const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/)[0];
+    const counts = [',', ';', '\t'].map(d => ({ d, count: firstLine.split(d).length }));
+    return counts.reduce((best, c) => c.count > best.count ? c : best).d;
+};
+
+export const parseCsv = (text: string): CsvTable => {
+    const content = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(content);
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else cell += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            record.push(cell);
+            records.push(record);
+            record = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || record.length > 0) {
+        record.push(cell);
+        records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(c => c.trim() !== ''));
+    if (nonEmpty.length === 0) throw new Error('The file is empty.');
+    // Drops the apostrophe the export puts before formula-like values
+    const [headers, ...rows] = nonEmpty.map(r => r.map(c => c.startsWith("'") && FORMULA_START.test(c.slice(1)) ? c.slice(1) : c));
+    return { headers: headers.map(h => h.trim()), rows };
+};
+
+export type CsvField = 'ignore' | 'id' | 'title' | 'description' | 'status' | 'priority' | 'startDate' | 'dueDate' | 'tags' | 'project' | 'parent';
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+    ignore: "Don't import",
+    id: 'Row ID (for parent references)',
+    title: 'Title',
+    description: 'Description',
+    status: 'Status',
+    priority: 'Priority',
+    startDate: 'Start Date',
+    dueDate: 'Due Date',
+    tags: 'Tags',
+    project: 'Project Name',
+    parent: 'Parent (ID, title or path)',
+};
+
+export interface CsvMapping {
+    columns: CsvField[]; // One entry per header
+    statusValues: Record<string, TaskStatus>; // Keyed by the lower-cased cell text
+    priorityValues: Record<string, TaskPriority>;
+    projectId: string; // Where tasks without a (known) project go
+}
+
+const headerGuesses: [RegExp, CsvField][] = [
+    [/^(id|key|row ?id|task ?id)$/i, 'id'],
+    [/parent/i, 'parent'],
+    [/^(title|name|task|summary|subject)/i, 'title'],
+    [/desc|notes?|details/i, 'description'],
+    [/status|state/i, 'status'],
+    [/prio|importance|urgency/i, 'priority'],
+    [/start/i, 'startDate'],
+    [/due|deadline|end/i, 'dueDate'],
+    [/tags?|labels?|categor/i, 'tags'],
+    [/project|list/i, 'project'],
+];
+
+const guessField = (header: string): CsvField => headerGuesses.find(([pattern]) => pattern.test(header))?.[1] || 'ignore';
+
+export const guessStatus = (text: string): TaskStatus => {
+    if (/done|complete|closed|finished|resolved/i.test(text)) return TaskStatus.Done;
+    if (/progress|doing|started|active|review|wip/i.test(text)) return TaskStatus.InProgress;
+    return TaskStatus.ToDo;
+};
+
+export const guessPriority = (text: string): TaskPriority => {
+    if (/high|urgent|critical|blocker|^p[01]$/i.test(text)) return TaskPriority.High;
+    if (/low|minor|trivial|^p[34]$/i.test(text)) return TaskPriority.Low;
+    return TaskPriority.Medium;
+};
+
+// The distinct, lower-cased values of the first column mapped to a field
+export const getDistinctValues = (table: CsvTable, columns: CsvField[], field: CsvField): string[] => {
+    const index = columns.indexOf(field);
+    if (index === -1) return [];
+    return Array.from(new Set(table.rows.map(r => (r[index] || '').trim().toLowerCase()).filter(Boolean)));
+};
+
+export const guessCsvMapping = (table: CsvTable, projectId: string): CsvMapping => {
+    const columns: CsvField[] = [];
+    table.headers.forEach(header => {
+        const field = guessField(header);
+        // Each field can only be fed by one column
+        columns.push(field !== 'ignore' && columns.includes(field) ? 'ignore' : field);
+    });
+    const statusValues: Record<string, TaskStatus> = {};
+    getDistinctValues(table, columns, 'status').forEach(v => { statusValues[v] = guessStatus(v); });
+    const priorityValues: Record<string, TaskPriority> = {};
+    getDistinctValues(table, columns, 'priority').forEach(v => { priorityValues[v] = guessPriority(v); });
+    return { columns, statusValues, priorityValues, projectId };
+};
+
+// Accepts ISO dates and anything else the browser can parse; stored as UTC midnight like dates from TaskForm
+const parseDateCell = (value: string): string | null => {
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) return new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3])).toISOString();
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())).toISOString();
+};
+
+export interface CsvImportResult {
+    tasks: Task[];
+    warnings: string[];
+}
+
+/**
+ * Turns mapped rows into new tasks. A parent cell can hold the row ID of another row, the title of
+ * a task, or a path of titles joined with " > " (as written by the export); parents are looked up
+ * among the imported rows first and then among the existing tasks of the row's project.
+ */
+export const buildCsvImport = (current: AppState, table: CsvTable, mapping: CsvMapping): CsvImportResult => {
+    const now = Date.now();
+    const warnings: string[] = [];
+    const cell = (row: string[], field: CsvField) => {
+        const index = mapping.columns.indexOf(field);
+        return index === -1 ? '' : (row[index] || '').trim();
+    };
+    const rowLabel = (index: number) => `Row ${index + 2}`; // Spreadsheet row numbers, counting the header
+
+    const projectByName = new Map<string, Project>(current.projects.map(p => [p.name.toLowerCase(), p]));
+    const rows = table.rows
+        .map((row, index) => ({ row, index, id: `task_${now}_${index}`, title: cell(row, 'title') }))
+        .filter(r => {
+            if (!r.title) warnings.push(`${rowLabel(r.index)} has no title and was skipped.`);
+            return !!r.title;
+        });
+    const rowByKey = new Map<string, typeof rows[number]>();
+    rows.forEach(r => {
+        const key = cell(r.row, 'id');
+        if (key && !rowByKey.has(key)) rowByKey.set(key, r);
+    });
+
+    const rowProject = new Map<number, string>();
+    rows.forEach(r => {
+        const name = cell(r.row, 'project');
+        const project = name ? projectByName.get(name.toLowerCase()) : undefined;
+        if (name && !project) warnings.push(`${rowLabel(r.index)}: project "${name}" does not exist; the task goes into the selected project.`);
+        rowProject.set(r.index, project ? project.id : mapping.projectId);
+    });
+
+    // Resolved lazily so that rows can reference parents further down the file
+    const parentOf = new Map<number, { id: string, projectId: string } | null>();
+    const resolving = new Set<number>();
+    const resolveParent = (r: typeof rows[number]): { id: string, projectId: string } | null => {
+        if (parentOf.has(r.index)) return parentOf.get(r.index)!;
+        const value = cell(r.row, 'parent');
+        if (!value || resolving.has(r.index)) return null;
+        resolving.add(r.index);
+
+        let parent: { id: string, projectId: string } | null = null;
+        const keyed = rowByKey.get(value);
+        if (keyed && keyed !== r) {
+            parent = { id: keyed.id, projectId: resolveParent(keyed)?.projectId || rowProject.get(keyed.index)! };
+        } else {
+            const projectId = rowProject.get(r.index)!;
+            const findByPath = (segments: string[]) => {
+                let found: { id: string, projectId: string } | null = null;
+                for (const segment of segments.map(s => s.trim().toLowerCase())) {
+                    const parentId: string | null = found ? found.id : null;
+                    const fromFile = rows.find(o => o !== r && o.title.toLowerCase() === segment && (resolveParent(o)?.id || null) === parentId);
+                    const existing = fromFile ? undefined : current.tasks.find(t => t.projectId === (found ? found.projectId : projectId) && t.title.toLowerCase() === segment && t.parentId === parentId);
+                    if (fromFile) found = { id: fromFile.id, projectId: resolveParent(fromFile)?.projectId || rowProject.get(fromFile.index)! };
+                    else if (existing) found = { id: existing.id, projectId: existing.projectId };
+                    else return null;
+                }
+                return found;
+            };
+            // A top-level title may itself contain the separator, so the whole value is tried as one first
+            const segments = value.split(PARENT_PATH_SEPARATOR);
+            parent = findByPath([value]) || (segments.length > 1 ? findByPath(segments) : null);
+        }
+        if (!parent) warnings.push(`${rowLabel(r.index)}: parent "${value}" was not found; the task is imported at the top level.`);
+        resolving.delete(r.index);
+        parentOf.set(r.index, parent);
+        return parent;
+    };
+
+    // Rows can name each other as parents in a loop, which would leave none of them at the top level.
+    // The row that closes a loop is imported at the top level instead.
+    rows.forEach(r => resolveParent(r));
+    const rowById = new Map<string, typeof rows[number]>(rows.map(r => [r.id, r]));
+    const checked = new Set<number>();
+    rows.forEach(start => {
+        const path = new Set<number>();
+        let r: typeof rows[number] | undefined = start;
+        while (r && !checked.has(r.index)) {
+            path.add(r.index);
+            const parent = parentOf.get(r.index);
+            const parentRow = parent ? rowById.get(parent.id) : undefined;
+            if (parentRow && path.has(parentRow.index)) {
+                warnings.push(`${rowLabel(r.index)}: parent "${cell(r.row, 'parent')}" would make the task its own ancestor; the task is imported at the top level.`);
+                parentOf.set(r.index, null);
+                break;
+            }
+            r = parentRow;
+        }
+        path.forEach(index => checked.add(index));
+    });
+    // Projects follow the parent chain, now that it has no loops
+    const projectOf = (r: typeof rows[number]): string => {
+        const parent = parentOf.get(r.index);
+        if (!parent) return rowProject.get(r.index)!;
+        const parentRow = rowById.get(parent.id);
+        return parentRow ? projectOf(parentRow) : parent.projectId;
+    };
+
+    const nextOrder = new Map<string, number>();
+    const takeOrder = (projectId: string, parentId: string | null) => {
+        const key = `${projectId}:${parentId}`;
+        if (!nextOrder.has(key)) {
+            nextOrder.set(key, current.tasks.filter(t => t.projectId === projectId && t.parentId === parentId).reduce((max, t) => Math.max(t.order, max), -1) + 1);
+        }
+        const order = nextOrder.get(key)!;
+        nextOrder.set(key, order + 1);
+        return order;
+    };
+
+    const tasks = rows.map(r => {
+        const parent = parentOf.get(r.index) ?? null;
+        const projectId = projectOf(r);
+        const dates = (['startDate', 'dueDate'] as const).map(field => {
+            const value = cell(r.row, field);
+            const date = value ? parseDateCell(value) : null;
+            if (value && !date) warnings.push(`${rowLabel(r.index)}: "${value}" is not a date and was ignored.`);
+            return date;
+        });
+        const task: Task = {
+            id: r.id,
+            projectId,
+            parentId: parent ? parent.id : null,
+            title: r.title,
+            description: cell(r.row, 'description'),
+            status: mapping.statusValues[cell(r.row, 'status').toLowerCase()] || TaskStatus.ToDo,
+            priority: mapping.priorityValues[cell(r.row, 'priority').toLowerCase()] || TaskPriority.Medium,
+            startDate: dates[0],
+            dueDate: dates[1],
+            tags: cell(r.row, 'tags').split(/[,;]/).map(t => t.trim()).filter(Boolean),
+            dependsOn: [],
+            recurrence: null,
+            estimate: null,
+            remaining: null,
+            assigneeIds: [],
+            createdBy: null,
+            isFocused: false,
+            createdAt: new Date().toISOString(),
+            order: takeOrder(projectId, parent ? parent.id : null),
+        };
+        return task;
+    });
+
+    return { tasks, warnings };
+};
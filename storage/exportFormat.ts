@@ -0,0 +1,120 @@
+import { AppState, Project, Task, FocusPlan, TimeEntry, PomodoroSettings, TaskSnapshot } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { remapActivityEvent } from '../utils/activity';
+
+export const APP_VERSION = process.env.APP_VERSION || 'unknown';
+
+export type ExportFormat = 'focusflow-workspace' | 'focusflow-project';
+
+export interface ExportMetadata {
+    format: ExportFormat;
+    schemaVersion: number;
+    exportedAt: string;
+    appVersion: string;
+}
+
+// Project exports leave out the focus plan and Pomodoro settings, which span the whole workspace. The
+// running timer is never exported.
+export type ExportFile = ExportMetadata & Omit<AppState, 'schemaVersion' | 'focusPlan' | 'activeTimer' | 'pomodoroSettings'> & { focusPlan?: FocusPlan, pomodoroSettings?: PomodoroSettings };
+
+const buildMetadata = (format: ExportFormat): ExportMetadata => ({
+    format,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    appVersion: APP_VERSION,
+});
+
+// The complete workspace, including comments and activity, so a backup restores everything.
+export const buildWorkspaceExport = (state: AppState): ExportFile => ({
+    ...buildMetadata('focusflow-workspace'),
+    profiles: state.profiles,
+    projects: state.projects,
+    tasks: state.tasks,
+    comments: state.comments,
+    activityLog: state.activityLog,
+    savedViews: state.savedViews,
+    focusPlan: state.focusPlan,
+    timeEntries: state.timeEntries,
+    pomodoroSettings: state.pomodoroSettings,
+    taskHistory: state.taskHistory,
+});
+
+export const buildProjectExport = (state: AppState, projectId: string): ExportFile => ({
+    ...buildMetadata('focusflow-project'),
+    // Only the profiles its members are linked to, so they look the same after import
+    profiles: state.profiles.filter(profile => state.projects.some(p => p.id === projectId && p.members.some(m => m.profileId === profile.id))),
+    projects: state.projects.filter(p => p.id === projectId),
+    tasks: state.tasks.filter(t => t.projectId === projectId),
+    comments: state.comments[projectId] ? { [projectId]: state.comments[projectId] } : {},
+    activityLog: state.activityLog[projectId] ? { [projectId]: state.activityLog[projectId] } : {},
+    savedViews: [], // Views span the whole workspace
+    timeEntries: state.timeEntries.filter(e => state.tasks.some(t => t.id === e.taskId && t.projectId === projectId)),
+    taskHistory: state.taskHistory.filter(s => s.projectId === projectId),
+});
+
+/**
+ * Adds the projects of a single-project export to an existing workspace. Projects whose ID is
+ * already taken are brought in as copies with fresh IDs for the project and all of its tasks.
+ */
+export const mergeProjectImport = (current: AppState, imported: AppState): { state: AppState, importedProjects: Project[] } => {
+    const now = Date.now();
+    let idCounter = 0;
+    const existingProjectIds = new Set(current.projects.map(p => p.id));
+    const existingTaskIds = new Set(current.tasks.map(t => t.id));
+
+    const projectIdMap = new Map<string, string>(imported.projects.map(p => [p.id, existingProjectIds.has(p.id) ? `proj_${now}_${idCounter++}` : p.id]));
+    const renumberTasks = imported.tasks.some(t => existingTaskIds.has(t.id) || projectIdMap.get(t.projectId) !== t.projectId);
+    const taskIdMap = new Map<string, string>(imported.tasks.map(t => [t.id, renumberTasks ? `task_${now}_${idCounter++}` : t.id]));
+    const mapTaskId = (id: string) => taskIdMap.get(id) || id;
+
+    let nextOrder = current.projects.reduce((max, p) => Math.max(p.order, max), -1) + 1;
+    const importedProjects = imported.projects.map((p): Project => ({ ...p, id: projectIdMap.get(p.id)!, order: nextOrder++ }));
+    const importedTasks = imported.tasks.map((t): Task => ({
+        ...t,
+        id: mapTaskId(t.id),
+        projectId: projectIdMap.get(t.projectId) || t.projectId,
+        parentId: t.parentId ? mapTaskId(t.parentId) : null,
+        dependsOn: t.dependsOn.map(mapTaskId),
+    }));
+
+    const existingEntryIds = new Set(current.timeEntries.map(e => e.id));
+    const importedEntries = imported.timeEntries.map((e): TimeEntry => ({
+        ...e,
+        id: existingEntryIds.has(e.id) ? `time_${now}_${idCounter++}` : e.id,
+        taskId: mapTaskId(e.taskId),
+    }));
+
+    // History of tasks that were renumbered follows them; snapshots from other projects are left behind
+    const importedHistory = imported.taskHistory.map((s, i): TaskSnapshot => ({
+        ...s,
+        id: `hist_${now}_${i}`,
+        taskId: mapTaskId(s.taskId),
+        projectId: projectIdMap.get(s.projectId) || s.projectId,
+    }));
+
+    const comments = { ...current.comments };
+    const activityLog = { ...current.activityLog };
+    imported.projects.forEach(p => {
+        const newId = projectIdMap.get(p.id)!;
+        if (imported.comments[p.id]) comments[newId] = imported.comments[p.id].map(c => ({ ...c, projectId: newId, taskId: c.taskId ? mapTaskId(c.taskId) : null }));
+        if (imported.activityLog[p.id]) activityLog[newId] = imported.activityLog[p.id].map(l => ({ ...l, event: remapActivityEvent(l.event, mapTaskId, id => projectIdMap.get(id) || id) }));
+    });
+
+    // Profiles are shared by every project, so ones that already exist here are kept as they are
+    const existingProfileIds = new Set(current.profiles.map(p => p.id));
+    const importedProfiles = imported.profiles.filter(p => !existingProfileIds.has(p.id));
+
+    return {
+        state: {
+            ...current,
+            profiles: [...current.profiles, ...importedProfiles],
+            projects: [...current.projects, ...importedProjects],
+            tasks: [...current.tasks, ...importedTasks],
+            comments,
+            activityLog,
+            timeEntries: [...current.timeEntries, ...importedEntries],
+            taskHistory: [...current.taskHistory, ...importedHistory],
+        },
+        importedProjects,
+    };
+};
@@ -0,0 +1,351 @@
+import { AppState, Project, Task, TaskStatus, TaskPriority, ActivityEvent } from '../types';
+import { APP_VERSION } from './exportFormat';
+import { createNextRecurrence } from '../utils/recurrence';
+
+// RFC 5545 export and import of task dates.
+
+export type CalendarComponent = 'VEVENT' | 'VTODO';
+
+const UID_DOMAIN = 'focusflow';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const todoStatuses: Record<TaskStatus, string> = {
+    [TaskStatus.ToDo]: 'NEEDS-ACTION',
+    [TaskStatus.InProgress]: 'IN-PROCESS',
+    [TaskStatus.Done]: 'COMPLETED',
+};
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const priorities: Record<TaskPriority, number> = {
+    [TaskPriority.High]: 1,
+    [TaskPriority.Medium]: 5,
+    [TaskPriority.Low]: 9,
+};
+
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) => text.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N') ? '\n' : char);
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space
+const foldLine = (line: string): string => {
+    const bytes = new TextEncoder().encode(line);
+    if (bytes.length <= 75) return line;
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const charBytes = new TextEncoder().encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + charBytes > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += charBytes;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const taskUid = (task: Task) => `${task.id}@${UID_DOMAIN}`;
+
+const buildComponent = (task: Task, project: Project | undefined, component: CalendarComponent, stamp: string): string[] => {
+    const lines = [
+        `BEGIN:${component}`,
+        `UID:${taskUid(task)}`,
+        `DTSTAMP:${stamp}`,
+        `CREATED:${formatDateTime(new Date(task.createdAt))}`,
+        `SUMMARY:${escapeText(task.title)}`,
+    ];
+    if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+
+    if (component === 'VTODO') {
+        if (task.startDate) lines.push(`DTSTART;VALUE=DATE:${formatDate(new Date(task.startDate))}`);
+        if (task.dueDate) lines.push(`DUE;VALUE=DATE:${formatDate(new Date(task.dueDate))}`);
+        lines.push(`STATUS:${todoStatuses[task.status]}`);
+    } else {
+        // All-day events: DTEND is exclusive, so it is the day after the last day
+        const start = new Date((task.startDate || task.dueDate)!);
+        const end = new Date((task.dueDate || task.startDate)!);
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(start)}`);
+        lines.push(`DTEND;VALUE=DATE:${formatDate(new Date(Math.max(end.getTime(), start.getTime()) + DAY_MS))}`);
+        lines.push('TRANSP:TRANSPARENT');
+    }
+
+    lines.push(`PRIORITY:${priorities[task.priority]}`);
+    lines.push(`X-FOCUSFLOW-STATUS:${task.status}`);
+    const categories = [project?.name, ...task.tags].filter((c): c is string => !!c);
+    if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+    lines.push(`END:${component}`);
+    return lines;
+};
+
+export const buildCalendar = (tasks: Task[], projects: Project[], component: CalendarComponent, calendarName: string): string => {
+    const stamp = formatDateTime(new Date());
+    const projectById = new Map<string, Project>(projects.map(p => [p.id, p]));
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:-//FocusFlow//FocusFlow ${APP_VERSION}//EN`,
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        ...tasks
+            .filter(t => t.startDate || t.dueDate)
+            .flatMap(t => buildComponent(t, projectById.get(t.projectId), component, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+const parseContentLine = (line: string): ContentLine | null => {
+    // The value starts at the first colon that is not inside a quoted parameter value
+    let inQuotes = false;
+    let colonIndex = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) { colonIndex = i; break; }
+    }
+    if (colonIndex === -1) return null;
+    const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+        const [key, value = ''] = part.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+// Milliseconds the zone's wall clock is ahead of UTC at the given instant, or null for an unknown zone
+const zoneOffset = (timeZone: string, time: number): number | null => {
+    let format: Intl.DateTimeFormat;
+    try {
+        format = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric' });
+    } catch {
+        return null;
+    }
+    const parts = Object.fromEntries(format.formatToParts(new Date(time)).map(part => [part.type, +part.value]));
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(time / 1000) * 1000;
+};
+
+// Accepts DATE (20240131) and DATE-TIME (20240131T090000[Z]) values. Times with a TZID are read in
+// that zone; floating times, and zones the browser does not know, are read in the local zone.
+const parseDateValue = (line: ContentLine): Date | null => {
+    const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+    if (!match) return null;
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    if (!hours) return new Date(Date.UTC(+year, +month - 1, +day));
+    const asUtc = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds);
+    if (utc) return new Date(asUtc);
+    const timeZone = line.params.TZID;
+    const offset = timeZone ? zoneOffset(timeZone, asUtc) : null;
+    if (offset === null) return new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+    // The offset may differ on the other side of a daylight saving change, so it is checked again
+    const guess = asUtc - offset;
+    return new Date(asUtc - (zoneOffset(timeZone, guess) ?? offset));
+};
+
+const isDateOnly = (line: ContentLine) => line.params.VALUE === 'DATE' || /^\d{8}$/.test(line.value);
+
+// Task dates are stored as UTC midnight of the calendar day
+const toTaskDate = (date: Date, dateOnly: boolean) => dateOnly
+    ? date.toISOString()
+    : new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())).toISOString();
+
+export interface CalendarItem {
+    uid: string | null;
+    title: string;
+    description: string;
+    status: TaskStatus;
+    priority: TaskPriority;
+    startDate: string | null;
+    dueDate: string | null;
+    categories: string[];
+}
+
+const statusFromCalendar = (props: Map<string, ContentLine>): TaskStatus => {
+    const ownStatus = props.get('X-FOCUSFLOW-STATUS')?.value;
+    if (Object.values(TaskStatus).includes(ownStatus as TaskStatus)) return ownStatus as TaskStatus;
+    switch (props.get('STATUS')?.value.toUpperCase()) {
+        case 'COMPLETED': return TaskStatus.Done;
+        case 'IN-PROCESS': return TaskStatus.InProgress;
+        default: return TaskStatus.ToDo;
+    }
+};
+
+const priorityFromCalendar = (value: string | undefined): TaskPriority => {
+    const priority = parseInt(value || '0');
+    if (priority >= 1 && priority <= 4) return TaskPriority.High;
+    if (priority >= 6 && priority <= 9) return TaskPriority.Low;
+    return TaskPriority.Medium;
+};
+
+export const parseCalendar = (text: string): CalendarItem[] => {
+    const unfolded = text.replace(/\r?\n[ \t]/g, '');
+    if (!/^BEGIN:VCALENDAR/im.test(unfolded)) throw new Error('The file is not an iCalendar (.ics) file.');
+
+    const items: CalendarItem[] = [];
+    let current: { component: CalendarComponent, props: Map<string, ContentLine> } | null = null;
+
+    unfolded.split(/\r?\n/).forEach(rawLine => {
+        const line = parseContentLine(rawLine);
+        if (!line) return;
+        if (line.name === 'BEGIN' && (line.value === 'VEVENT' || line.value === 'VTODO')) {
+            current = { component: line.value, props: new Map() };
+        } else if (line.name === 'END' && current && line.value === current.component) {
+            const { component, props } = current;
+            current = null;
+            const summary = props.get('SUMMARY');
+            const start = props.get('DTSTART');
+            const end = props.get(component === 'VTODO' ? 'DUE' : 'DTEND');
+            const startDate = start ? parseDateValue(start) : null;
+            let endDate = end ? parseDateValue(end) : null;
+            // All-day event ends are exclusive
+            if (component === 'VEVENT' && end && endDate && isDateOnly(end)) endDate = new Date(endDate.getTime() - DAY_MS);
+            if (component === 'VEVENT' && !endDate && startDate) endDate = startDate;
+            items.push({
+                uid: props.get('UID')?.value || null,
+                title: summary ? unescapeText(summary.value) : 'Untitled',
+                description: props.get('DESCRIPTION') ? unescapeText(props.get('DESCRIPTION')!.value) : '',
+                status: statusFromCalendar(props),
+                priority: priorityFromCalendar(props.get('PRIORITY')?.value),
+                startDate: start && startDate ? toTaskDate(startDate, isDateOnly(start)) : null,
+                dueDate: end && endDate ? toTaskDate(endDate, isDateOnly(end)) : (startDate && start ? toTaskDate(startDate, isDateOnly(start)) : null),
+                categories: (props.get('CATEGORIES')?.value.match(/(\\.|[^,])+/g) || []).map(c => unescapeText(c).trim()).filter(Boolean),
+            });
+        } else if (current) {
+            // Later occurrences of a property (e.g. several CATEGORIES lines) are merged
+            const existing = current.props.get(line.name);
+            current.props.set(line.name, existing && line.name === 'CATEGORIES' ? { ...line, value: `${existing.value},${line.value}` } : line);
+        }
+    });
+    return items;
+};
+
+// Recovers the FocusFlow task ID from a UID, or derives a stable ID for events created elsewhere
+export const taskIdFromUid = (uid: string): string => {
+    if (uid.endsWith(`@${UID_DOMAIN}`)) return uid.slice(0, -(UID_DOMAIN.length + 1));
+    return `task_ics_${uid.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+};
+
+// Existing tasks that calendar items would update, with the item that applies last
+export const findCalendarUpdates = (current: AppState, items: CalendarItem[]): { task: Task, item: CalendarItem }[] => {
+    const taskById = new Map<string, Task>(current.tasks.map(t => [t.id, t]));
+    const updates = new Map<string, { task: Task, item: CalendarItem }>();
+    items.forEach(item => {
+        const task = item.uid ? taskById.get(taskIdFromUid(item.uid)) : undefined;
+        if (task) updates.set(task.id, { task, item });
+    });
+    return Array.from(updates.values());
+};
+
+export interface CalendarImportOptions {
+    skipTaskIds: Set<string>; // Existing tasks the import must leave alone, e.g. in projects the user cannot edit
+    keepStatusIds: Set<string>; // Existing tasks that keep their status, e.g. blocked tasks the user chose not to start
+}
+
+export interface CalendarStatusChange {
+    projectId: string;
+    event: Extract<ActivityEvent, { type: 'task.status_changed' }>;
+}
+
+/**
+ * Applies calendar items to the workspace. Items whose UID maps to an existing task update that task
+ * in place (wherever it lives); all others become new top-level tasks in the target project. Status
+ * changes of existing tasks are returned for the activity log, and completing a recurring task
+ * creates its next occurrence as it does on the board.
+ */
+export const mergeCalendarImport = (current: AppState, items: CalendarItem[], projectId: string, options: CalendarImportOptions):
+    { state: AppState, created: number, updated: number, skipped: number, statusChanges: CalendarStatusChange[] } => {
+    const now = Date.now();
+    const projectNames = new Set(current.projects.map(p => p.name));
+    const taskById = new Map<string, Task>(current.tasks.map(t => [t.id, t]));
+    const changes = new Map<string, Task>();
+    let nextOrder = current.tasks
+        .filter(t => t.projectId === projectId && !t.parentId)
+        .reduce((max, t) => Math.max(t.order, max), -1) + 1;
+    let created = 0;
+    const skipped = new Set<string>();
+
+    items.forEach((item, index) => {
+        const id = item.uid ? taskIdFromUid(item.uid) : `task_${now}_${index}`;
+        if (options.skipTaskIds.has(id) && taskById.has(id)) {
+            skipped.add(id);
+            return;
+        }
+        const fields = {
+            title: item.title,
+            description: item.description,
+            status: item.status,
+            priority: item.priority,
+            startDate: item.startDate,
+            dueDate: item.dueDate,
+            // The project name is exported as a category; it is not a tag
+            tags: item.categories.filter(c => !projectNames.has(c)),
+        };
+        const existing = changes.get(id) || taskById.get(id);
+        if (existing) {
+            changes.set(id, { ...existing, ...fields, status: options.keepStatusIds.has(id) ? existing.status : fields.status });
+        } else {
+            created++;
+            changes.set(id, {
+                ...fields,
+                id,
+                projectId,
+                parentId: null,
+                dependsOn: [],
+                recurrence: null,
+                estimate: null,
+                remaining: null,
+                assigneeIds: [],
+                createdBy: null,
+                isFocused: false,
+                createdAt: new Date().toISOString(),
+                order: nextOrder++,
+            });
+        }
+    });
+
+    const statusChanges: CalendarStatusChange[] = [];
+    const nextOccurrences: Task[] = [];
+    changes.forEach((task, id) => {
+        const before = taskById.get(id);
+        if (!before || before.status === task.status) return;
+        const recurrence = task.status === TaskStatus.Done ? createNextRecurrence(task, current.tasks, `task_${now}_next${statusChanges.length}`) : null;
+        if (recurrence) {
+            changes.set(id, { ...task, recurrence: null });
+            nextOccurrences.push(...recurrence.nextTasks);
+        }
+        statusChanges.push({
+            projectId: before.projectId,
+            event: {
+                type: 'task.status_changed', taskId: id, title: task.title, from: before.status, to: task.status,
+                nextTaskId: recurrence ? recurrence.nextTasks[0].id : null, nextDueDate: recurrence ? recurrence.nextDueDate : null,
+            },
+        });
+    });
+
+    const updatedTasks = current.tasks.map(t => changes.get(t.id) || t);
+    const newTasks = Array.from(changes.values()).filter(t => !taskById.has(t.id));
+    return {
+        state: { ...current, tasks: [...updatedTasks, ...newTasks, ...nextOccurrences] },
+        created,
+        updated: changes.size - created,
+        skipped: skipped.size,
+        statusChanges,
+    };
+};
@@ -0,0 +1,293 @@
+import { AppState, Project, Task, Comment, ActivityLog, TimeEntry, TaskSnapshot, TaskStatus, TaskPriority, ProjectRole } from '../types';
+import { migrateAppState } from './migrations';
+import { ExportMetadata } from './exportFormat';
+import { createFocusPlan } from '../utils/focusPlan';
+import { DEFAULT_POMODORO_SETTINGS } from '../utils/timeTracking';
+import { ACTIVITY_EVENT_LABELS } from '../utils/activity';
+
+export type ImportMode = 'skip' | 'repair';
+export type ImportRecordType = 'project' | 'task' | 'comment' | 'activity' | 'timeEntry';
+
+export interface ImportIssue {
+    severity: 'error' | 'warning';
+    recordType: ImportRecordType;
+    recordId: string;
+    recordLabel: string;
+    message: string;
+}
+
+export interface ImportPreview {
+    kind: 'workspace' | 'project'; // A workspace replaces everything; a project is added to the current workspace
+    data: AppState;
+    issues: ImportIssue[];
+    exportedAt: string | null;
+    appVersion: string | null;
+}
+
+const isEnumValue = (enumObject: Record<string, string>, value: unknown) => Object.values(enumObject).includes(value as string);
+const isIsoDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value));
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isFocusPlan = (value: any) => typeof value?.date === 'string' && Array.isArray(value.order) && Array.isArray(value.carriedOver);
+const isPomodoroSettings = (value: any) => typeof value?.enabled === 'boolean' && value.workMinutes > 0 && value.breakMinutes > 0;
+const isEstimate = (value: unknown) => value === null || (typeof value === 'number' && isFinite(value) && value >= 0);
+const isTaskSnapshot = (value: any) => isNonEmptyString(value?.id) && isNonEmptyString(value.taskId) && isNonEmptyString(value.projectId)
+    && isIsoDate(value.timestamp) && isEnumValue(TaskStatus, value.status) && isEstimate(value.estimate) && isEstimate(value.remaining);
+const isActivityEvent = (value: any) => typeof value?.type === 'string' && value.type in ACTIVITY_EVENT_LABELS;
+const isUserProfile = (value: any) => isNonEmptyString(value?.id) && isNonEmptyString(value?.name) && typeof value.initials === 'string' && typeof value.color === 'string'
+    && (value.avatarDataUrl === null || (typeof value.avatarDataUrl === 'string' && value.avatarDataUrl.startsWith('data:image/')));
+const isSavedView = (value: any) => isNonEmptyString(value?.id) && isNonEmptyString(value?.name) && !!value.filters && typeof value.filters === 'object';
+
+/**
+ * Checks every record of a migrated workspace. With no mode it only reports; with 'skip' it drops
+ * records that have errors (and anything that depends on them); with 'repair' it fixes what it can.
+ * Warnings never cause records to be dropped.
+ */
+const checkWorkspace = (data: AppState, mode: ImportMode | null): { data: AppState, issues: ImportIssue[] } => {
+    const issues: ImportIssue[] = [];
+    const now = new Date().toISOString();
+    let idCounter = 0;
+    const newId = (prefix: string) => `${prefix}_${Date.now()}_${idCounter++}`;
+
+    // Runs a set of checks against one record. `error`/`warning` record an issue and apply the repair in repair mode.
+    const checkRecord = <T,>(recordType: ImportRecordType, record: T, getId: (r: T) => string, getLabel: (r: T) => string, checks: (error: (message: string, repair: () => void) => void, warning: (message: string, repair: () => void) => void) => void): boolean => {
+        let hasError = false;
+        const add = (severity: ImportIssue['severity']) => (message: string, repair: () => void) => {
+            issues.push({ severity, recordType, recordId: getId(record), recordLabel: getLabel(record), message });
+            if (severity === 'error') hasError = true;
+            if (mode === 'repair') repair();
+        };
+        checks(add('error'), add('warning'));
+        return hasError;
+    };
+
+    // Projects
+    const projects: Project[] = [];
+    const projectIds = new Set<string>();
+    (data.projects as any[]).forEach((raw, index) => {
+        const p = { ...raw };
+        const hasError = checkRecord('project', p, r => String(r.id ?? `#${index + 1}`), r => isNonEmptyString(r.name) ? r.name : `Project #${index + 1}`, (error, warning) => {
+            if (!isNonEmptyString(p.id)) error('Missing project ID.', () => { p.id = newId('proj'); });
+            else if (projectIds.has(p.id)) error(`Duplicate project ID "${p.id}".`, () => { p.id = newId('proj'); });
+            if (!isNonEmptyString(p.name)) error('Missing project name.', () => { p.name = 'Untitled project'; });
+            if (!isEnumValue(TaskPriority, p.priority)) error(`Invalid priority "${p.priority}".`, () => { p.priority = TaskPriority.Medium; });
+            if (!isIsoDate(p.createdAt)) error(`Invalid creation date "${p.createdAt}".`, () => { p.createdAt = now; });
+            if (typeof p.order !== 'number') warning('Missing sort order.', () => { p.order = index; });
+            if (!Array.isArray(p.tags)) warning('Tags are not a list.', () => { p.tags = []; });
+            if (p.estimateUnit !== 'hours' && p.estimateUnit !== 'points') warning(`Invalid estimate unit "${p.estimateUnit}".`, () => { p.estimateUnit = 'hours'; });
+            if (p.startDate !== null && !isIsoDate(p.startDate)) warning(`Invalid start date "${p.startDate}".`, () => { p.startDate = null; });
+            if (p.targetDate !== null && !isIsoDate(p.targetDate)) warning(`Invalid target date "${p.targetDate}".`, () => { p.targetDate = null; });
+            if (!Array.isArray(p.members)) {
+                error('Members are not a list.', () => { p.members = []; });
+            } else {
+                p.members.forEach((m: any) => {
+                    if (!isEnumValue(ProjectRole, m?.role)) error(`Member "${m?.name}" has invalid role "${m?.role}".`, () => {
+                        p.members = p.members.map((member: any) => member === m ? { ...m, role: ProjectRole.Viewer } : member);
+                    });
+                    if (m?.profileId !== null && !data.profiles.some(profile => profile.id === m?.profileId)) warning(`Member "${m?.name}" is linked to a profile that does not exist.`, () => {
+                        p.members = p.members.map((member: any) => member.id === m.id ? { ...member, profileId: null } : member);
+                    });
+                });
+            }
+        });
+        if (hasError && mode === 'skip') return;
+        projectIds.add(p.id);
+        projects.push(p);
+    });
+
+    // Tasks: fields and project references
+    let recoveryProject: Project | null = null;
+    let tasks: Task[] = [];
+    const taskIds = new Set<string>();
+    const taskLabel = (t: any) => isNonEmptyString(t.title) ? t.title : `Task ${t.id ?? ''}`.trim();
+    (data.tasks as any[]).forEach((raw, index) => {
+        const t = { ...raw };
+        const hasError = checkRecord('task', t, r => String(r.id ?? `#${index + 1}`), taskLabel, (error, warning) => {
+            if (!isNonEmptyString(t.id)) error('Missing task ID.', () => { t.id = newId('task'); });
+            else if (taskIds.has(t.id)) error(`Duplicate task ID "${t.id}".`, () => { t.id = newId('task'); });
+            if (!isNonEmptyString(t.title)) error('Missing task title.', () => { t.title = 'Untitled task'; });
+            if (!isEnumValue(TaskStatus, t.status)) error(`Invalid status "${t.status}".`, () => { t.status = TaskStatus.ToDo; });
+            if (!isEnumValue(TaskPriority, t.priority)) error(`Invalid priority "${t.priority}".`, () => { t.priority = TaskPriority.Medium; });
+            if (!isIsoDate(t.createdAt)) error(`Invalid creation date "${t.createdAt}".`, () => { t.createdAt = now; });
+            if (t.startDate !== null && !isIsoDate(t.startDate)) error(`Invalid start date "${t.startDate}".`, () => { t.startDate = null; });
+            if (t.dueDate !== null && !isIsoDate(t.dueDate)) error(`Invalid due date "${t.dueDate}".`, () => { t.dueDate = null; });
+            if (!projectIds.has(t.projectId)) error(`Belongs to a project that does not exist ("${t.projectId}").`, () => {
+                if (!recoveryProject) {
+                    recoveryProject = {
+                        id: newId('proj'), name: 'Recovered Tasks', description: 'Tasks whose project was missing from an imported file.',
+                        createdAt: now, tags: [], order: projects.length, priority: TaskPriority.Medium, isArchived: false,
+                        color: '#334155', members: [], goals: [], links: [], estimateUnit: 'hours', startDate: null, targetDate: null,
+                    };
+                }
+                t.projectId = recoveryProject.id;
+                t.parentId = null;
+            });
+            if (typeof t.description !== 'string') warning('Missing description.', () => { t.description = ''; });
+            if (typeof t.order !== 'number') warning('Missing sort order.', () => { t.order = index; });
+            if (typeof t.isFocused !== 'boolean') warning('Missing focus flag.', () => { t.isFocused = false; });
+            if (!Array.isArray(t.tags)) warning('Tags are not a list.', () => { t.tags = []; });
+            if (!Array.isArray(t.dependsOn)) warning('Dependencies are not a list.', () => { t.dependsOn = []; });
+            if (!Array.isArray(t.assigneeIds)) warning('Assignees are not a list.', () => { t.assigneeIds = []; });
+            if (!isEstimate(t.estimate)) warning(`Invalid estimate "${t.estimate}".`, () => { t.estimate = null; });
+            if (!isEstimate(t.remaining)) warning(`Invalid remaining effort "${t.remaining}".`, () => { t.remaining = null; });
+        });
+        if (hasError && mode === 'skip') return;
+        taskIds.add(t.id);
+        tasks.push(t);
+    });
+    if (recoveryProject) projects.push(recoveryProject);
+
+    // Tasks: parent references
+    const taskById = new Map<string, Task>();
+    tasks.forEach(t => { if (!taskById.has(t.id)) taskById.set(t.id, t); }); // Duplicates are only kept when reporting
+    const droppedTaskIds = new Set<string>();
+    tasks.forEach(t => {
+        if (t.parentId === null || t.parentId === undefined) return;
+        const parent = taskById.get(t.parentId);
+        const hasError = checkRecord('task', t, r => r.id, taskLabel, (error) => {
+            if (!parent) error(`Parent task "${t.parentId}" does not exist.`, () => { t.parentId = null; });
+            else if (parent.projectId !== t.projectId) error(`Parent task "${parent.title}" is in a different project.`, () => { t.parentId = null; });
+        });
+        if (hasError && mode === 'skip') droppedTaskIds.add(t.id);
+    });
+
+    // Tasks: parent cycles
+    const reportedInCycle = new Set<string>();
+    tasks.forEach(start => {
+        const path: Task[] = [];
+        let current: Task | undefined = start;
+        while (current && current.parentId && !path.includes(current)) {
+            path.push(current);
+            current = taskById.get(current.parentId);
+        }
+        if (current !== start || path.length === 0 || reportedInCycle.has(start.id)) return;
+        path.forEach(t => reportedInCycle.add(t.id));
+        checkRecord('task', start, r => r.id, taskLabel, (error) => {
+            error(`Parent chain loops back to itself (${path.map(t => `"${t.title}"`).join(' → ')}).`, () => { start.parentId = null; });
+        });
+        if (mode === 'skip') path.forEach(t => droppedTaskIds.add(t.id));
+    });
+
+    // In skip mode, sub-tasks of dropped tasks go with them
+    if (mode === 'skip' && droppedTaskIds.size > 0) {
+        let changed = true;
+        while (changed) {
+            changed = false;
+            tasks.forEach(t => {
+                if (t.parentId && droppedTaskIds.has(t.parentId) && !droppedTaskIds.has(t.id)) {
+                    droppedTaskIds.add(t.id);
+                    changed = true;
+                }
+            });
+        }
+        tasks = tasks.filter(t => !droppedTaskIds.has(t.id));
+    }
+
+    // Dependencies
+    const keptTaskIds = new Set(tasks.map(t => t.id));
+    tasks.forEach(t => {
+        const missing = (t.dependsOn || []).filter(id => !keptTaskIds.has(id));
+        if (missing.length === 0) return;
+        if (mode === 'skip') {
+            t.dependsOn = t.dependsOn.filter(id => keptTaskIds.has(id));
+            return;
+        }
+        checkRecord('task', t, r => r.id, taskLabel, (_error, warning) => {
+            warning(`Depends on ${missing.length} task(s) that do not exist.`, () => { t.dependsOn = t.dependsOn.filter(id => keptTaskIds.has(id)); });
+        });
+    });
+
+    // Comments and activity, keyed by project
+    const keptProjectIds = new Set(projects.map(p => p.id));
+    const checkProjectLists = <T extends { id: string }>(recordType: ImportRecordType, lists: Record<string, T[]>, getDate: (item: T) => unknown, setDate: (item: T, date: string) => T, checkItem?: (item: T) => { message: string, fixed: T } | null): Record<string, T[]> => {
+        const result: Record<string, T[]> = {};
+        Object.entries(lists || {}).forEach(([projectId, items]) => {
+            if (!Array.isArray(items)) return;
+            if (!keptProjectIds.has(projectId)) {
+                checkRecord(recordType, projectId, id => id, () => `${items.length} ${recordType} entries`, (_error, warning) => {
+                    warning(`Attached to a project that does not exist ("${projectId}") and will be dropped.`, () => undefined);
+                });
+                if (mode === null) result[projectId] = items;
+                return;
+            }
+            result[projectId] = items.map(item => {
+                let fixed = item;
+                checkRecord(recordType, item, r => String(r?.id), r => String(r?.id), (_error, warning) => {
+                    const problem = checkItem?.(item);
+                    if (problem) warning(problem.message, () => { fixed = problem.fixed; });
+                    if (!isIsoDate(getDate(item))) warning(`Invalid date "${getDate(item)}".`, () => { fixed = setDate(fixed, now); });
+                });
+                return fixed;
+            });
+        });
+        return result;
+    };
+    const comments = checkProjectLists<Comment>('comment', data.comments, c => c.createdAt, (c, date) => ({ ...c, createdAt: date }), c => {
+        if (c.taskId !== null && !keptTaskIds.has(c.taskId)) return { message: `On a task that does not exist ("${c.taskId}"); it will be kept as a project comment.`, fixed: { ...c, taskId: null } };
+        if (!Array.isArray(c.mentions)) return { message: 'Mentions are not a list.', fixed: { ...c, mentions: [] } };
+        return null;
+    });
+    const activityLog = checkProjectLists<ActivityLog>('activity', data.activityLog, l => l.timestamp, (l, date) => ({ ...l, timestamp: date }),
+        l => isActivityEvent(l.event) ? null : { message: 'Unrecognized activity event; it will be kept as plain text.', fixed: { ...l, event: { type: 'legacy', text: String((l as any).action ?? 'Unknown activity') } } });
+
+    // Time entries. An entry without its task or with unusable times cannot be repaired and is dropped.
+    const timeEntries: TimeEntry[] = [];
+    (data.timeEntries as any[]).forEach((raw, index) => {
+        const entry = { ...raw };
+        let drop = false;
+        const hasError = checkRecord('timeEntry', entry, r => String(r.id ?? `#${index + 1}`), r => isNonEmptyString(r.note) ? r.note : `Entry ${r.id ?? `#${index + 1}`}`, (error, warning) => {
+            if (!keptTaskIds.has(entry.taskId)) error(`Logged on a task that does not exist ("${entry.taskId}").`, () => { drop = true; });
+            if (!isIsoDate(entry.start) || !isIsoDate(entry.end)) error(`Invalid time range "${entry.start}" – "${entry.end}".`, () => { drop = true; });
+            else if (Date.parse(entry.end) < Date.parse(entry.start)) error('Ends before it starts.', () => { drop = true; });
+            if (!isNonEmptyString(entry.id)) warning('Missing entry ID.', () => { entry.id = newId('time'); });
+            if (typeof entry.note !== 'string') warning('Missing note.', () => { entry.note = ''; });
+        });
+        if ((hasError && mode === 'skip') || drop) return;
+        timeEntries.push(entry);
+    });
+
+    if (mode === null) return { data, issues };
+    return { data: { ...data, projects, tasks, comments, activityLog, timeEntries }, issues };
+};
+
+/**
+ * Parses and migrates an import file and reports every problem found in it.
+ * Throws when the file is not a FocusFlow export at all, or comes from a newer schema.
+ */
+export const prepareImport = (text: string): ImportPreview => {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!json || typeof json !== 'object' || !Array.isArray(json.projects) || !Array.isArray(json.tasks)) {
+        throw new Error('Invalid file format: expected "projects" and "tasks" lists.');
+    }
+    const metadata: Partial<ExportMetadata> = json;
+    const migrated = migrateAppState(json);
+    // Keep only workspace fields so export metadata does not end up in the app state
+    const data: AppState = {
+        schemaVersion: migrated.schemaVersion,
+        profiles: Array.isArray(migrated.profiles) ? migrated.profiles.filter(isUserProfile) : [],
+        projects: migrated.projects,
+        tasks: migrated.tasks,
+        comments: migrated.comments,
+        activityLog: migrated.activityLog,
+        savedViews: Array.isArray(migrated.savedViews) ? migrated.savedViews.filter(isSavedView) : [],
+        focusPlan: isFocusPlan(migrated.focusPlan) ? migrated.focusPlan : createFocusPlan(migrated.tasks),
+        timeEntries: Array.isArray(migrated.timeEntries) ? migrated.timeEntries : [],
+        activeTimer: null, // A timer belongs to the device it was started on
+        pomodoroSettings: isPomodoroSettings(migrated.pomodoroSettings) ? migrated.pomodoroSettings : DEFAULT_POMODORO_SETTINGS,
+        // Snapshots of deleted tasks are kept on purpose; they end the task's line in the burndown chart
+        taskHistory: Array.isArray(migrated.taskHistory) ? migrated.taskHistory.filter(isTaskSnapshot).map((s: TaskSnapshot) => ({ ...s, isDeleted: !!s.isDeleted })) : [],
+    };
+    return {
+        kind: metadata.format === 'focusflow-project' ? 'project' : 'workspace',
+        data,
+        issues: checkWorkspace(data, null).issues,
+        exportedAt: typeof metadata.exportedAt === 'string' ? metadata.exportedAt : null,
+        appVersion: typeof metadata.appVersion === 'string' ? metadata.appVersion : null,
+    };
+};
+
+export const resolveImport = (preview: ImportPreview, mode: ImportMode): AppState => checkWorkspace(preview.data, mode).data;
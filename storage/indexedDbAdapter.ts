@@ -0,0 +1,224 @@
+import { AppState, Project, Task, Comment, ActivityLog, TimeEntry, TaskSnapshot } from '../types';
+import { StorageAdapter } from './storageAdapter';
+
+const DB_NAME = 'focusflow';
+const DB_VERSION = 3;
+
+const STORES = {
+    projects: 'projects',
+    tasks: 'tasks',
+    comments: 'comments',
+    activity: 'activity',
+    timeEntries: 'timeEntries',
+    taskHistory: 'taskHistory',
+    meta: 'meta',
+} as const;
+
+// Comments and activity entries are stored by their position in the project's list. Their IDs are
+// timestamp-based and not guaranteed to be unique, and the position keeps the original ordering.
+interface CommentRecord { projectId: string; index: number; comment: Comment; }
+interface ActivityRecord { projectId: string; index: number; log: ActivityLog; }
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+export const BLOCKED_UPGRADE_MESSAGE = 'FocusFlow is open in another tab that runs an older version. Close that tab, then reload this one.';
+
+// `onClose` is called when a newer version of the app needs the database upgraded and this connection is closed for it
+const openDatabase = (onClose: () => void): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+            db.createObjectStore(STORES.projects, { keyPath: 'id' });
+            const tasks = db.createObjectStore(STORES.tasks, { keyPath: 'id' });
+            tasks.createIndex('projectId', 'projectId');
+            db.createObjectStore(STORES.comments, { keyPath: ['projectId', 'index'] });
+            db.createObjectStore(STORES.activity, { keyPath: ['projectId', 'index'] });
+            db.createObjectStore(STORES.meta);
+        }
+        if (event.oldVersion < 2) {
+            db.createObjectStore(STORES.timeEntries, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+            db.createObjectStore(STORES.taskHistory, { keyPath: 'id' });
+        }
+    };
+    // Another tab holds a connection open and did not give it up for the upgrade
+    request.onblocked = () => reject(new Error(BLOCKED_UPGRADE_MESSAGE));
+    request.onsuccess = () => {
+        const db = request.result;
+        db.onversionchange = () => {
+            db.close();
+            onClose();
+        };
+        resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+});
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const writeEntities = <T extends { id: string }>(store: IDBObjectStore, next: T[], previous: T[]) => {
+    const previousById = new Map<string, T>(previous.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    next.forEach(item => {
+        if (!isSame(item, previousById.get(item.id))) store.put(item);
+    });
+    previous.forEach(item => {
+        if (!nextIds.has(item.id)) store.delete(item.id);
+    });
+};
+
+const writeProjectLists = <T, R>(
+    store: IDBObjectStore,
+    next: Record<string, T[]>,
+    previous: Record<string, T[]>,
+    toRecord: (projectId: string, index: number, item: T) => R,
+) => {
+    Object.entries(next).forEach(([projectId, items]) => {
+        const previousItems = previous[projectId] || [];
+        if (items === previousItems) return;
+        items.forEach((item, index) => {
+            if (!isSame(item, previousItems[index])) store.put(toRecord(projectId, index, item));
+        });
+        if (previousItems.length > items.length) {
+            store.delete(IDBKeyRange.bound([projectId, items.length], [projectId, previousItems.length - 1]));
+        }
+    });
+    Object.keys(previous).forEach(projectId => {
+        if (!(projectId in next)) store.delete(IDBKeyRange.bound([projectId, 0], [projectId, Infinity]));
+    });
+};
+
+const groupByProject = <R extends { projectId: string; index: number }, T>(records: R[], pick: (record: R) => T): Record<string, T[]> => {
+    return [...records]
+        .sort((a, b) => a.index - b.index)
+        .reduce((acc, record) => {
+            if (!acc[record.projectId]) acc[record.projectId] = [];
+            acc[record.projectId].push(pick(record));
+            return acc;
+        }, {} as Record<string, T[]>);
+};
+
+/**
+ * Stores projects, tasks, comments, activity, time entries and task history in separate object
+ * stores and only writes the entities that changed since the last save. Profiles, saved views, the
+ * focus plan, the running timer and the Pomodoro settings are small and kept whole in the meta store.
+ * On first use, data saved by the old single-key localStorage format is imported and the old key
+ * is removed.
+ */
+export const createIndexedDbAdapter = (legacyStorageKey?: string): StorageAdapter & { isAvailable: () => Promise<boolean> } => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getDatabase = () => dbPromise || (dbPromise = openDatabase(() => { dbPromise = null; }).catch(error => {
+        dbPromise = null; // Try again on the next load or save
+        throw error;
+    }));
+
+    // Saves are chained so they always reach the database in the order they were made
+    let pendingWrite: Promise<void> = Promise.resolve();
+    // What the database currently holds; a failed write leaves it untouched so the next save retries the changes
+    let lastWritten: AppState | null = null;
+
+    const writeState = async (next: AppState) => {
+        const db = await getDatabase();
+        const transaction = db.transaction(Object.values(STORES), 'readwrite');
+        const base: Omit<AppState, 'focusPlan' | 'activeTimer' | 'pomodoroSettings'> & Partial<AppState> = lastWritten || { schemaVersion: 0, profiles: [], projects: [], tasks: [], comments: {}, activityLog: {}, savedViews: [], timeEntries: [], taskHistory: [] };
+
+        writeEntities<Project>(transaction.objectStore(STORES.projects), next.projects, base.projects);
+        writeEntities<Task>(transaction.objectStore(STORES.tasks), next.tasks, base.tasks);
+        writeProjectLists<Comment, CommentRecord>(transaction.objectStore(STORES.comments), next.comments, base.comments, (projectId, index, comment) => ({ projectId, index, comment }));
+        writeProjectLists<ActivityLog, ActivityRecord>(transaction.objectStore(STORES.activity), next.activityLog, base.activityLog, (projectId, index, log) => ({ projectId, index, log }));
+        if (next.profiles !== base.profiles) transaction.objectStore(STORES.meta).put(next.profiles, 'profiles');
+        if (next.savedViews !== base.savedViews) transaction.objectStore(STORES.meta).put(next.savedViews, 'savedViews');
+        writeEntities<TimeEntry>(transaction.objectStore(STORES.timeEntries), next.timeEntries, base.timeEntries);
+        writeEntities<TaskSnapshot>(transaction.objectStore(STORES.taskHistory), next.taskHistory, base.taskHistory);
+        if (next.focusPlan !== base.focusPlan) transaction.objectStore(STORES.meta).put(next.focusPlan, 'focusPlan');
+        if (next.activeTimer !== base.activeTimer) transaction.objectStore(STORES.meta).put(next.activeTimer, 'activeTimer');
+        if (next.pomodoroSettings !== base.pomodoroSettings) transaction.objectStore(STORES.meta).put(next.pomodoroSettings, 'pomodoroSettings');
+        transaction.objectStore(STORES.meta).put(true, 'initialized');
+        if (next.schemaVersion !== undefined) transaction.objectStore(STORES.meta).put(next.schemaVersion, 'schemaVersion');
+
+        await promisifyTransaction(transaction);
+        lastWritten = next;
+    };
+
+    const migrateFromLocalStorage = async (): Promise<AppState | null> => {
+        const item = legacyStorageKey ? window.localStorage.getItem(legacyStorageKey) : null;
+        if (!item) return null;
+        const legacyState: AppState = JSON.parse(item);
+        await writeState({
+            ...legacyState,
+            profiles: legacyState.profiles || [],
+            projects: legacyState.projects || [],
+            tasks: legacyState.tasks || [],
+            comments: legacyState.comments || {},
+            activityLog: legacyState.activityLog || {},
+            savedViews: legacyState.savedViews || [],
+            timeEntries: legacyState.timeEntries || [],
+            taskHistory: legacyState.taskHistory || [],
+        });
+        window.localStorage.removeItem(legacyStorageKey!);
+        return legacyState;
+    };
+
+    return {
+        name: 'indexedDB',
+        // False when the database cannot be opened at all, e.g. in some private windows. A blocked upgrade
+        // is not a reason to look elsewhere for the data, so it rejects instead.
+        isAvailable: () => getDatabase().then(() => true, (error: Error) => {
+            if (error.message === BLOCKED_UPGRADE_MESSAGE) throw error;
+            console.error('IndexedDB could not be opened:', error);
+            return false;
+        }),
+        load: async () => {
+            const db = await getDatabase();
+            const transaction = db.transaction(Object.values(STORES), 'readonly');
+            const [initialized, schemaVersion, profiles, savedViews, focusPlan, activeTimer, pomodoroSettings, projects, tasks, comments, activity, timeEntries, taskHistory] = await Promise.all([
+                promisifyRequest(transaction.objectStore(STORES.meta).get('initialized')),
+                promisifyRequest(transaction.objectStore(STORES.meta).get('schemaVersion')),
+                promisifyRequest(transaction.objectStore(STORES.meta).get('profiles')),
+                promisifyRequest(transaction.objectStore(STORES.meta).get('savedViews')),
+                promisifyRequest(transaction.objectStore(STORES.meta).get('focusPlan')),
+                promisifyRequest(transaction.objectStore(STORES.meta).get('activeTimer')),
+                promisifyRequest(transaction.objectStore(STORES.meta).get('pomodoroSettings')),
+                promisifyRequest<Project[]>(transaction.objectStore(STORES.projects).getAll()),
+                promisifyRequest<Task[]>(transaction.objectStore(STORES.tasks).getAll()),
+                promisifyRequest<CommentRecord[]>(transaction.objectStore(STORES.comments).getAll()),
+                promisifyRequest<ActivityRecord[]>(transaction.objectStore(STORES.activity).getAll()),
+                promisifyRequest<TimeEntry[]>(transaction.objectStore(STORES.timeEntries).getAll()),
+                promisifyRequest<TaskSnapshot[]>(transaction.objectStore(STORES.taskHistory).getAll()),
+            ]);
+
+            if (!initialized) return migrateFromLocalStorage();
+
+            lastWritten = {
+                schemaVersion,
+                profiles: profiles || [],
+                projects,
+                tasks,
+                comments: groupByProject(comments, record => record.comment),
+                activityLog: groupByProject(activity, record => record.log),
+                savedViews,
+                focusPlan,
+                timeEntries,
+                activeTimer,
+                pomodoroSettings,
+                taskHistory,
+            };
+            return lastWritten;
+        },
+        save: (next) => {
+            pendingWrite = pendingWrite.catch(() => undefined).then(() => writeState(next));
+            return pendingWrite;
+        },
+    };
+};
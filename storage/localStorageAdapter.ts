@@ -0,0 +1,14 @@
+import { AppState } from '../types';
+import { StorageAdapter } from './storageAdapter';
+
+// Stores the whole workspace as a single JSON string, as FocusFlow always has.
+export const createLocalStorageAdapter = (key: string): StorageAdapter => ({
+    name: 'localStorage',
+    load: async () => {
+        const item = window.localStorage.getItem(key);
+        return item ? JSON.parse(item) : null;
+    },
+    save: async (state) => {
+        window.localStorage.setItem(key, JSON.stringify(state));
+    },
+});
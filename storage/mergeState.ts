@@ -0,0 +1,112 @@
+import { AppState, Task } from '../types';
+import { removeOrphanedTime } from '../utils/timeTracking';
+
+/**
+ * A task that both this tab and another one changed in the same fields. The merged state keeps
+ * this tab's values; `remote` is the other tab's version, for the user to pick instead.
+ */
+export interface TaskConflict {
+    taskId: string;
+    fields: (keyof Task)[];
+    local: Task;
+    remote: Task;
+}
+
+// Fields where a clash is not worth asking about; this tab's value is kept
+export const SILENT_TASK_FIELDS = new Set<keyof Task>(['order', 'isFocused']);
+
+export const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Whole values that are not merged field by field: the side that changed wins, this tab if both did
+const mergeValue = <T,>(base: T, local: T, remote: T): T => isSame(local, base) ? remote : local;
+
+// Fields changed on one side are taken from that side; fields changed on both keep the local value and are reported
+export const mergeFields = <T extends object>(base: T, local: T, remote: T): { merged: T, clashes: (keyof T)[] } => {
+    const merged = { ...local };
+    const clashes: (keyof T)[] = [];
+    const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)] as (keyof T)[]);
+    keys.forEach(key => {
+        if (isSame(local[key], remote[key]) || isSame(remote[key], base[key])) return;
+        if (isSame(local[key], base[key])) merged[key] = remote[key];
+        else clashes.push(key);
+    });
+    return { merged, clashes };
+};
+
+/**
+ * Three-way merge of a list of records by ID. Records added on either side are kept, and a
+ * deletion on either side wins over an edit on the other, so nothing deleted comes back.
+ */
+const mergeList = <T extends { id: string }>(base: T[], local: T[], remote: T[], onClash?: (local: T, remote: T, clashes: (keyof T)[]) => void): T[] => {
+    const baseById = new Map<string, T>(base.map(item => [item.id, item]));
+    const remoteById = new Map<string, T>(remote.map(item => [item.id, item]));
+    const localIds = new Set(local.map(item => item.id));
+    const merged: T[] = [];
+    local.forEach(item => {
+        const baseItem = baseById.get(item.id);
+        const remoteItem = remoteById.get(item.id);
+        if (!baseItem) merged.push(item); // Added here
+        else if (remoteItem) {
+            const { merged: mergedItem, clashes } = mergeFields(baseItem, item, remoteItem);
+            if (clashes.length > 0) onClash?.(item, remoteItem, clashes);
+            merged.push(mergedItem);
+        }
+    });
+    remote.forEach(item => {
+        if (!localIds.has(item.id) && !baseById.has(item.id)) merged.push(item); // Added in the other tab
+    });
+    return merged;
+};
+
+// Comments and activity are lists per project; a project's list goes when its project was deleted on either side
+const mergeProjectLists = <T extends { id: string }>(base: Record<string, T[]>, local: Record<string, T[]>, remote: Record<string, T[]>, getTime: (item: T) => string): Record<string, T[]> => {
+    const merged: Record<string, T[]> = {};
+    new Set([...Object.keys(local), ...Object.keys(remote)]).forEach(projectId => {
+        if (projectId in base && (!(projectId in local) || !(projectId in remote))) return;
+        merged[projectId] = mergeList(base[projectId] || [], local[projectId] || [], remote[projectId] || [])
+            .sort((a, b) => getTime(a).localeCompare(getTime(b)));
+    });
+    return merged;
+};
+
+// Tasks whose project or parent task went in the merge go with them
+const removeOrphanedTasks = (state: AppState): AppState => {
+    const projectIds = new Set(state.projects.map(p => p.id));
+    let tasks = state.tasks.filter(t => projectIds.has(t.projectId));
+    let count;
+    do {
+        count = tasks.length;
+        const taskIds = new Set(tasks.map(t => t.id));
+        tasks = tasks.filter(t => !t.parentId || taskIds.has(t.parentId));
+    } while (tasks.length !== count);
+    return tasks.length === state.tasks.length ? state : removeOrphanedTime({ ...state, tasks });
+};
+
+/**
+ * Merges what another tab saved (`remote`) into this tab's live state (`local`). `base` is what
+ * this tab last loaded or saved, which both sides started from. Changes that do not overlap are
+ * combined; a task edited in the same fields on both sides keeps this tab's values and is
+ * returned as a conflict.
+ */
+export const mergeAppStates = (base: AppState, local: AppState, remote: AppState): { state: AppState, conflicts: TaskConflict[] } => {
+    const conflicts: TaskConflict[] = [];
+    const merged: AppState = {
+        schemaVersion: Math.max(local.schemaVersion, remote.schemaVersion),
+        profiles: mergeList(base.profiles, local.profiles, remote.profiles),
+        projects: mergeList(base.projects, local.projects, remote.projects),
+        tasks: mergeList(base.tasks, local.tasks, remote.tasks, (localTask, remoteTask, clashes) => {
+            const fields = clashes.filter(field => !SILENT_TASK_FIELDS.has(field));
+            if (fields.length > 0) conflicts.push({ taskId: localTask.id, fields, local: localTask, remote: remoteTask });
+        }),
+        comments: mergeProjectLists(base.comments, local.comments, remote.comments, c => c.createdAt),
+        activityLog: mergeProjectLists(base.activityLog, local.activityLog, remote.activityLog, l => l.timestamp),
+        savedViews: mergeList(base.savedViews, local.savedViews, remote.savedViews),
+        focusPlan: mergeValue(base.focusPlan, local.focusPlan, remote.focusPlan),
+        timeEntries: mergeList(base.timeEntries, local.timeEntries, remote.timeEntries),
+        activeTimer: mergeValue(base.activeTimer, local.activeTimer, remote.activeTimer),
+        pomodoroSettings: mergeValue(base.pomodoroSettings, local.pomodoroSettings, remote.pomodoroSettings),
+        taskHistory: mergeList(base.taskHistory, local.taskHistory, remote.taskHistory),
+    };
+    const state = removeOrphanedTasks(merged);
+    return { state, conflicts: conflicts.filter(c => state.tasks.some(t => t.id === c.taskId)) };
+};
@@ -0,0 +1,166 @@
+import { AppState, TaskPriority } from '../types';
+import { createFocusPlan } from '../utils/focusPlan';
+import { DEFAULT_POMODORO_SETTINGS } from '../utils/timeTracking';
+import { createTaskHistory } from '../utils/taskHistory';
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (data: any) => any;
+}
+
+/**
+ * Ordered schema migrations. Each one upgrades data from `version - 1` to `version`.
+ * Data saved before versioning was introduced has no `schemaVersion` and starts at 0.
+ * Append new migrations to the end; never edit one that has already shipped.
+ */
+const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Project priority, archiving, color, members, goals and links; workspace comments and activity log',
+        migrate: (data) => ({
+            ...data,
+            projects: (data.projects || []).map((p: any) => ({
+                ...p,
+                priority: p.priority ?? TaskPriority.Medium,
+                isArchived: p.isArchived ?? false,
+                color: p.color ?? '#334155',
+                members: p.members ?? [],
+                goals: p.goals ?? [],
+                links: p.links ?? [],
+            })),
+            tasks: data.tasks || [],
+            comments: data.comments ?? {},
+            activityLog: data.activityLog ?? {},
+        }),
+    },
+    {
+        version: 2,
+        description: 'Task start dates, defaulting to the creation date',
+        migrate: (data) => ({
+            ...data,
+            tasks: data.tasks.map((t: any) => ({ ...t, startDate: t.startDate === undefined ? t.createdAt : t.startDate })),
+        }),
+    },
+    {
+        version: 3,
+        description: 'Task dependencies',
+        migrate: (data) => ({
+            ...data,
+            tasks: data.tasks.map((t: any) => ({ ...t, dependsOn: t.dependsOn ?? [] })),
+        }),
+    },
+    {
+        version: 4,
+        description: 'Recurring tasks',
+        migrate: (data) => ({
+            ...data,
+            tasks: data.tasks.map((t: any) => ({ ...t, recurrence: t.recurrence ?? null })),
+        }),
+    },
+    {
+        version: 5,
+        description: 'Saved dashboard views',
+        migrate: (data) => ({ ...data, savedViews: data.savedViews ?? [] }),
+    },
+    {
+        version: 6,
+        description: 'Daily focus plan',
+        migrate: (data) => ({ ...data, focusPlan: data.focusPlan ?? createFocusPlan(data.tasks) }),
+    },
+    {
+        version: 7,
+        description: 'Time tracking',
+        migrate: (data) => ({
+            ...data,
+            timeEntries: data.timeEntries ?? [],
+            activeTimer: data.activeTimer ?? null,
+            pomodoroSettings: data.pomodoroSettings ?? DEFAULT_POMODORO_SETTINGS,
+        }),
+    },
+    {
+        version: 8,
+        description: 'Effort estimates, burndown dates and task history, which starts with the current state of every task',
+        migrate: (data) => {
+            const tasks = data.tasks.map((t: any) => ({ ...t, estimate: t.estimate ?? null, remaining: t.remaining ?? null }));
+            return {
+                ...data,
+                projects: data.projects.map((p: any) => ({ ...p, estimateUnit: p.estimateUnit ?? 'hours', startDate: p.startDate ?? null, targetDate: p.targetDate ?? null })),
+                tasks,
+                // The IndexedDB adapter loads an empty list for databases that predate the history store
+                taskHistory: data.taskHistory?.length ? data.taskHistory : createTaskHistory(tasks, new Date()),
+            };
+        },
+    },
+    {
+        version: 9,
+        description: 'Structured activity events; earlier free-text entries are kept as legacy events',
+        migrate: (data) => ({
+            ...data,
+            activityLog: Object.fromEntries(Object.entries(data.activityLog as Record<string, any[]>).map(([projectId, logs]) => [
+                projectId,
+                logs.map(({ action, ...log }) => log.event ? log : { ...log, event: { type: 'legacy', text: String(action ?? '') } }),
+            ])),
+        }),
+    },
+    {
+        version: 10,
+        description: 'Task comment threads and mentions; existing comments stay on their project',
+        migrate: (data) => ({
+            ...data,
+            comments: Object.fromEntries(Object.entries(data.comments as Record<string, any[]>).map(([projectId, comments]) => [
+                projectId,
+                comments.map(c => ({ ...c, taskId: c.taskId ?? null, mentions: c.mentions ?? [] })),
+            ])),
+        }),
+    },
+    {
+        version: 11,
+        description: 'Task assignees; saved views get an assignee filter',
+        migrate: (data) => ({
+            ...data,
+            tasks: (data.tasks as any[]).map(t => ({ ...t, assigneeIds: t.assigneeIds ?? [] })),
+            savedViews: (data.savedViews as any[]).map(v => ({ ...v, filters: { ...v.filters, assignee: v.filters?.assignee ?? 'All' } })),
+        }),
+    },
+    {
+        version: 12,
+        description: 'Local user profiles; members link to them and authorship records the profile',
+        migrate: (data) => ({
+            ...data,
+            profiles: data.profiles ?? [],
+            projects: (data.projects as any[]).map(p => ({ ...p, members: (p.members ?? []).map((m: any) => ({ ...m, profileId: m.profileId ?? null })) })),
+            tasks: (data.tasks as any[]).map(t => ({ ...t, createdBy: t.createdBy ?? null })),
+            comments: Object.fromEntries(Object.entries(data.comments as Record<string, any[]>).map(([projectId, comments]) => [
+                projectId,
+                comments.map(c => ({ ...c, authorProfileId: c.authorProfileId ?? null })),
+            ])),
+            activityLog: Object.fromEntries(Object.entries(data.activityLog as Record<string, any[]>).map(([projectId, logs]) => [
+                projectId,
+                logs.map(log => ({ ...log, authorProfileId: log.authorProfileId ?? null })),
+            ])),
+        }),
+    },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Brings persisted or imported data up to the current schema. Returns the input unchanged when it
+ * is already current, and throws when it was written by a newer version of the app.
+ */
+export const migrateAppState = (data: unknown): AppState => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Invalid data: expected a FocusFlow workspace object.');
+    }
+
+    const version = typeof (data as any).schemaVersion === 'number' ? (data as any).schemaVersion : 0;
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`This data was saved by a newer version of FocusFlow (schema version ${version}). This version only supports up to schema version ${CURRENT_SCHEMA_VERSION}. Please update FocusFlow before loading it.`);
+    }
+    if (version === CURRENT_SCHEMA_VERSION) return data as AppState;
+
+    return migrations
+        .filter(m => m.version > version)
+        .reduce((current, m) => ({ ...m.migrate(current), schemaVersion: m.version }), data as any);
+};
@@ -0,0 +1,35 @@
+import { AppState } from '../types';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+
+export const LEGACY_STORAGE_KEY = 'focusflow_data';
+
+/**
+ * Persistence backend for the whole workspace. `load` resolves to null when nothing has been
+ * saved yet. Backends that store entities separately may write only what changed in `save`.
+ */
+export interface StorageAdapter {
+    name: 'localStorage' | 'indexedDB';
+    load: () => Promise<AppState | null>;
+    save: (state: AppState) => Promise<void>;
+}
+
+/**
+ * Uses IndexedDB where it can be opened and localStorage otherwise. Which one works is only known
+ * once the database is opened, so the first `load` decides.
+ */
+export const createStorageAdapter = (): StorageAdapter => {
+    const localStorageAdapter = createLocalStorageAdapter(LEGACY_STORAGE_KEY);
+    if (typeof window === 'undefined' || !window.indexedDB) return localStorageAdapter;
+
+    const indexedDbAdapter = createIndexedDbAdapter(LEGACY_STORAGE_KEY);
+    let adapter: StorageAdapter = indexedDbAdapter;
+    return {
+        get name() { return adapter.name; },
+        load: async () => {
+            if (adapter === indexedDbAdapter && !(await indexedDbAdapter.isAvailable())) adapter = localStorageAdapter;
+            return adapter.load();
+        },
+        save: (state) => adapter.save(state),
+    };
+};
@@ -0,0 +1,254 @@
+import { AppState, Task } from '../types';
+import { SyncCollection, SyncEntity, EntityChange, getEntities, stableStringify } from './syncEntities';
+import { SyncClient, SyncRecord, PushChange, SYNC_BATCH_SIZE } from './syncProtocol';
+import { mergeFields, isSame, SILENT_TASK_FIELDS } from './mergeState';
+
+const METADATA_KEY = 'focusflow_sync_state';
+
+// What this device knows about a record on the server. `hash` identifies the data last synced, null once deleted.
+interface SyncedRecord {
+    revision: number;
+    updatedAt: string;
+    hash: string | null;
+}
+
+// A local change waiting to be pushed. `base` is the data it was made on, used to merge field by field.
+export interface PendingChange {
+    collection: SyncCollection;
+    id: string;
+    baseRevision: number;
+    base: any | null; // null when unknown, e.g. for records that are new here
+    data: any | null; // null to delete
+    updatedAt: string;
+    isHeld: boolean; // Not pushed until its conflict is reviewed
+}
+
+// Fields that were changed here and on another device. The local value is kept until the user decides.
+export interface SyncConflict {
+    key: string;
+    collection: SyncCollection;
+    id: string;
+    fields: string[];
+    remote: any;
+}
+
+export interface SyncMetadata {
+    lastPulledRevision: number;
+    lastSyncedAt: string | null;
+    records: Record<string, SyncedRecord>;
+    queue: Record<string, PendingChange>;
+    conflicts: SyncConflict[];
+}
+
+export const EMPTY_SYNC_METADATA: SyncMetadata = { lastPulledRevision: 0, lastSyncedAt: null, records: {}, queue: {}, conflicts: [] };
+
+export const loadSyncMetadata = (): SyncMetadata => {
+    try {
+        const item = window.localStorage.getItem(METADATA_KEY);
+        return item ? { ...EMPTY_SYNC_METADATA, ...JSON.parse(item) } : EMPTY_SYNC_METADATA;
+    } catch (error) {
+        console.error(error);
+        return EMPTY_SYNC_METADATA;
+    }
+};
+
+export const saveSyncMetadata = (meta: SyncMetadata) => window.localStorage.setItem(METADATA_KEY, JSON.stringify(meta));
+
+// A short fingerprint of a record's data, so synced data does not have to be kept to notice changes
+const hashData = (data: unknown): string | null => {
+    if (data === null || data === undefined) return null;
+    const text = stableStringify(data);
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    return `${text.length}:${(hash >>> 0).toString(36)}`;
+};
+
+export type EntitySnapshot = Map<string, { entity: SyncEntity, hash: string }>;
+
+export const snapshotEntities = (state: AppState): EntitySnapshot => {
+    const snapshot: EntitySnapshot = new Map();
+    getEntities(state).forEach((entity, key) => snapshot.set(key, { entity, hash: hashData(entity.data)! }));
+    return snapshot;
+};
+
+// Records changes applied from the server in a snapshot, so they are not queued as local changes
+export const patchSnapshot = (snapshot: EntitySnapshot, changes: EntityChange[]): EntitySnapshot => {
+    const next: EntitySnapshot = new Map(snapshot);
+    changes.forEach(change => {
+        const key = `${change.collection}:${change.id}`;
+        if (change.data === null) next.delete(key);
+        else next.set(key, { entity: change, hash: hashData(change.data)! });
+    });
+    return next;
+};
+
+const parseKey = (key: string): { collection: SyncCollection, id: string } => {
+    const separator = key.indexOf(':');
+    return { collection: key.slice(0, separator) as SyncCollection, id: key.slice(separator + 1) };
+};
+
+/**
+ * Queues what changed locally. With a `previous` snapshot only the records that differ from it are
+ * looked at; without one, e.g. when sync is switched on, every record is compared with what was
+ * last synced.
+ */
+export const queueLocalChanges = (meta: SyncMetadata, previous: EntitySnapshot | null, current: EntitySnapshot, now: string): SyncMetadata => {
+    const keys = previous
+        ? [...new Set([...previous.keys(), ...current.keys()])].filter(key => previous.get(key)?.hash !== current.get(key)?.hash)
+        : [...new Set([...current.keys(), ...Object.keys(meta.records).filter(key => meta.records[key].hash !== null)])];
+    if (keys.length === 0) return meta;
+
+    const queue = { ...meta.queue };
+    keys.forEach(key => {
+        const entry = current.get(key);
+        const data = entry ? entry.entity.data : null;
+        const hash = entry ? entry.hash : null;
+        const pending = queue[key];
+        if (pending) {
+            // Changed back to what it was based on: nothing left to push
+            if (!pending.isHeld && hash === hashData(pending.base) && pending.base !== null) delete queue[key];
+            else queue[key] = { ...pending, data, updatedAt: now };
+            return;
+        }
+        const record = meta.records[key];
+        if ((record?.hash ?? null) === hash) return;
+        const before = previous?.get(key);
+        queue[key] = {
+            ...parseKey(key),
+            baseRevision: record?.revision ?? 0,
+            base: before && before.hash === record?.hash ? before.entity.data : null,
+            data,
+            updatedAt: now,
+            isHeld: false,
+        };
+    });
+    return { ...meta, queue };
+};
+
+/**
+ * Settles a local change against a newer server record. A deletion on either side wins; other
+ * changes are merged field by field, and fields changed on both sides are held for review.
+ * Workspace settings are not reviewed: the later change wins.
+ */
+const reconcile = (meta: SyncMetadata, pending: PendingChange, record: SyncRecord, applied: EntityChange[]) => {
+    const key = `${record.collection}:${record.id}`;
+    const remote = record.deleted ? null : record.data;
+    const { collection, id } = record;
+    meta.records[key] = { revision: record.revision, updatedAt: record.updatedAt, hash: hashData(remote) };
+    meta.conflicts = meta.conflicts.filter(c => c.key !== key);
+
+    const takeRemote = () => {
+        delete meta.queue[key];
+        applied.push({ collection, id, data: remote });
+    };
+    const keepLocal = (data: any | null, isHeld = false) => {
+        meta.queue[key] = { ...pending, baseRevision: record.revision, base: remote, data, isHeld };
+    };
+
+    if (remote === null) return takeRemote();
+    if (pending.data === null) return keepLocal(null);
+    if (collection === 'settings') return pending.base !== null && pending.updatedAt > record.updatedAt ? keepLocal(pending.data) : takeRemote();
+
+    const { merged, clashes } = mergeFields(pending.base ?? {}, pending.data, remote);
+    const fields = (clashes as (keyof Task)[]).filter(field => collection !== 'tasks' || !SILENT_TASK_FIELDS.has(field));
+    if (!isSame(merged, pending.data)) applied.push({ collection, id, data: merged });
+    if (isSame(merged, remote)) {
+        delete meta.queue[key];
+        return;
+    }
+    keepLocal(merged, fields.length > 0);
+    if (fields.length > 0) meta.conflicts = [...meta.conflicts, { key, collection, id, fields, remote }];
+};
+
+const copyMeta = (meta: SyncMetadata): SyncMetadata => ({ ...meta, records: { ...meta.records }, queue: { ...meta.queue }, conflicts: [...meta.conflicts] });
+
+// How the engine reads and updates the device's sync metadata and the workspace
+export interface SyncStore {
+    getMeta: () => SyncMetadata;
+    setMeta: (meta: SyncMetadata) => void;
+    applyRemote: (changes: EntityChange[]) => void;
+}
+
+const pull = async (store: SyncStore, client: SyncClient) => {
+    let hasMore = true;
+    while (hasMore) {
+        const page = await client.pull(store.getMeta().lastPulledRevision);
+        const meta = copyMeta(store.getMeta());
+        const applied: EntityChange[] = [];
+        page.changes.forEach(record => {
+            const key = `${record.collection}:${record.id}`;
+            if ((meta.records[key]?.revision ?? 0) >= record.revision) return; // Pushed from here
+            const pending = meta.queue[key];
+            if (pending) return reconcile(meta, pending, record, applied);
+            const data = record.deleted ? null : record.data;
+            meta.records[key] = { revision: record.revision, updatedAt: record.updatedAt, hash: hashData(data) };
+            applied.push({ collection: record.collection, id: record.id, data });
+        });
+        meta.lastPulledRevision = page.revision;
+        if (applied.length > 0) store.applyRemote(applied);
+        store.setMeta(meta);
+        hasMore = page.hasMore && page.changes.length > 0;
+    }
+};
+
+const push = async (store: SyncStore, client: SyncClient) => {
+    const ready = Object.entries(store.getMeta().queue).filter(([, change]) => !change.isHeld);
+    for (let start = 0; start < ready.length; start += SYNC_BATCH_SIZE) {
+        const sent = new Map<string, PushChange>(ready.slice(start, start + SYNC_BATCH_SIZE).map(([key, change]) => [key, {
+            collection: change.collection,
+            id: change.id,
+            baseRevision: change.baseRevision,
+            updatedAt: change.updatedAt,
+            deleted: change.data === null,
+            data: change.data,
+        }]));
+        const response = await client.push([...sent.values()]);
+        const meta = copyMeta(store.getMeta());
+        const applied: EntityChange[] = [];
+        response.results.forEach(result => {
+            const key = `${result.collection}:${result.id}`;
+            const change = sent.get(key);
+            const pending = meta.queue[key];
+            if (!change) return;
+            if (result.status === 'conflict') {
+                if (pending) reconcile(meta, pending, result.current, applied);
+                return;
+            }
+            meta.records[key] = { revision: result.revision, updatedAt: change.updatedAt, hash: hashData(change.data) };
+            // Edits made while the push was under way are pushed next time, on top of what was sent
+            if (pending && isSame(pending.data, change.data)) delete meta.queue[key];
+            else if (pending) meta.queue[key] = { ...pending, baseRevision: result.revision, base: change.data };
+        });
+        if (applied.length > 0) store.applyRemote(applied);
+        store.setMeta(meta);
+    }
+};
+
+// Pulls what other devices changed, then pushes the local queue
+export const runSync = async (store: SyncStore, client: SyncClient) => {
+    await pull(store, client);
+    await push(store, client);
+    store.setMeta({ ...store.getMeta(), lastSyncedAt: new Date().toISOString() });
+};
+
+/**
+ * Settles a reviewed conflict. 'mine' pushes the local values over the other device's; 'theirs'
+ * takes the other device's values for the clashing fields, returned as a change to apply locally.
+ */
+export const resolveSyncConflict = (meta: SyncMetadata, key: string, choice: 'mine' | 'theirs'): { meta: SyncMetadata, change: EntityChange | null } => {
+    const conflict = meta.conflicts.find(c => c.key === key);
+    const pending = meta.queue[key];
+    const next = copyMeta(meta);
+    next.conflicts = next.conflicts.filter(c => c.key !== key);
+    if (!conflict || !pending) return { meta: next, change: null };
+    if (choice === 'mine' || pending.data === null) {
+        next.queue[key] = { ...pending, isHeld: false };
+        return { meta: next, change: null };
+    }
+    const data = { ...pending.data, ...Object.fromEntries(conflict.fields.map(field => [field, conflict.remote[field]])) };
+    if (isSame(data, pending.base)) delete next.queue[key];
+    else next.queue[key] = { ...pending, data, isHeld: false };
+    return { meta: next, change: { collection: pending.collection, id: pending.id, data } };
+};
+
+export const getPendingCount = (meta: SyncMetadata) => Object.keys(meta.queue).length;
@@ -0,0 +1,95 @@
+import { AppState, ActivityLog, Comment } from '../types';
+
+// The workspace as the sync server sees it: separate records, each addressed by collection and ID.
+// The running timer is left out; it belongs to the device it was started on.
+export const SYNC_COLLECTIONS = ['profiles', 'projects', 'tasks', 'comments', 'activity', 'savedViews', 'timeEntries', 'taskHistory', 'settings'] as const;
+export type SyncCollection = typeof SYNC_COLLECTIONS[number];
+
+export interface SyncEntity {
+    collection: SyncCollection;
+    id: string;
+    data: any;
+}
+
+// A change to apply to the workspace; `data` is null when the record was deleted
+export interface EntityChange {
+    collection: SyncCollection;
+    id: string;
+    data: any | null;
+}
+
+// Workspace-wide values that are not lists are synced as records of the 'settings' collection
+type SettingsKey = 'focusPlan' | 'pomodoroSettings';
+const SETTINGS_KEYS: SettingsKey[] = ['focusPlan', 'pomodoroSettings'];
+
+type ListCollection = 'profiles' | 'projects' | 'tasks' | 'savedViews' | 'timeEntries' | 'taskHistory';
+const LIST_COLLECTIONS: ListCollection[] = ['profiles', 'projects', 'tasks', 'savedViews', 'timeEntries', 'taskHistory'];
+
+export const entityKey = (collection: string, id: string) => `${collection}:${id}`;
+
+// JSON with object keys sorted, so equal records always serialize the same way
+export const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record).sort().filter(k => record[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+};
+
+export const getEntities = (state: AppState): Map<string, SyncEntity> => {
+    const entities = new Map<string, SyncEntity>();
+    const add = (collection: SyncCollection, id: string, data: any) => entities.set(entityKey(collection, id), { collection, id, data });
+    LIST_COLLECTIONS.forEach(collection => (state[collection] as { id: string }[]).forEach(item => add(collection, item.id, item)));
+    Object.values(state.comments).forEach(comments => comments.forEach(c => add('comments', c.id, c)));
+    // Activity entries do not record their project, so the record carries it
+    Object.entries(state.activityLog).forEach(([projectId, logs]) => logs.forEach(log => add('activity', log.id, { ...log, projectId })));
+    SETTINGS_KEYS.forEach(key => add('settings', key, state[key]));
+    return entities;
+};
+
+const upsert = <T extends { id: string }>(list: T[], item: T | null, id: string): T[] => {
+    const index = list.findIndex(existing => existing.id === id);
+    if (!item) return index === -1 ? list : list.filter(existing => existing.id !== id);
+    return index === -1 ? [...list, item] : list.map(existing => existing.id === id ? item : existing);
+};
+
+// Upserts into per-project lists, moving the item if its project changed, and keeps each list in time order
+const upsertByProject = <T extends { id: string }>(lists: Record<string, T[]>, item: T | null, projectId: string | null, id: string, getTime: (item: T) => string): Record<string, T[]> => {
+    const next: Record<string, T[]> = {};
+    Object.entries(lists).forEach(([key, list]) => {
+        const without = list.filter(existing => existing.id !== id);
+        if (without.length > 0 || key === projectId) next[key] = without;
+    });
+    if (item && projectId) next[projectId] = [...(next[projectId] || []), item].sort((a, b) => getTime(a).localeCompare(getTime(b)));
+    return next;
+};
+
+export const applyEntityChanges = (state: AppState, changes: EntityChange[]): AppState => changes.reduce((current: AppState, { collection, id, data }): AppState => {
+    switch (collection) {
+        case 'comments':
+            return { ...current, comments: upsertByProject<Comment>(current.comments, data, data?.projectId ?? null, id, c => c.createdAt) };
+        case 'activity': {
+            const { projectId = null, ...log } = data || {};
+            return { ...current, activityLog: upsertByProject<ActivityLog>(current.activityLog, data ? log as ActivityLog : null, projectId, id, l => l.timestamp) };
+        }
+        case 'settings':
+            return SETTINGS_KEYS.includes(id as SettingsKey) && data ? { ...current, [id]: data } : current;
+        default:
+            return { ...current, [collection]: upsert<{ id: string }>(current[collection] as { id: string }[], data, id) };
+    }
+}, state);
+
+// A short name for a record, for the conflict review
+export const describeEntity = (entity: SyncEntity | EntityChange): string => {
+    const data = entity.data || {};
+    switch (entity.collection) {
+        case 'tasks': return `Task "${data.title ?? entity.id}"`;
+        case 'projects': return `Project "${data.name ?? entity.id}"`;
+        case 'profiles': return `Profile "${data.name ?? entity.id}"`;
+        case 'savedViews': return `View "${data.name ?? entity.id}"`;
+        case 'comments': return `Comment by ${data.authorName ?? 'someone'}`;
+        case 'settings': return entity.id === 'focusPlan' ? 'Focus plan' : 'Pomodoro settings';
+        default: return `${entity.collection} ${entity.id}`;
+    }
+};
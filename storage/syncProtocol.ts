@@ -0,0 +1,78 @@
+import { SyncCollection } from './syncEntities';
+
+// The wire format of the sync server; see docs/sync-protocol.md
+
+// A record as the server stores it. `revision` is the server's change counter when it was last written.
+export interface SyncRecord {
+    collection: SyncCollection;
+    id: string;
+    revision: number;
+    updatedAt: string;
+    deleted: boolean;
+    data: any | null; // null when deleted
+}
+
+// A change sent to the server; it is refused when the record changed after `baseRevision`
+export interface PushChange {
+    collection: SyncCollection;
+    id: string;
+    baseRevision: number; // 0 for a record the client has never seen on the server
+    updatedAt: string;
+    deleted: boolean;
+    data: any | null;
+}
+
+export type PushResult =
+    | { collection: SyncCollection; id: string; status: 'applied'; revision: number }
+    | { collection: SyncCollection; id: string; status: 'conflict'; current: SyncRecord };
+
+export interface PullResponse {
+    changes: SyncRecord[]; // Oldest first
+    revision: number; // Pass as `since` to continue
+    hasMore: boolean;
+}
+
+export interface PushResponse {
+    results: PushResult[];
+    revision: number;
+}
+
+export interface SyncSettings {
+    enabled: boolean;
+    serverUrl: string;
+    token: string; // Sent as a bearer token when set
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, serverUrl: '', token: '' };
+
+export const SYNC_BATCH_SIZE = 100;
+
+export interface SyncClient {
+    pull: (since: number) => Promise<PullResponse>;
+    push: (changes: PushChange[]) => Promise<PushResponse>;
+}
+
+export const createSyncClient = (settings: SyncSettings): SyncClient => {
+    const baseUrl = settings.serverUrl.trim().replace(/\/+$/, '');
+    const request = async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}${path}`, {
+                ...init,
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+                },
+            });
+        } catch {
+            throw new Error('Could not reach the sync server.');
+        }
+        if (response.status === 401) throw new Error('The sync server refused the access token.');
+        if (!response.ok) throw new Error(`The sync server responded with ${response.status} ${response.statusText}.`);
+        return response.json();
+    };
+    return {
+        pull: (since) => request<PullResponse>(`/sync/pull?since=${since}&limit=${SYNC_BATCH_SIZE}`),
+        push: (changes) => request<PushResponse>('/sync/push', { method: 'POST', body: JSON.stringify({ changes }) }),
+    };
+};
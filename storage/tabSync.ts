@@ -0,0 +1,47 @@
+// Tabs of the same browser profile share one saved workspace. Every save bumps a revision kept in
+// localStorage, and the `storage` event that this fires in the other tabs tells them to load the
+// saved data and merge it into their own.
+const REVISION_KEY = 'focusflow_revision';
+
+export interface SavedRevision {
+    revision: number;
+    tabId: string; // The tab that saved it
+    savedAt: string;
+}
+
+export const createTabId = () => `tab_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const parseRevision = (value: string | null): SavedRevision => {
+    try {
+        const parsed = value ? JSON.parse(value) : null;
+        if (typeof parsed?.revision === 'number') return parsed;
+    } catch {
+        // A damaged entry counts as never saved; the next save repairs it
+    }
+    return { revision: 0, tabId: '', savedAt: '' };
+};
+
+export const readRevision = (): SavedRevision => parseRevision(window.localStorage.getItem(REVISION_KEY));
+
+// Records a save by this tab and returns the new revision
+export const bumpRevision = (tabId: string): number => {
+    const revision = readRevision().revision + 1;
+    window.localStorage.setItem(REVISION_KEY, JSON.stringify({ revision, tabId, savedAt: new Date().toISOString() }));
+    return revision;
+};
+
+/**
+ * Runs `task` while no other tab is saving, so checking for a newer revision and writing over it
+ * cannot interleave. Browsers without the Web Locks API run it straight away.
+ */
+export const withSaveLock = <T,>(task: () => Promise<T>): Promise<T> =>
+    navigator.locks ? navigator.locks.request('focusflow_save', task) : task();
+
+// Calls back whenever another tab saves; returns the unsubscribe function
+export const onOtherTabSaved = (callback: (saved: SavedRevision) => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === REVISION_KEY) callback(parseRevision(event.newValue));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+};
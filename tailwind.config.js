@@ -0,0 +1,21 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './{components,hooks,storage,utils}/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      colors: {
+        'primary': '#06b6d4', // cyan-500
+        'primary-focus': '#0891b2', // cyan-600
+        'secondary': '#334155', // slate-700
+        'background': '#0f172a', // slate-900
+        'surface': '#1e293b', // slate-800
+        'on-surface': '#e2e8f0', // slate-200
+        'on-surface-secondary': '#94a3b8', // slate-400
+      },
+      boxShadow: {
+        'glow': '0 0 15px 5px rgba(6, 182, 212, 0.3)',
+      },
+    },
+  },
+  plugins: [],
+};
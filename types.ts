@@ -16,6 +16,14 @@ export enum ProjectRole {
   Viewer = 'Viewer',
 }
 
+// How a task repeats once it is completed. Days of week are 0 (Sunday) to 6 (Saturday).
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'weekly'; interval: number; daysOfWeek: number[] }
+  | { type: 'monthlyByDay'; dayOfMonth: number }
+  | { type: 'monthlyByWeekday'; weekOfMonth: number; dayOfWeek: number }; // weekOfMonth 5 means "last"
+
 export interface Task {
   id: string;
   projectId: string;
@@ -27,16 +35,39 @@ export interface Task {
   startDate: string | null;
   dueDate: string | null;
   tags: string[];
+  dependsOn: string[]; // IDs of tasks that must be Done before this one can start
+  recurrence: RecurrenceRule | null;
+  estimate: number | null; // Effort in the project's estimate unit
+  remaining: number | null; // Effort left; null means the whole estimate
+  assigneeIds: string[]; // IDs of members of the task's project
+  createdBy: string | null; // Profile ID of whoever created the task
   isFocused: boolean;
   createdAt: string;
   order: number;
 }
 
+// Where a dragged task lands relative to another task in the same list.
+export interface TaskPlacement {
+  targetId: string;
+  position: 'top' | 'bottom';
+}
+
 export interface Member {
   id: string;
   name:string;
   role: ProjectRole;
   avatarUrl: string; // URL to an avatar image
+  profileId: string | null; // A linked member takes the profile's name and avatar
+}
+
+// Someone using FocusFlow on this device. Profiles are local; there are no accounts.
+export interface UserProfile {
+  id: string;
+  name: string;
+  initials: string; // Shown when there is no avatar image
+  avatarDataUrl: string | null; // An uploaded image, stored as a data URL
+  color: string;
+  createdAt: string;
 }
 
 export interface Goal {
@@ -56,19 +87,53 @@ export interface Link {
 export interface Comment {
     id: string;
     projectId: string;
-    authorName: string; // Simulated member name
+    taskId: string | null; // null for comments on the project itself
+    authorProfileId: string | null; // null for comments written without a profile
+    authorName: string; // As at the time of writing; shown when the profile no longer exists
     authorAvatarUrl: string;
-    content: string;
+    content: string; // Mentions are stored as @[member:<memberId>] and shown with the member's current name
+    mentions: string[]; // IDs of the project members mentioned in the content
     createdAt: string;
 }
 
+// A field that an edit changed, with its display values before and after
+export type ActivityValue = string | number | boolean | string[] | null;
+
+export interface FieldChange {
+    field: string;
+    from: ActivityValue;
+    to: ActivityValue;
+}
+
+// What happened, with the IDs involved. Task events keep the title at the time for tasks that are later deleted.
+export type ActivityEvent =
+    | { type: 'project.created' }
+    | { type: 'project.edited'; changes: FieldChange[] }
+    | { type: 'project.archived' }
+    | { type: 'project.restored' }
+    | { type: 'project.imported' }
+    | { type: 'task.created'; taskId: string; title: string }
+    | { type: 'task.edited'; taskId: string; title: string; changes: FieldChange[] }
+    | { type: 'task.status_changed'; taskId: string; title: string; from: TaskStatus; to: TaskStatus; nextTaskId: string | null; nextDueDate: string | null }
+    | { type: 'task.moved'; taskId: string; title: string; fromProjectId: string; toProjectId: string; fromParentId: string | null; toParentId: string | null }
+    | { type: 'task.deleted'; taskId: string; title: string; subTaskCount: number }
+    | { type: 'comment.added'; commentId: string; taskId?: string; title?: string } // No task for project comments and entries before task threads
+    | { type: 'tasks.imported'; fileName: string; created: number; updated: number }
+    | { type: 'legacy'; text: string }; // Free-text entries recorded before events were structured
+
+export type ActivityEventType = ActivityEvent['type'];
+
+// Rendered to text only when displayed, so it always shows current task and project names
 export interface ActivityLog {
     id: string;
     timestamp: string;
-    author: string; // Simulated
-    action: string;
+    authorProfileId: string | null;
+    author: string; // The profile's name at the time, or "You" without a profile
+    event: ActivityEvent;
 }
 
+export type EstimateUnit = 'hours' | 'points';
+
 export interface Project {
   id:string;
   name: string;
@@ -82,11 +147,83 @@ export interface Project {
   members: Member[];
   goals: Goal[];
   links: Link[];
+  estimateUnit: EstimateUnit;
+  startDate: string | null; // Burndown range; the start falls back to the creation date
+  targetDate: string | null;
+}
+
+export type DashboardStatusFilter = TaskStatus | 'All' | 'Focused';
+
+// Everything that narrows down what the dashboard shows.
+export interface DashboardFilters {
+    searchQuery: string;
+    status: DashboardStatusFilter;
+    priority: TaskPriority | 'All';
+    tag: string; // 'All' for no tag filter
+    assignee: string; // A member name, ASSIGNED_TO_ME, UNASSIGNED or 'All' for no assignee filter
+    showArchived: boolean;
+}
+
+export interface SavedView {
+    id: string;
+    name: string;
+    filters: DashboardFilters;
+    createdAt: string;
+}
+
+// Today's list of focused tasks. Membership is `Task.isFocused`; the plan adds the order and the day.
+export interface FocusPlan {
+    date: string; // YYYY-MM-DD in the user's time zone
+    order: string[]; // Focused task IDs in planned order
+    carriedOver: string[]; // Unfinished tasks from the previous day's plan that were not rolled over
+    autoRollover: boolean; // Keep unfinished focus tasks focused when a new day starts
+}
+
+export interface TimeEntry {
+    id: string;
+    taskId: string;
+    start: string; // ISO timestamps
+    end: string;
+    note: string;
+}
+
+export interface PomodoroSettings {
+    enabled: boolean;
+    workMinutes: number;
+    breakMinutes: number;
+}
+
+// The one timer that can run at a time. Only work time is recorded; Pomodoro breaks are not.
+export interface RunningTimer {
+    taskId: string;
+    note: string;
+    segmentStartedAt: string; // Start of the current stretch of work (or of the current break)
+    pomodoro: (PomodoroSettings & { phase: 'work' | 'break' }) | null;
+}
+
+// The tracked fields of a task as of a moment in time, recorded whenever one of them changes
+export interface TaskSnapshot {
+    id: string;
+    taskId: string;
+    projectId: string;
+    timestamp: string;
+    status: TaskStatus;
+    estimate: number | null;
+    remaining: number | null;
+    isDeleted: boolean;
 }
 
 export interface AppState {
+    schemaVersion: number; // See storage/migrations.ts
+    profiles: UserProfile[];
     projects: Project[];
     tasks: Task[];
     comments: Record<string, Comment[]>; // Keyed by projectId
     activityLog: Record<string, ActivityLog[]>; // Keyed by projectId
+    savedViews: SavedView[];
+    focusPlan: FocusPlan;
+    timeEntries: TimeEntry[];
+    activeTimer: RunningTimer | null;
+    pomodoroSettings: PomodoroSettings;
+    taskHistory: TaskSnapshot[];
 }
\ No newline at end of file
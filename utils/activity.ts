@@ -0,0 +1,173 @@
+import { ActivityEvent, ActivityEventType, ActivityValue, FieldChange, Member, Project, Task } from '../types';
+import { describeRecurrence } from './recurrence';
+import { taskDateKey, fromDateKey } from './dates';
+
+export const ACTIVITY_EVENT_LABELS: Record<ActivityEventType, string> = {
+    'project.created': 'Project created',
+    'project.edited': 'Project edited',
+    'project.archived': 'Project archived',
+    'project.restored': 'Project restored',
+    'project.imported': 'Project imported',
+    'task.created': 'Task created',
+    'task.edited': 'Task edited',
+    'task.status_changed': 'Status changed',
+    'task.moved': 'Task moved',
+    'task.deleted': 'Task deleted',
+    'comment.added': 'Comment added',
+    'tasks.imported': 'Tasks imported',
+    'legacy': 'Older entries',
+};
+
+// The tracked fields of each entity, as stored in FieldChange
+const TASK_FIELDS: Record<string, (task: Task) => ActivityValue> = {
+    title: t => t.title,
+    description: t => t.description,
+    priority: t => t.priority,
+    startDate: t => t.startDate,
+    dueDate: t => t.dueDate,
+    tags: t => t.tags,
+    dependsOn: t => t.dependsOn,
+    recurrence: t => t.recurrence ? describeRecurrence(t.recurrence) : null,
+    estimate: t => t.estimate,
+    remaining: t => t.remaining,
+};
+
+const PROJECT_FIELDS: Record<string, (project: Project) => ActivityValue> = {
+    name: p => p.name,
+    description: p => p.description,
+    priority: p => p.priority,
+    tags: p => p.tags,
+    color: p => p.color,
+    members: p => p.members.map(m => `${m.name} (${m.role})`),
+    goals: p => p.goals.map(g => `${g.title} (${g.currentValue}/${g.targetValue} ${g.unit})`),
+    links: p => p.links.map(l => l.title),
+    estimateUnit: p => p.estimateUnit,
+    startDate: p => p.startDate,
+    targetDate: p => p.targetDate,
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    startDate: 'start date',
+    dueDate: 'due date',
+    targetDate: 'target date',
+    dependsOn: 'dependencies',
+    estimateUnit: 'estimate unit',
+    remaining: 'remaining effort',
+};
+
+const DATE_FIELDS = new Set(['startDate', 'dueDate', 'targetDate']);
+// Long or unreadable values are only reported as changed
+const VALUELESS_FIELDS = new Set(['description', 'color']);
+
+const getChanges = <T,>(fields: Record<string, (item: T) => ActivityValue>, before: T, after: T): FieldChange[] =>
+    Object.entries(fields)
+        .map(([field, read]) => ({ field, from: read(before), to: read(after) }))
+        .filter(change => JSON.stringify(change.from) !== JSON.stringify(change.to));
+
+// `members` name the assignees on either side, e.g. the members of both projects when a task moves
+export const getTaskChanges = (before: Task, after: Task, members: Member[]): FieldChange[] => {
+    const changes = getChanges(TASK_FIELDS, before, after);
+    const assigneeNames = (task: Task) => task.assigneeIds.map(id => members.find(m => m.id === id)?.name ?? 'former member');
+    const from = assigneeNames(before);
+    const to = assigneeNames(after);
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes.push({ field: 'assignees', from, to });
+    return changes;
+};
+export const getProjectChanges = (before: Project, after: Project) => getChanges(PROJECT_FIELDS, before, after);
+
+// The task an event is about, if any
+export const getEventTaskId = (event: ActivityEvent): string | null => 'taskId' in event ? event.taskId ?? null : null;
+
+// Points an event at renumbered tasks and projects, e.g. when a project is imported as a copy
+export const remapActivityEvent = (event: ActivityEvent, mapTaskId: (id: string) => string, mapProjectId: (id: string) => string): ActivityEvent => {
+    const mapParent = (id: string | null) => id ? mapTaskId(id) : null;
+    switch (event.type) {
+        case 'task.created':
+        case 'task.deleted':
+            return { ...event, taskId: mapTaskId(event.taskId) };
+        case 'comment.added':
+            return event.taskId ? { ...event, taskId: mapTaskId(event.taskId) } : event;
+        case 'task.status_changed':
+            return { ...event, taskId: mapTaskId(event.taskId), nextTaskId: mapParent(event.nextTaskId) };
+        case 'task.edited':
+            return {
+                ...event,
+                taskId: mapTaskId(event.taskId),
+                changes: event.changes.map(c => c.field !== 'dependsOn' ? c : {
+                    ...c,
+                    from: Array.isArray(c.from) ? c.from.map(mapTaskId) : c.from,
+                    to: Array.isArray(c.to) ? c.to.map(mapTaskId) : c.to,
+                }),
+            };
+        case 'task.moved':
+            return {
+                ...event,
+                taskId: mapTaskId(event.taskId),
+                fromProjectId: mapProjectId(event.fromProjectId),
+                toProjectId: mapProjectId(event.toProjectId),
+                fromParentId: mapParent(event.fromParentId),
+                toParentId: mapParent(event.toParentId),
+            };
+        default:
+            return event;
+    }
+};
+
+export interface ActivityContext {
+    projectId: string; // The project whose log is shown
+    taskById: Map<string, Task>;
+    projectById: Map<string, Project>;
+}
+
+const taskName = (taskId: string, fallback: string, context: ActivityContext) => `"${context.taskById.get(taskId)?.title ?? fallback}"`;
+const projectName = (projectId: string, context: ActivityContext) => `"${context.projectById.get(projectId)?.name ?? 'a deleted project'}"`;
+
+const formatValue = (field: string, value: ActivityValue, context: ActivityContext): string => {
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) return 'none';
+    if (field === 'dependsOn' && Array.isArray(value)) return value.map(id => taskName(id, 'a deleted task', context)).join(', ');
+    if (Array.isArray(value)) return value.join(', ');
+    if (DATE_FIELDS.has(field) && typeof value === 'string') return fromDateKey(taskDateKey(value)!).toLocaleDateString();
+    if (field === 'title' || field === 'name') return `"${value}"`;
+    return String(value);
+};
+
+const describeChanges = (changes: FieldChange[], context: ActivityContext) => changes.map(change => {
+    const label = FIELD_LABELS[change.field] || change.field;
+    if (VALUELESS_FIELDS.has(change.field)) return `updated the ${label}`;
+    return `changed ${label} from ${formatValue(change.field, change.from, context)} to ${formatValue(change.field, change.to, context)}`;
+}).join('; ');
+
+// The sentence shown in the activity feed, using current names where the entities still exist
+export const describeActivity = (event: ActivityEvent, context: ActivityContext): string => {
+    switch (event.type) {
+        case 'project.created': return `created project ${projectName(context.projectId, context)}.`;
+        case 'project.edited': return event.changes.length > 0 ? `edited the project: ${describeChanges(event.changes, context)}.` : 'edited project details.';
+        case 'project.archived': return `archived project ${projectName(context.projectId, context)}.`;
+        case 'project.restored': return `restored project ${projectName(context.projectId, context)}.`;
+        case 'project.imported': return `imported project ${projectName(context.projectId, context)}.`;
+        case 'task.created': return `created task ${taskName(event.taskId, event.title, context)}.`;
+        case 'task.edited': return `edited task ${taskName(event.taskId, event.title, context)}: ${describeChanges(event.changes, context)}.`;
+        case 'task.status_changed': {
+            const next = !event.nextTaskId ? ''
+                : event.nextDueDate ? ` Next occurrence scheduled for ${fromDateKey(taskDateKey(event.nextDueDate)!).toLocaleDateString()}.` : ' Next occurrence created.';
+            return `changed status of task ${taskName(event.taskId, event.title, context)} from ${event.from} to ${event.to}.${next}`;
+        }
+        case 'task.moved': {
+            const name = taskName(event.taskId, event.title, context);
+            if (event.fromProjectId !== event.toProjectId) {
+                return event.toProjectId === context.projectId
+                    ? `moved task ${name} into this project from ${projectName(event.fromProjectId, context)}.`
+                    : `moved task ${name} to project ${projectName(event.toProjectId, context)}.`;
+            }
+            return event.toParentId
+                ? `moved task ${name} under ${taskName(event.toParentId, 'a deleted task', context)}.`
+                : `moved task ${name} to the top level.`;
+        }
+        case 'task.deleted': return `deleted task ${taskName(event.taskId, event.title, context)}${event.subTaskCount > 0 ? ` and ${event.subTaskCount} sub-task(s)` : ''}.`;
+        case 'comment.added': return event.taskId ? `commented on task ${taskName(event.taskId, event.title ?? 'a deleted task', context)}.` : 'added a comment.';
+        case 'tasks.imported': return event.updated > 0
+            ? `imported ${event.created} new and ${event.updated} updated task(s) from "${event.fileName}".`
+            : `imported ${event.created} task(s) from "${event.fileName}".`;
+        case 'legacy': return event.text;
+    }
+};
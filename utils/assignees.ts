@@ -0,0 +1,36 @@
+import { Member, Task, UserProfile } from '../types';
+import { isProfileMember } from './profiles';
+
+// Special values of the dashboard assignee filter; any other value is a member name
+export const ASSIGNED_TO_ME = '@me';
+export const UNASSIGNED = '@none';
+
+// The task's assignees that are still members of its project
+export const getAssignees = (task: Task, members: Member[]): Member[] =>
+    task.assigneeIds.map(id => members.find(m => m.id === id)).filter((m): m is Member => !!m);
+
+/**
+ * Carries assignees over to another project's member list. Members are per project, so the same
+ * person is matched by linked profile, or by name when unlinked; `unmatched` are the assignees who are not members there.
+ */
+export const remapAssignees = (assigneeIds: string[], fromMembers: Member[], toMembers: Member[]): { assigneeIds: string[], unmatched: Member[] } => {
+    const mapped = new Set<string>();
+    const unmatched: Member[] = [];
+    assigneeIds.forEach(id => {
+        const member = fromMembers.find(m => m.id === id);
+        if (!member) return;
+        const target = toMembers.find(m => member.profileId !== null && m.profileId !== null ? m.profileId === member.profileId : m.name.toLowerCase() === member.name.toLowerCase());
+        if (target) mapped.add(target.id);
+        else unmatched.push(member);
+    });
+    return { assigneeIds: Array.from(mapped), unmatched };
+};
+
+// Whether a task passes the dashboard assignee filter; "Assigned to me" means the acting profile
+export const matchesAssigneeFilter = (task: Task, members: Member[], filter: string, currentUser: UserProfile | null): boolean => {
+    if (filter === 'All') return true;
+    const assignees = getAssignees(task, members);
+    if (filter === UNASSIGNED) return assignees.length === 0;
+    if (filter === ASSIGNED_TO_ME) return !!currentUser && assignees.some(m => isProfileMember(m, currentUser));
+    return assignees.some(m => m.name.toLowerCase() === filter.toLowerCase());
+};
@@ -0,0 +1,13 @@
+// Calendar days as YYYY-MM-DD strings in the user's time zone.
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const todayKey = () => toDateKey(new Date());
+
+// Task dates are stored as UTC midnight of their day, so the day is the date part of the ISO string
+export const taskDateKey = (date: string | null) => date ? date.slice(0, 10) : null;
+
+// Local midnight of a YYYY-MM-DD day
+export const fromDateKey = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
@@ -0,0 +1,14 @@
+// Saves text content as a file through a temporary link. Blob URLs avoid the size limits of data URLs.
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const fileDateStamp = () => new Date().toISOString().split('T')[0];
+
+// Turns a project name into something safe to use in a file name.
+export const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
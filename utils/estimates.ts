@@ -0,0 +1,98 @@
+import { EstimateUnit, Project, Task, TaskSnapshot } from '../types';
+import { groupHistoryByTask, getSnapshotAt, getEffectiveRemaining } from './taskHistory';
+import { toDateKey, fromDateKey, taskDateKey } from './dates';
+
+export const ESTIMATE_UNIT_LABELS: Record<EstimateUnit, string> = { hours: 'Hours', points: 'Story points' };
+
+export const formatEstimate = (value: number, unit: EstimateUnit) => {
+    const rounded = Math.round(value * 10) / 10;
+    return unit === 'hours' ? `${rounded}h` : `${rounded} pt${rounded === 1 ? '' : 's'}`;
+};
+
+export interface EstimateRollup {
+    estimate: number;
+    remaining: number;
+    hasEstimate: boolean; // Whether the task or any of its sub-tasks is estimated
+}
+
+// Each task's estimate and remaining effort including all of its sub-tasks
+export const getEstimateRollups = (tasks: Task[]): Map<string, EstimateRollup> => {
+    const childrenOf = new Map<string, Task[]>();
+    tasks.forEach(t => { if (t.parentId) childrenOf.set(t.parentId, [...(childrenOf.get(t.parentId) || []), t]); });
+
+    const rollups = new Map<string, EstimateRollup>();
+    const visit = (task: Task, seen: Set<string>): EstimateRollup => {
+        if (rollups.has(task.id)) return rollups.get(task.id)!;
+        const own: EstimateRollup = { estimate: task.estimate ?? 0, remaining: getEffectiveRemaining(task), hasEstimate: task.estimate !== null || task.remaining !== null };
+        if (seen.has(task.id)) return own;
+        seen.add(task.id);
+        const rollup = (childrenOf.get(task.id) || []).reduce((acc, child) => {
+            const childRollup = visit(child, seen);
+            return { estimate: acc.estimate + childRollup.estimate, remaining: acc.remaining + childRollup.remaining, hasEstimate: acc.hasEstimate || childRollup.hasEstimate };
+        }, own);
+        rollups.set(task.id, rollup);
+        return rollup;
+    };
+    tasks.forEach(task => visit(task, new Set<string>()));
+    return rollups;
+};
+
+export interface BurnChart {
+    days: string[]; // YYYY-MM-DD from the project start to the later of the target date and today
+    remaining: (number | null)[]; // Remaining work at the end of each day; null for days still ahead
+    scope: (number | null)[]; // Total estimated work at the end of each day
+    ideal: (number | null)[]; // Straight line from the starting work to zero on the target date; null without a target date
+}
+
+const MAX_CHART_DAYS = 730;
+
+/**
+ * Replays the recorded task history of a project day by day. A task counts towards the project for
+ * as long as its latest snapshot places it there and it has not been deleted.
+ */
+export const buildBurnChart = (project: Project, history: TaskSnapshot[], today: string): BurnChart => {
+    const startKey = taskDateKey(project.startDate) || toDateKey(new Date(project.createdAt));
+    const targetKey = taskDateKey(project.targetDate);
+    const endKey = targetKey && targetKey > today ? targetKey : today;
+
+    const days: string[] = [];
+    for (let day = fromDateKey(startKey); toDateKey(day) <= endKey && days.length < MAX_CHART_DAYS; day.setDate(day.getDate() + 1)) {
+        days.push(toDateKey(day));
+    }
+
+    const projectTaskIds = new Set(history.filter(s => s.projectId === project.id).map(s => s.taskId));
+    const byTask = groupHistoryByTask(history.filter(s => projectTaskIds.has(s.taskId)));
+
+    const remaining: (number | null)[] = [];
+    const scope: (number | null)[] = [];
+    days.forEach(day => {
+        if (day > today) {
+            remaining.push(null);
+            scope.push(null);
+            return;
+        }
+        const endOfDay = fromDateKey(day);
+        endOfDay.setDate(endOfDay.getDate() + 1);
+        const time = endOfDay.toISOString();
+        let dayRemaining = 0;
+        let dayScope = 0;
+        byTask.forEach(snapshots => {
+            const snapshot = getSnapshotAt(snapshots, time);
+            if (!snapshot || snapshot.isDeleted || snapshot.projectId !== project.id) return;
+            dayRemaining += getEffectiveRemaining(snapshot);
+            dayScope += snapshot.estimate ?? 0;
+        });
+        remaining.push(dayRemaining);
+        scope.push(dayScope);
+    });
+
+    // History may start after the project did; the ideal line then starts from the first recorded work
+    const startingWork = remaining.find(value => !!value) ?? 0;
+    const targetIndex = targetKey ? days.indexOf(targetKey) : -1;
+    const ideal = days.map((_, i) => {
+        if (targetIndex <= 0) return null;
+        return i >= targetIndex ? 0 : startingWork * (1 - i / targetIndex);
+    });
+
+    return { days, remaining, scope, ideal };
+};
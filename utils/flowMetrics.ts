@@ -0,0 +1,148 @@
+import { TaskSnapshot, TaskStatus } from '../types';
+import { groupHistoryByTask, getSnapshotAt } from './taskHistory';
+import { toDateKey, fromDateKey } from './dates';
+import { getWeekStart } from './timeTracking';
+
+export interface StatusTransition {
+    taskId: string;
+    projectId: string; // The task's project when its status changed
+    from: TaskStatus | null; // null when the task was created or restored
+    to: TaskStatus;
+    timestamp: string;
+}
+
+// Inclusive YYYY-MM-DD range in the user's time zone
+export interface DateRange {
+    from: string;
+    to: string;
+}
+
+const MAX_RANGE_DAYS = 731;
+
+const getDays = (range: DateRange): string[] => {
+    const days: string[] = [];
+    for (let day = fromDateKey(range.from); toDateKey(day) <= range.to && days.length < MAX_RANGE_DAYS; day.setDate(day.getDate() + 1)) {
+        days.push(toDateKey(day));
+    }
+    return days;
+};
+
+const endOfDay = (key: string) => {
+    const end = fromDateKey(key);
+    end.setDate(end.getDate() + 1);
+    return end.toISOString();
+};
+
+const inRange = (timestamp: string, range: DateRange) => {
+    const key = toDateKey(new Date(timestamp));
+    return key >= range.from && key <= range.to;
+};
+
+// null matches every project
+const inProject = (projectId: string, filter: string | null) => filter === null || projectId === filter;
+
+// Each task's status changes in time order, replayed from the recorded snapshots
+export const getStatusTransitions = (history: TaskSnapshot[]): Map<string, StatusTransition[]> => {
+    const transitions = new Map<string, StatusTransition[]>();
+    groupHistoryByTask(history).forEach((snapshots, taskId) => {
+        const list: StatusTransition[] = [];
+        let current: TaskStatus | null = null;
+        snapshots.forEach(s => {
+            if (s.isDeleted) {
+                current = null;
+                return;
+            }
+            if (s.status === current) return;
+            list.push({ taskId, projectId: s.projectId, from: current, to: s.status, timestamp: s.timestamp });
+            current = s.status;
+        });
+        transitions.set(taskId, list);
+    });
+    return transitions;
+};
+
+export interface CumulativeFlow {
+    days: string[];
+    counts: Record<TaskStatus, number>[]; // Tasks in each status at the end of each day
+}
+
+export const buildCumulativeFlow = (history: TaskSnapshot[], projectId: string | null, range: DateRange): CumulativeFlow => {
+    const days = getDays(range);
+    const byTask = groupHistoryByTask(history);
+    const counts = days.map(day => {
+        const time = endOfDay(day);
+        const dayCounts: Record<TaskStatus, number> = { [TaskStatus.ToDo]: 0, [TaskStatus.InProgress]: 0, [TaskStatus.Done]: 0 };
+        byTask.forEach(snapshots => {
+            const snapshot = getSnapshotAt(snapshots, time);
+            if (snapshot && !snapshot.isDeleted && inProject(snapshot.projectId, projectId)) dayCounts[snapshot.status]++;
+        });
+        return dayCounts;
+    });
+    return { days, counts };
+};
+
+export interface ThroughputWeek {
+    weekStart: string; // YYYY-MM-DD of the Monday
+    completed: number;
+}
+
+/**
+ * Tasks moved to Done per week; a task that is reopened and finished again counts again. Tasks
+ * that first appear as Done are not counted: they were recorded when history started, imported,
+ * or restored, and were not finished then.
+ */
+export const buildWeeklyThroughput = (transitions: Map<string, StatusTransition[]>, projectId: string | null, range: DateRange): ThroughputWeek[] => {
+    const weeks: ThroughputWeek[] = [];
+    for (let week = getWeekStart(fromDateKey(range.from)); toDateKey(week) <= range.to && weeks.length * 7 < MAX_RANGE_DAYS; week.setDate(week.getDate() + 7)) {
+        weeks.push({ weekStart: toDateKey(week), completed: 0 });
+    }
+    transitions.forEach(list => list.forEach(t => {
+        if (t.to !== TaskStatus.Done || t.from === null || !inProject(t.projectId, projectId) || !inRange(t.timestamp, range)) return;
+        const weekStart = toDateKey(getWeekStart(new Date(t.timestamp)));
+        const week = weeks.find(w => w.weekStart === weekStart);
+        if (week) week.completed++;
+    }));
+    return weeks;
+};
+
+export interface CycleTime {
+    taskId: string;
+    projectId: string;
+    startedAt: string;
+    completedAt: string;
+    days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The time from a task first moving to In Progress until it is Done, for every completion in the
+ * range. Tasks that go straight from To Do to Done have no cycle time. Reopening a task starts over.
+ */
+export const getCycleTimes = (transitions: Map<string, StatusTransition[]>, projectId: string | null, range: DateRange): CycleTime[] => {
+    const cycleTimes: CycleTime[] = [];
+    transitions.forEach(list => {
+        let startedAt: string | null = null;
+        list.forEach(t => {
+            if (t.to === TaskStatus.InProgress) {
+                startedAt = startedAt ?? t.timestamp;
+            } else if (t.to === TaskStatus.Done) {
+                if (startedAt && inProject(t.projectId, projectId) && inRange(t.timestamp, range)) {
+                    const days = (new Date(t.timestamp).getTime() - new Date(startedAt).getTime()) / DAY_MS;
+                    cycleTimes.push({ taskId: t.taskId, projectId: t.projectId, startedAt, completedAt: t.timestamp, days });
+                }
+                startedAt = null;
+            } else if (t.from === TaskStatus.Done || t.from === null) {
+                startedAt = null;
+            }
+        });
+    });
+    return cycleTimes.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+};
+
+// Nearest-rank percentile, or null without values
+export const getPercentile = (values: number[], percentile: number): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.max(0, Math.min(sorted.length - 1, Math.ceil(percentile / 100 * sorted.length) - 1))];
+};
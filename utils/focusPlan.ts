@@ -0,0 +1,77 @@
+import { AppState, FocusPlan, Task, TaskStatus, TaskPlacement } from '../types';
+import { todayKey, taskDateKey } from './dates';
+
+export const createFocusPlan = (tasks: Task[]): FocusPlan => ({
+    date: todayKey(),
+    order: tasks.filter(t => t.isFocused).map(t => t.id),
+    carriedOver: [],
+    autoRollover: true,
+});
+
+// Focused tasks of active projects in planned order. Tasks focused since the plan was last ordered go last.
+export const getFocusList = (state: AppState): Task[] => {
+    const archivedProjectIds = new Set(state.projects.filter(p => p.isArchived).map(p => p.id));
+    const position = new Map<string, number>(state.focusPlan.order.map((id, index) => [id, index]));
+    const positionOf = (task: Task) => position.get(task.id) ?? Number.MAX_SAFE_INTEGER;
+    return state.tasks
+        .filter(t => t.isFocused && !archivedProjectIds.has(t.projectId))
+        .sort((a, b) => positionOf(a) - positionOf(b) || a.createdAt.localeCompare(b.createdAt));
+};
+
+export interface PlanSuggestions {
+    carriedOver: Task[];
+    overdue: Task[];
+    dueToday: Task[];
+}
+
+// Open tasks worth adding to today's plan that are not on it yet
+export const getPlanSuggestions = (state: AppState, today: string): PlanSuggestions => {
+    const archivedProjectIds = new Set(state.projects.filter(p => p.isArchived).map(p => p.id));
+    const carriedOverIds = new Set(state.focusPlan.carriedOver);
+    const candidates = state.tasks.filter(t => !t.isFocused && t.status !== TaskStatus.Done && !archivedProjectIds.has(t.projectId));
+    const dueBy = (test: (due: string) => boolean) => candidates.filter(t => !carriedOverIds.has(t.id) && t.dueDate && test(taskDateKey(t.dueDate)!));
+    return {
+        carriedOver: candidates.filter(t => carriedOverIds.has(t.id)),
+        overdue: dueBy(due => due < today).sort((a, b) => a.dueDate!.localeCompare(b.dueDate!)),
+        dueToday: dueBy(due => due === today),
+    };
+};
+
+/**
+ * Moves the plan to a new day. Completed tasks leave the focus list. Unfinished ones stay focused
+ * when auto-rollover is on; otherwise they are unfocused and offered again by "Plan my day".
+ */
+export const startNewDay = (state: AppState, today: string): AppState => {
+    const plan = state.focusPlan;
+    const unfinished = getFocusList(state).filter(t => t.status !== TaskStatus.Done).map(t => t.id);
+    const kept = new Set(plan.autoRollover ? unfinished : []);
+    return {
+        ...state,
+        tasks: state.tasks.map(t => t.isFocused && !kept.has(t.id) ? { ...t, isFocused: false } : t),
+        focusPlan: {
+            ...plan,
+            date: today,
+            order: unfinished.filter(id => kept.has(id)),
+            carriedOver: plan.autoRollover ? [] : unfinished,
+        },
+    };
+};
+
+export const addToFocusPlan = (state: AppState, taskIds: string[]): AppState => {
+    const ids = new Set(taskIds);
+    const tasks = state.tasks.map(t => ids.has(t.id) ? { ...t, isFocused: true } : t);
+    const order = [...getFocusList(state).map(t => t.id), ...taskIds.filter(id => !state.focusPlan.order.includes(id))];
+    return {
+        ...state,
+        tasks,
+        focusPlan: { ...state.focusPlan, order: Array.from(new Set(order)), carriedOver: state.focusPlan.carriedOver.filter(id => !ids.has(id)) },
+    };
+};
+
+export const reorderFocusPlan = (state: AppState, taskId: string, placement: TaskPlacement): AppState => {
+    const order = getFocusList(state).map(t => t.id).filter(id => id !== taskId);
+    const targetIndex = order.indexOf(placement.targetId);
+    if (targetIndex === -1) return state;
+    order.splice(placement.position === 'top' ? targetIndex : targetIndex + 1, 0, taskId);
+    return { ...state, focusPlan: { ...state.focusPlan, order } };
+};
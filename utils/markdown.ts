@@ -0,0 +1,250 @@
+/**
+ * A small Markdown parser for descriptions and comments: headings, paragraphs, emphasis, inline and
+ * fenced code, links, block quotes, ordered, bullet and checklist items, tables and rules. It builds
+ * a tree that components render as React elements, so raw HTML in the source is always shown as text.
+ */
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | { type: 'mention'; memberId: string } // Comment mentions, stored as @[member:<id>]
+    | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+    checked: boolean | null; // null for items that are not checklist items
+    line: number; // Source line of the item's marker
+    children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'code'; language: string; text: string }
+    | { type: 'quote'; children: MarkdownBlock[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+    | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: 'rule' };
+
+interface SourceLine {
+    text: string;
+    index: number; // Line number in the original source
+}
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Only these link targets are rendered as links; anything else (javascript:, data:, ...) stays text
+export const sanitizeUrl = (url: string): string | null => /^(https?:\/\/|mailto:)/i.test(url.trim()) ? url.trim() : null;
+
+const splitTableRow = (line: string) => line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines: SourceLine[], i: number) => i + 1 < lines.length && lines[i].text.includes('|') && TABLE_DIVIDER.test(lines[i + 1].text) && lines[i + 1].text.includes('-');
+
+const startsBlock = (lines: SourceLine[], i: number) => {
+    const text = lines[i].text;
+    return FENCE.test(text) || HEADING.test(text) || RULE.test(text) || QUOTE.test(text) || LIST_ITEM.test(text) || isTableStart(lines, i);
+};
+
+const indentOf = (text: string) => text.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const parseInline = (text: string): MarkdownInline[] => {
+    const result: MarkdownInline[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) result.push({ type: 'text', text: buffer });
+        buffer = '';
+    };
+    let i = 0;
+    while (i < text.length) {
+        const rest = text.slice(i);
+        const previous = i > 0 ? text[i - 1] : ' ';
+        let match: RegExpExecArray | null;
+        if (rest[0] === '\\' && rest.length > 1 && /[\\`*_{}[\]()#+\-.!~|>@]/.test(rest[1])) {
+            buffer += rest[1];
+            i += 2;
+        } else if ((match = /^`([^`]+)`/.exec(rest))) {
+            flush();
+            result.push({ type: 'code', text: match[1] });
+            i += match[0].length;
+        } else if ((match = /^@\[member:([^\]]+)\]/.exec(rest))) {
+            flush();
+            result.push({ type: 'mention', memberId: match[1] });
+            i += match[0].length;
+        } else if ((match = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest)) && sanitizeUrl(match[2])) {
+            flush();
+            result.push({ type: 'link', href: sanitizeUrl(match[2])!, children: parseInline(match[1]) });
+            i += match[0].length;
+        } else if ((match = /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/.exec(rest)) && (match[1] === '**' || !/\w/.test(previous))) {
+            flush();
+            result.push({ type: 'strong', children: parseInline(match[2]) });
+            i += match[0].length;
+        } else if ((match = /^~~(?=\S)([\s\S]*?\S)~~/.exec(rest))) {
+            flush();
+            result.push({ type: 'del', children: parseInline(match[1]) });
+            i += match[0].length;
+        } else if ((match = /^([*_])(?=\S)([\s\S]*?\S)\1(?!\1)/.exec(rest)) && (match[1] === '*' || !/\w/.test(previous))) {
+            flush();
+            result.push({ type: 'em', children: parseInline(match[2]) });
+            i += match[0].length;
+        } else if ((match = /^https?:\/\/[^\s<]*[^\s<.,;:!?)"']/i.exec(rest)) && !/\w/.test(previous)) {
+            flush();
+            result.push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] });
+            i += match[0].length;
+        } else if (rest[0] === '\n') {
+            flush();
+            result.push({ type: 'break' });
+            i++;
+        } else {
+            buffer += rest[0];
+            i++;
+        }
+    }
+    flush();
+    return result;
+};
+
+const parseBlocks = (lines: SourceLine[]): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const { text } = lines[i];
+        let match: RegExpMatchArray | null;
+
+        if (!text.trim()) {
+            i++;
+        } else if ((match = text.match(FENCE))) {
+            const fence = match[1];
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && lines[i].text.trim() !== fence) code.push(lines[i++].text);
+            i++; // Closing fence, if any
+            blocks.push({ type: 'code', language: match[2], text: code.join('\n') });
+        } else if ((match = text.match(HEADING))) {
+            blocks.push({ type: 'heading', level: match[1].length, children: parseInline(match[2]) });
+            i++;
+        } else if (RULE.test(text)) {
+            blocks.push({ type: 'rule' });
+            i++;
+        } else if (QUOTE.test(text)) {
+            const quoted: SourceLine[] = [];
+            while (i < lines.length && (match = lines[i].text.match(QUOTE))) quoted.push({ text: match[1], index: lines[i++].index });
+            blocks.push({ type: 'quote', children: parseBlocks(quoted) });
+        } else if ((match = text.match(LIST_ITEM))) {
+            const baseIndent = indentOf(match[1]);
+            const ordered = /\d/.test(match[2]);
+            const items: MarkdownListItem[] = [];
+            while (i < lines.length) {
+                const itemMatch = lines[i].text.match(LIST_ITEM);
+                if (!itemMatch || indentOf(itemMatch[1]) !== baseIndent || /\d/.test(itemMatch[2]) !== ordered) break;
+                const line = lines[i].index;
+                const contentIndent = itemMatch[1].length + itemMatch[2].length + 1;
+                let content = itemMatch[3];
+                const checkbox = content.match(CHECKBOX);
+                if (checkbox) content = content.slice(checkbox[0].length);
+                const itemLines: SourceLine[] = [{ text: content, index: line }];
+                i++;
+                // Continuation lines are indented past the marker; a blank line only continues the item when indented text follows
+                while (i < lines.length) {
+                    const next = lines[i].text;
+                    if (next.trim() && indentOf(next) > baseIndent) {
+                        itemLines.push({ text: next.replace(new RegExp(`^\\s{0,${contentIndent}}`), ''), index: lines[i].index });
+                        i++;
+                    } else if (!next.trim() && i + 1 < lines.length && lines[i + 1].text.trim() && indentOf(lines[i + 1].text) > baseIndent) {
+                        itemLines.push({ text: '', index: lines[i].index });
+                        i++;
+                    } else if (next.trim() && !startsBlock(lines, i) && lines[i - 1].text.trim()) {
+                        itemLines.push({ text: next.trim(), index: lines[i].index }); // Lazy paragraph continuation
+                        i++;
+                    } else {
+                        break;
+                    }
+                }
+                items.push({ checked: checkbox ? checkbox[1] !== ' ' : null, line, children: parseBlocks(itemLines) });
+                while (i < lines.length && !lines[i].text.trim() && i + 1 < lines.length && (lines[i + 1].text.match(LIST_ITEM)?.[1].length ?? -1) === baseIndent) i++;
+            }
+            blocks.push({ type: 'list', ordered, start: ordered ? parseInt(match[2], 10) : 1, items });
+        } else if (isTableStart(lines, i)) {
+            const header = splitTableRow(text);
+            const align = splitTableRow(lines[i + 1].text).map((cell): TableAlign => {
+                if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+                if (cell.endsWith(':')) return 'right';
+                if (cell.startsWith(':')) return 'left';
+                return null;
+            });
+            i += 2;
+            const rows: MarkdownInline[][][] = [];
+            while (i < lines.length && lines[i].text.includes('|') && lines[i].text.trim()) {
+                const cells = splitTableRow(lines[i++].text);
+                rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+            }
+            blocks.push({ type: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(parseInline), rows });
+        } else {
+            const paragraph: string[] = [text.trim()];
+            i++;
+            while (i < lines.length && lines[i].text.trim() && !startsBlock(lines, i)) paragraph.push(lines[i++].text.trim());
+            blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+        }
+    }
+    return blocks;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] =>
+    parseBlocks(source.replace(/\r\n?/g, '\n').split('\n').map((text, index) => ({ text, index })));
+
+// Checklist items outside code blocks, as [line, checked] pairs
+const findChecklistLines = (source: string): [number, boolean][] => {
+    const found: [number, boolean][] = [];
+    let fence: string | null = null;
+    source.replace(/\r\n?/g, '\n').split('\n').forEach((text, index) => {
+        const fenceMatch = text.match(FENCE);
+        if (fenceMatch && (!fence || fenceMatch[1] === fence)) {
+            fence = fence ? null : fenceMatch[1];
+            return;
+        }
+        if (fence) return;
+        const match = text.replace(/^(\s*>\s?)*/, '').match(/^\s*(?:[-*+]|\d{1,9}[.)])\s+\[([ xX])\]\s+/);
+        if (match) found.push([index, match[1] !== ' ']);
+    });
+    return found;
+};
+
+export interface ChecklistProgress {
+    done: number;
+    total: number;
+}
+
+export const getChecklistProgress = (source: string): ChecklistProgress | null => {
+    const items = findChecklistLines(source);
+    return items.length > 0 ? { done: items.filter(([, checked]) => checked).length, total: items.length } : null;
+};
+
+// Checks or unchecks the checklist item on a source line
+export const toggleChecklistItem = (source: string, line: number): string => {
+    if (!findChecklistLines(source).some(([index]) => index === line)) return source;
+    const newline = source.includes('\r\n') ? '\r\n' : '\n';
+    const lines = source.split(/\r?\n/);
+    lines[line] = lines[line].replace(/\[([ xX])\]/, (_, mark: string) => mark === ' ' ? '[x]' : '[ ]');
+    return lines.join(newline);
+};
+
+// Readable plain text for one-line previews and search
+export const markdownToText = (source: string): string => source
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:>\s?)+/gm, '')
+    .replace(/^\s*(?:[-*+]|\d{1,9}[.)])\s+(\[[ xX]\]\s+)?/gm, '')
+    .replace(/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/gm, '') // Table dividers and rules
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|~~|`|\*)/g, '')
+    .replace(/\|/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
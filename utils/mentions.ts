@@ -0,0 +1,85 @@
+import { AppState, Comment, Member, Project, Task, UserProfile } from '../types';
+import { isProfileMember } from './profiles';
+
+const MENTION_TOKEN = /@\[member:([^\]]+)\]/g;
+
+export type CommentPart =
+    | { type: 'text'; text: string }
+    | { type: 'mention'; memberId: string; name: string };
+
+/**
+ * Turns typed `@Name` mentions of project members into member references. Longer names are matched
+ * first so "@Ann Lee" is not taken for "@Ann". Returns the stored content and the mentioned member IDs.
+ */
+export const encodeMentions = (text: string, members: Member[]): { content: string, mentions: string[] } => {
+    const byLength = [...members].sort((a, b) => b.name.length - a.name.length);
+    const mentions = new Set<string>();
+    let content = '';
+    for (let i = 0; i < text.length; i++) {
+        const atWordStart = i === 0 || /\s/.test(text[i - 1]);
+        const member = text[i] === '@' && atWordStart
+            ? byLength.find(m => text.slice(i + 1, i + 1 + m.name.length).toLowerCase() === m.name.toLowerCase() && !/\w/.test(text[i + 1 + m.name.length] || ''))
+            : undefined;
+        if (member) {
+            content += `@[member:${member.id}]`;
+            mentions.add(member.id);
+            i += member.name.length;
+        } else {
+            content += text[i];
+        }
+    }
+    return { content, mentions: Array.from(mentions) };
+};
+
+// Splits stored content into text and mentions, named after the members as they are now
+export const splitComment = (content: string, members: Member[]): CommentPart[] => {
+    const parts: CommentPart[] = [];
+    let last = 0;
+    for (const match of content.matchAll(MENTION_TOKEN)) {
+        if (match.index! > last) parts.push({ type: 'text', text: content.slice(last, match.index) });
+        parts.push({ type: 'mention', memberId: match[1], name: members.find(m => m.id === match[1])?.name ?? 'former member' });
+        last = match.index! + match[0].length;
+    }
+    if (last < content.length) parts.push({ type: 'text', text: content.slice(last) });
+    return parts;
+};
+
+// Plain-text version of stored content, e.g. for previews
+export const commentToText = (content: string, members: Member[]) =>
+    splitComment(content, members).map(part => part.type === 'text' ? part.text : `@${part.name}`).join('');
+
+/**
+ * The mention being typed at the caret: an `@` at the start of a word followed by the text up to the
+ * caret. Returns null when the caret is not in a mention.
+ */
+export const getMentionQuery = (text: string, caret: number): { start: number, query: string } | null => {
+    const start = text.lastIndexOf('@', caret - 1);
+    if (start === -1 || (start > 0 && !/\s/.test(text[start - 1]))) return null;
+    const query = text.slice(start + 1, caret);
+    if (query.includes('\n') || query.length > 40) return null;
+    return { start, query };
+};
+
+export const findMentionCandidates = (query: string, members: Member[]): Member[] => {
+    const normalized = query.toLowerCase();
+    return members.filter(m => m.name.toLowerCase().startsWith(normalized) || m.name.toLowerCase().split(/\s+/).some(word => word.startsWith(normalized)));
+};
+
+export interface MentionItem {
+    comment: Comment;
+    project: Project;
+    task: Task | null; // null for project comments, or when the task no longer exists
+}
+
+// Comments that mention the member this profile is on each project, newest first
+export const getMentionsOf = (state: AppState, profile: UserProfile | null): MentionItem[] => {
+    if (!profile) return [];
+    const taskById = new Map<string, Task>(state.tasks.map(t => [t.id, t]));
+    return state.projects.flatMap(project => {
+        const memberIds = new Set(project.members.filter(m => isProfileMember(m, profile)).map(m => m.id));
+        if (memberIds.size === 0) return [];
+        return (state.comments[project.id] || [])
+            .filter(c => c.mentions.some(id => memberIds.has(id)))
+            .map(comment => ({ comment, project, task: comment.taskId ? taskById.get(comment.taskId) || null : null }));
+    }).sort((a, b) => b.comment.createdAt.localeCompare(a.comment.createdAt));
+};
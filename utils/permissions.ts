@@ -0,0 +1,40 @@
+import { Project, ProjectRole, UserProfile } from '../types';
+import { findProfileMember } from './profiles';
+
+export type ProjectPermission = 'editProject' | 'manageMembers' | 'archiveProject' | 'deleteProject' | 'editTasks' | 'comment';
+
+const ROLE_PERMISSIONS: Record<ProjectRole, ProjectPermission[]> = {
+    [ProjectRole.Owner]: ['editProject', 'manageMembers', 'archiveProject', 'deleteProject', 'editTasks', 'comment'],
+    [ProjectRole.Collaborator]: ['editProject', 'editTasks', 'comment'],
+    [ProjectRole.Viewer]: [],
+};
+
+const PERMISSION_LABELS: Record<ProjectPermission, string> = {
+    editProject: 'edit',
+    manageMembers: 'change the members of',
+    archiveProject: 'archive or restore',
+    deleteProject: 'delete',
+    editTasks: 'change tasks in',
+    comment: 'comment on',
+};
+
+/**
+ * The current user's role on a project, where the current user is the acting profile. Roles are
+ * not enforced until a profile is chosen, nor on projects without members, which act as Owner;
+ * on other projects someone who is not a member can only view.
+ */
+export const getProjectRole = (project: Project, currentUser: UserProfile | null): ProjectRole => {
+    if (!currentUser || project.members.length === 0) return ProjectRole.Owner;
+    return findProfileMember(project, currentUser)?.role ?? ProjectRole.Viewer;
+};
+
+export const roleCan = (role: ProjectRole, permission: ProjectPermission): boolean => ROLE_PERMISSIONS[role].includes(permission);
+
+export const can = (project: Project, currentUser: UserProfile | null, permission: ProjectPermission): boolean =>
+    roleCan(getProjectRole(project, currentUser), permission);
+
+// Why an action was refused, e.g. 'Ann is a Viewer of "Website" and cannot change tasks in it.'
+export const describeDenial = (project: Project, currentUser: UserProfile | null, permission: ProjectPermission): string => {
+    const isMember = !!currentUser && !!findProfileMember(project, currentUser);
+    return `${currentUser?.name ?? 'You'} is ${isMember ? `a ${getProjectRole(project, currentUser)}` : 'not a member'} of "${project.name}" and cannot ${PERMISSION_LABELS[permission]} it.`;
+};
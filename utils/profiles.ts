@@ -0,0 +1,57 @@
+import { Member, Project, UserProfile } from '../types';
+
+export const PROFILE_COLORS = ['#0891b2', '#2563eb', '#7c3aed', '#c026d3', '#e11d48', '#ea580c', '#ca8a04', '#16a34a', '#475569'];
+
+// "Ada Lovelace" -> "AL", "cher" -> "CH"
+export const getInitials = (name: string): string => {
+    const words = name.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return '?';
+    if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+    return (words[0][0] + words[words.length - 1][0]).toUpperCase();
+};
+
+const getInitialsAvatarUrl = (initials: string, color: string): string => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40"><rect width="40" height="40" fill="${color}"/>`
+        + `<text x="50%" y="50%" dy=".35em" text-anchor="middle" font-family="sans-serif" font-size="16" font-weight="bold" fill="#fff">${initials.replace(/[<>&"]/g, '')}</text></svg>`;
+    return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+// The uploaded avatar, or the profile's initials drawn on its color
+export const getProfileAvatarUrl = (profile: UserProfile): string =>
+    profile.avatarDataUrl || getInitialsAvatarUrl(profile.initials, profile.color);
+
+/**
+ * Whether a project member is the given profile. Linked members match by profile; members that
+ * predate profiles, or were never linked, fall back to matching by name.
+ */
+export const isProfileMember = (member: Member, profile: UserProfile): boolean =>
+    member.profileId !== null ? member.profileId === profile.id : member.name.toLowerCase() === profile.name.trim().toLowerCase();
+
+export const findProfileMember = (project: Project, profile: UserProfile): Member | undefined =>
+    project.members.find(m => isProfileMember(m, profile));
+
+// A member as the rest of the app shows it: linked members take their profile's name and avatar
+export const applyProfileToMember = (member: Member, profile: UserProfile): Member =>
+    ({ ...member, profileId: profile.id, name: profile.name, avatarUrl: getProfileAvatarUrl(profile) });
+
+// After a profile is edited, every member linked to it is updated so the person looks the same in every project
+export const syncLinkedMembers = (projects: Project[], profile: UserProfile): Project[] =>
+    projects.map(p => p.members.some(m => m.profileId === profile.id)
+        ? { ...p, members: p.members.map(m => m.profileId === profile.id ? applyProfileToMember(m, profile) : m) }
+        : p);
+
+// After a profile is deleted its members stay on their projects under their last name, unlinked
+export const unlinkProfile = (projects: Project[], profileId: string): Project[] =>
+    projects.map(p => p.members.some(m => m.profileId === profileId)
+        ? { ...p, members: p.members.map(m => m.profileId === profileId ? { ...m, profileId: null } : m) }
+        : p);
+
+/**
+ * The name and avatar to show for something written by a profile, preferring how the profile looks
+ * now. Without the profile, the name and avatar stored at the time are used.
+ */
+export const resolveAuthor = (profiles: UserProfile[], profileId: string | null, storedName: string, storedAvatarUrl = ''): { name: string, avatarUrl: string } => {
+    const profile = profileId ? profiles.find(p => p.id === profileId) : undefined;
+    if (profile) return { name: profile.name, avatarUrl: getProfileAvatarUrl(profile) };
+    return { name: storedName, avatarUrl: storedAvatarUrl || getInitialsAvatarUrl(getInitials(storedName), '#475569') };
+};
@@ -0,0 +1,123 @@
+import { Task, TaskStatus, RecurrenceRule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WEEK_OF_MONTH_NAMES = ['First', 'Second', 'Third', 'Fourth', 'Last'];
+
+// Task dates are stored as UTC midnight, so all calendar maths here is done in UTC.
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const startOfUTCWeek = (date: Date) => {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    return addDays(day, -day.getUTCDay());
+};
+
+const daysInUTCMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const nthWeekdayOfMonth = (year: number, month: number, weekOfMonth: number, dayOfWeek: number): Date => {
+    if (weekOfMonth >= 5) {
+        const lastDay = new Date(Date.UTC(year, month, daysInUTCMonth(year, month)));
+        return addDays(lastDay, -((lastDay.getUTCDay() - dayOfWeek + 7) % 7));
+    }
+    const firstDay = new Date(Date.UTC(year, month, 1));
+    const offset = (dayOfWeek - firstDay.getUTCDay() + 7) % 7;
+    return addDays(firstDay, offset + (weekOfMonth - 1) * 7);
+};
+
+// Returns the first occurrence strictly after `from`, keeping its time of day.
+export const getNextOccurrence = (rule: RecurrenceRule, from: Date): Date => {
+    const timeOfDay = from.getTime() % DAY_MS;
+    const withTime = (day: Date) => new Date(day.getTime() - (day.getTime() % DAY_MS) + timeOfDay);
+
+    switch (rule.type) {
+        case 'daily':
+            return addDays(from, 1);
+        case 'weekdays': {
+            let next = addDays(from, 1);
+            while (next.getUTCDay() === 0 || next.getUTCDay() === 6) next = addDays(next, 1);
+            return next;
+        }
+        case 'weekly': {
+            const interval = Math.max(1, rule.interval);
+            const days = rule.daysOfWeek.length > 0 ? rule.daysOfWeek : [from.getUTCDay()];
+            const anchorWeek = startOfUTCWeek(from).getTime();
+            for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+                const candidate = addDays(from, offset);
+                const weeksApart = Math.round((startOfUTCWeek(candidate).getTime() - anchorWeek) / (7 * DAY_MS));
+                if (weeksApart % interval === 0 && days.includes(candidate.getUTCDay())) return candidate;
+            }
+            return addDays(from, 7 * interval);
+        }
+        case 'monthlyByDay': {
+            for (let monthOffset = 0; monthOffset <= 1; monthOffset++) {
+                const year = from.getUTCFullYear();
+                const month = from.getUTCMonth() + monthOffset;
+                const day = Math.min(rule.dayOfMonth, daysInUTCMonth(year, month));
+                const candidate = withTime(new Date(Date.UTC(year, month, day)));
+                if (candidate > from) return candidate;
+            }
+            return addDays(from, 28);
+        }
+        case 'monthlyByWeekday': {
+            for (let monthOffset = 0; monthOffset <= 1; monthOffset++) {
+                const candidate = withTime(nthWeekdayOfMonth(from.getUTCFullYear(), from.getUTCMonth() + monthOffset, rule.weekOfMonth, rule.dayOfWeek));
+                if (candidate > from) return candidate;
+            }
+            return addDays(from, 28);
+        }
+    }
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+    switch (rule.type) {
+        case 'daily': return 'Daily';
+        case 'weekdays': return 'Every weekday';
+        case 'weekly': {
+            const every = rule.interval > 1 ? `Every ${rule.interval} weeks` : 'Weekly';
+            const days = [...rule.daysOfWeek].sort().map(d => WEEKDAY_NAMES[d]).join(', ');
+            return days ? `${every} on ${days}` : every;
+        }
+        case 'monthlyByDay': return `Monthly on day ${rule.dayOfMonth}`;
+        case 'monthlyByWeekday': return `Monthly on the ${WEEK_OF_MONTH_NAMES[rule.weekOfMonth - 1].toLowerCase()} ${WEEKDAY_NAMES[rule.dayOfWeek]}`;
+    }
+};
+
+/**
+ * Builds the next instance of a recurring task together with a fresh copy of its sub-task tree.
+ * Dates of the whole tree are shifted by the same amount so relative scheduling is preserved.
+ * The rule moves to the new instance, so the series continues from there. Callers that complete
+ * several tasks at once pass a distinct `idPrefix` for each, so the new IDs do not collide.
+ */
+export const createNextRecurrence = (task: Task, allTasks: Task[], idPrefix?: string): { nextTasks: Task[], nextDueDate: string | null } | null => {
+    if (!task.recurrence) return null;
+
+    const anchor = task.dueDate || task.startDate;
+    const shiftMs = anchor ? getNextOccurrence(task.recurrence, new Date(anchor)).getTime() - new Date(anchor).getTime() : 0;
+    const shiftDate = (date: string | null) => date ? new Date(new Date(date).getTime() + shiftMs).toISOString() : null;
+
+    const subtree: Task[] = [task];
+    for (let i = 0; i < subtree.length; i++) {
+        subtree.push(...allTasks.filter(t => t.parentId === subtree[i].id));
+    }
+
+    const now = Date.now();
+    const idMap = new Map<string, string>(subtree.map((t, index) => [t.id, `${idPrefix ?? `task_${now}`}_${index}`]));
+    const siblings = allTasks.filter(t => t.projectId === task.projectId && t.parentId === task.parentId);
+
+    const nextTasks = subtree.map((t): Task => ({
+        ...t,
+        id: idMap.get(t.id)!,
+        parentId: t.id === task.id ? t.parentId : idMap.get(t.parentId!)!,
+        status: TaskStatus.ToDo,
+        remaining: null, // The next occurrence starts from the full estimate
+        startDate: shiftDate(t.startDate),
+        dueDate: shiftDate(t.dueDate),
+        dependsOn: t.dependsOn.map(id => idMap.get(id) || id),
+        isFocused: false,
+        createdAt: new Date(now).toISOString(),
+        order: t.id === task.id ? siblings.reduce((max, s) => Math.max(s.order, max), -1) + 1 : t.order,
+    }));
+
+    return { nextTasks, nextDueDate: nextTasks[0].dueDate || nextTasks[0].startDate };
+};
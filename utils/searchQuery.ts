@@ -0,0 +1,232 @@
+import { Project, Task, TaskStatus, TaskPriority } from '../types';
+import { getBlockingTasks } from './taskTree';
+import { toDateKey, todayKey, taskDateKey } from './dates';
+
+/**
+ * The header search syntax. Terms are separated by spaces and all of them must match; a leading
+ * "-" negates a term and double quotes group words, e.g.
+ *   status:"in progress" priority:high tag:frontend project:"Website" due:<7d is:focused -tag:later "free text"
+ */
+
+export type DateComparison = '<' | '<=' | '>' | '>=' | '=';
+export type TaskState = 'focused' | 'overdue' | 'blocked' | 'recurring' | 'open';
+export type TaskProperty = 'subtasks' | 'dependencies' | 'due' | 'start' | 'description' | 'tags';
+
+export type SearchFilter =
+    | { type: 'text'; text: string }
+    | { type: 'status'; status: TaskStatus }
+    | { type: 'priority'; priority: TaskPriority }
+    | { type: 'tag'; tag: string }
+    | { type: 'project'; name: string }
+    | { type: 'date'; field: 'dueDate' | 'startDate'; comparison: DateComparison; date: string } // date is YYYY-MM-DD
+    | { type: 'is'; state: TaskState }
+    | { type: 'has'; property: TaskProperty };
+
+export interface SearchClause {
+    filter: SearchFilter;
+    negated: boolean;
+}
+
+// Positions are character offsets into the query so the header can point at the offending token
+export interface SearchError {
+    start: number;
+    end: number;
+    token: string;
+    message: string;
+}
+
+export interface SearchQuery {
+    clauses: SearchClause[];
+    errors: SearchError[];
+}
+
+export const EMPTY_SEARCH: SearchQuery = { clauses: [], errors: [] };
+
+const TASK_STATES: TaskState[] = ['focused', 'overdue', 'blocked', 'recurring', 'open'];
+const TASK_PROPERTIES: TaskProperty[] = ['subtasks', 'dependencies', 'due', 'start', 'description', 'tags'];
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s_-]+/g, '');
+
+const parseStatus = (value: string): TaskStatus | undefined =>
+    Object.values(TaskStatus).find(s => normalize(s) === normalize(value)) || (normalize(value) === 'progress' ? TaskStatus.InProgress : undefined);
+
+const parsePriority = (value: string): TaskPriority | undefined =>
+    Object.values(TaskPriority).find(p => p.toLowerCase() === value.toLowerCase());
+
+// Accepts "today", "tomorrow", "yesterday", offsets such as "7d", "-3d" or "2w", and YYYY-MM-DD
+const parseDateValue = (value: string): string | null => {
+    const today = new Date();
+    const named: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+    if (value.toLowerCase() in named) {
+        today.setDate(today.getDate() + named[value.toLowerCase()]);
+        return toDateKey(today);
+    }
+    const offset = value.match(/^([+-]?\d+)([dw])$/i);
+    if (offset) {
+        today.setDate(today.getDate() + parseInt(offset[1]) * (offset[2].toLowerCase() === 'w' ? 7 : 1));
+        return toDateKey(today);
+    }
+    const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (date && !isNaN(new Date(`${value}T00:00:00Z`).getTime())) return value;
+    return null;
+};
+
+const parseFilter = (key: string, value: string): SearchFilter | string => {
+    switch (key) {
+        case 'status': {
+            const status = parseStatus(value);
+            return status ? { type: 'status', status } : `Unknown status "${value}". Use ${Object.values(TaskStatus).map(s => `"${s.toLowerCase()}"`).join(', ')}.`;
+        }
+        case 'priority': {
+            const priority = parsePriority(value);
+            return priority ? { type: 'priority', priority } : `Unknown priority "${value}". Use high, medium or low.`;
+        }
+        case 'tag':
+            return value ? { type: 'tag', tag: value } : 'Missing tag name.';
+        case 'project':
+            return value ? { type: 'project', name: value } : 'Missing project name.';
+        case 'due':
+        case 'start': {
+            const match = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+            const date = parseDateValue(match[2]);
+            if (!date) return `"${match[2]}" is not a date. Use today, 7d, -2w or YYYY-MM-DD.`;
+            return { type: 'date', field: key === 'due' ? 'dueDate' : 'startDate', comparison: (match[1] || '=') as DateComparison, date };
+        }
+        case 'is':
+            return TASK_STATES.includes(value.toLowerCase() as TaskState)
+                ? { type: 'is', state: value.toLowerCase() as TaskState }
+                : `Unknown state "${value}". Use ${TASK_STATES.join(', ')}.`;
+        case 'has':
+            return TASK_PROPERTIES.includes(value.toLowerCase() as TaskProperty)
+                ? { type: 'has', property: value.toLowerCase() as TaskProperty }
+                : `Unknown property "${value}". Use ${TASK_PROPERTIES.join(', ')}.`;
+        default:
+            return `Unknown filter "${key}:". Put text containing a colon in double quotes.`;
+    }
+};
+
+export const parseSearchQuery = (query: string): SearchQuery => {
+    const clauses: SearchClause[] = [];
+    const errors: SearchError[] = [];
+    let i = 0;
+
+    // Reads a double-quoted string starting at the opening quote
+    const readQuoted = (): { text: string, closed: boolean } => {
+        const close = query.indexOf('"', i + 1);
+        const text = query.slice(i + 1, close === -1 ? query.length : close);
+        i = close === -1 ? query.length : close + 1;
+        return { text, closed: close !== -1 };
+    };
+
+    while (i < query.length) {
+        if (/\s/.test(query[i])) { i++; continue; }
+        const start = i;
+        const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+        if (negated) i++;
+
+        let key: string | null = null;
+        let value: string;
+        let closed = true;
+        if (query[i] === '"') {
+            ({ text: value, closed } = readQuoted());
+        } else {
+            const word = query.slice(i).match(/^[^\s"]*/)![0];
+            const colon = word.indexOf(':');
+            if (colon > 0) {
+                key = word.slice(0, colon).toLowerCase();
+                i += colon + 1;
+                if (query[i] === '"') ({ text: value, closed } = readQuoted());
+                else {
+                    value = query.slice(i).match(/^\S*/)![0];
+                    i += value.length;
+                }
+            } else {
+                value = word;
+                i += word.length;
+                if (query[i] === '"') i++; // A stray quote glued to a word
+            }
+        }
+
+        const token = query.slice(start, i);
+        if (!closed) errors.push({ start, end: i, token, message: 'Missing closing quote.' });
+        if (key === null) {
+            if (value.trim()) clauses.push({ filter: { type: 'text', text: value.trim().toLowerCase() }, negated });
+            continue;
+        }
+        const filter = parseFilter(key, value.trim());
+        if (typeof filter === 'string') errors.push({ start, end: i, token, message: filter });
+        else clauses.push({ filter, negated });
+    }
+
+    return { clauses, errors };
+};
+
+// Filters that only a task can satisfy; a project on its own never matches them
+const isTaskFilter = (filter: SearchFilter) => !['text', 'tag', 'project'].includes(filter.type);
+
+const compareDates = (value: string, comparison: DateComparison, date: string) => {
+    switch (comparison) {
+        case '<': return value < date;
+        case '<=': return value <= date;
+        case '>': return value > date;
+        case '>=': return value >= date;
+        default: return value === date;
+    }
+};
+
+const includesText = (text: string, query: string) => text.toLowerCase().includes(query);
+const hasTag = (tags: string[], tag: string) => tags.some(t => t.toLowerCase() === tag.toLowerCase());
+
+const projectMatchesFilter = (project: Project, filter: SearchFilter): boolean => {
+    switch (filter.type) {
+        case 'text': return includesText(project.name, filter.text) || includesText(project.description, filter.text);
+        case 'tag': return hasTag(project.tags, filter.tag);
+        case 'project': return includesText(project.name, filter.name.toLowerCase());
+        default: return false;
+    }
+};
+
+const taskMatchesFilter = (task: Task, project: Project, filter: SearchFilter, projectTasks: Task[]): boolean => {
+    switch (filter.type) {
+        case 'text': return includesText(task.title, filter.text) || includesText(task.description, filter.text) || projectMatchesFilter(project, filter);
+        case 'status': return task.status === filter.status;
+        case 'priority': return task.priority === filter.priority;
+        case 'tag': return hasTag(task.tags, filter.tag) || hasTag(project.tags, filter.tag);
+        case 'project': return projectMatchesFilter(project, filter);
+        case 'date': {
+            const value = taskDateKey(task[filter.field]);
+            return value !== null && compareDates(value, filter.comparison, filter.date);
+        }
+        case 'is':
+            switch (filter.state) {
+                case 'focused': return task.isFocused;
+                case 'overdue': return task.status !== TaskStatus.Done && !!task.dueDate && taskDateKey(task.dueDate)! < todayKey();
+                case 'blocked': return task.status !== TaskStatus.Done && getBlockingTasks(task, projectTasks).length > 0;
+                case 'recurring': return !!task.recurrence;
+                case 'open': return task.status !== TaskStatus.Done;
+            }
+            return false;
+        case 'has':
+            switch (filter.property) {
+                case 'subtasks': return projectTasks.some(t => t.parentId === task.id);
+                case 'dependencies': return (task.dependsOn || []).length > 0;
+                case 'due': return !!task.dueDate;
+                case 'start': return !!task.startDate;
+                case 'description': return !!task.description.trim();
+                case 'tags': return task.tags.length > 0;
+            }
+            return false;
+    }
+};
+
+export const matchesProject = (project: Project, query: SearchQuery): boolean =>
+    query.clauses.every(({ filter, negated }) => isTaskFilter(filter) ? false : projectMatchesFilter(project, filter) !== negated);
+
+export const matchesTask = (task: Task, project: Project, query: SearchQuery, projectTasks: Task[]): boolean =>
+    query.clauses.every(({ filter, negated }) => taskMatchesFilter(task, project, filter, projectTasks) !== negated);
+
+// The words to mark in task and project text: free text and project names that are not negated
+export const getHighlightTerms = (query: SearchQuery): string[] => query.clauses
+    .filter(c => !c.negated)
+    .map(({ filter }) => filter.type === 'text' ? filter.text : filter.type === 'project' ? filter.name : '')
+    .filter(Boolean);
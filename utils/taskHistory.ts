@@ -0,0 +1,73 @@
+import { AppState, Task, TaskSnapshot, TaskStatus } from '../types';
+
+const snapshotOf = (task: Task, timestamp: string, id: string, isDeleted = false): TaskSnapshot => ({
+    id,
+    taskId: task.id,
+    projectId: task.projectId,
+    timestamp,
+    status: task.status,
+    estimate: task.estimate,
+    remaining: task.remaining,
+    isDeleted,
+});
+
+const isUnchanged = (task: Task, snapshot: TaskSnapshot | undefined) => !!snapshot && !snapshot.isDeleted
+    && snapshot.projectId === task.projectId && snapshot.status === task.status
+    && snapshot.estimate === task.estimate && snapshot.remaining === task.remaining;
+
+// The starting point of the history: one snapshot per existing task
+export const createTaskHistory = (tasks: Task[], now: Date): TaskSnapshot[] => {
+    const timestamp = now.toISOString();
+    return tasks.map((task, i) => snapshotOf(task, timestamp, `hist_${now.getTime()}_${i}`));
+};
+
+/**
+ * Appends a snapshot for every task whose project, status, estimate or remaining effort differs
+ * between two states, and for every task that was deleted. Tasks that arrive with a history of
+ * their own (a project import) are only recorded when they differ from their latest snapshot.
+ */
+export const recordTaskHistory = (previous: AppState, next: AppState, now: Date): AppState => {
+    if (next.tasks === previous.tasks) return next;
+    const previousById = new Map<string, Task>(previous.tasks.map(t => [t.id, t]));
+    const nextIds = new Set(next.tasks.map(t => t.id));
+    const changed = next.tasks.filter(t => previousById.get(t.id) !== t);
+    const deleted = previous.tasks.filter(t => !nextIds.has(t.id));
+    if (changed.length === 0 && deleted.length === 0) return next;
+
+    const latest = new Map<string, TaskSnapshot>();
+    next.taskHistory.forEach(s => { if (!latest.has(s.taskId) || latest.get(s.taskId)!.timestamp <= s.timestamp) latest.set(s.taskId, s); });
+
+    const timestamp = now.toISOString();
+    let counter = 0;
+    const newId = () => `hist_${now.getTime()}_${counter++}`;
+    const added: TaskSnapshot[] = [
+        ...changed.filter(t => !isUnchanged(t, latest.get(t.id))).map(t => snapshotOf(t, timestamp, newId())),
+        ...deleted.map(t => snapshotOf(t, timestamp, newId(), true)),
+    ];
+    return added.length > 0 ? { ...next, taskHistory: [...next.taskHistory, ...added] } : next;
+};
+
+// Each task's snapshots in time order
+export const groupHistoryByTask = (history: TaskSnapshot[]): Map<string, TaskSnapshot[]> => {
+    const byTask = new Map<string, TaskSnapshot[]>();
+    [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).forEach(s => {
+        if (!byTask.has(s.taskId)) byTask.set(s.taskId, []);
+        byTask.get(s.taskId)!.push(s);
+    });
+    return byTask;
+};
+
+// The snapshot in effect at `time`, or undefined when the task did not exist yet
+export const getSnapshotAt = (snapshots: TaskSnapshot[], time: string): TaskSnapshot | undefined => {
+    let found: TaskSnapshot | undefined;
+    for (const s of snapshots) {
+        if (s.timestamp > time) break;
+        found = s;
+    }
+    return found;
+};
+
+export const getEffectiveRemaining = (item: Pick<Task, 'status' | 'estimate' | 'remaining'>): number => {
+    if (item.status === TaskStatus.Done) return 0;
+    return item.remaining ?? item.estimate ?? 0;
+};
@@ -0,0 +1,50 @@
+import { Task, TaskStatus } from '../types';
+
+export const getDescendants = (taskId: string, tasks: Task[]): Set<string> => {
+    const descendants = new Set<string>();
+    const queue = [taskId];
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        const children = tasks.filter(t => t.parentId === currentId);
+        for (const child of children) {
+            if (!descendants.has(child.id)) {
+                descendants.add(child.id);
+                queue.push(child.id);
+            }
+        }
+    }
+    return descendants;
+};
+
+// Tasks that depend on `taskId`, directly or through a chain of dependencies.
+export const getDependents = (taskId: string, tasks: Task[]): Set<string> => {
+    const dependents = new Set<string>();
+    const queue = [taskId];
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        const directDependents = tasks.filter(t => (t.dependsOn || []).includes(currentId));
+        for (const dependent of directDependents) {
+            if (!dependents.has(dependent.id)) {
+                dependents.add(dependent.id);
+                queue.push(dependent.id);
+            }
+        }
+    }
+    return dependents;
+};
+
+export const getBlockingTasks = (task: Task, tasks: Task[]): Task[] =>
+    tasks.filter(t => (task.dependsOn || []).includes(t.id) && t.status !== TaskStatus.Done);
+
+// Parents of a task, outermost first
+export const getAncestors = (task: Task, taskById: Map<string, Task>): Task[] => {
+    const ancestors: Task[] = [];
+    const seen = new Set<string>([task.id]);
+    let parent = task.parentId ? taskById.get(task.parentId) : undefined;
+    while (parent && !seen.has(parent.id)) {
+        ancestors.unshift(parent);
+        seen.add(parent.id);
+        parent = parent.parentId ? taskById.get(parent.parentId) : undefined;
+    }
+    return ancestors;
+};
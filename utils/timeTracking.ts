@@ -0,0 +1,181 @@
+import { AppState, PomodoroSettings, Project, Task, TimeEntry } from '../types';
+import { toDateKey } from './dates';
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = { enabled: false, workMinutes: 25, breakMinutes: 5 };
+
+const MINUTE_MS = 60 * 1000;
+
+export const getEntryDuration = (entry: TimeEntry) => Math.max(0, new Date(entry.end).getTime() - new Date(entry.start).getTime());
+
+export const formatDuration = (ms: number): string => {
+    const totalMinutes = Math.floor(ms / MINUTE_MS);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${minutes}m`;
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+};
+
+// Clock display for a running timer, e.g. 1:05:09 or 24:59
+export const formatClock = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+// When the current Pomodoro phase ends, or null for a plain timer
+export const getPhaseEnd = (state: AppState): number | null => {
+    const timer = state.activeTimer;
+    if (!timer?.pomodoro) return null;
+    const minutes = timer.pomodoro.phase === 'work' ? timer.pomodoro.workMinutes : timer.pomodoro.breakMinutes;
+    return new Date(timer.segmentStartedAt).getTime() + minutes * MINUTE_MS;
+};
+
+const recordEntry = (entries: TimeEntry[], taskId: string, start: string, end: string, note: string): TimeEntry[] => {
+    if (new Date(end).getTime() <= new Date(start).getTime()) return entries;
+    return [...entries, { id: `time_${new Date(end).getTime()}_${entries.length}`, taskId, start, end, note }];
+};
+
+// Records the work in progress and clears the timer. Time spent in a Pomodoro break is not recorded.
+export const stopTimer = (state: AppState, now: Date): AppState => {
+    const timer = state.activeTimer;
+    if (!timer) return state;
+    const isWorking = !timer.pomodoro || timer.pomodoro.phase === 'work';
+    return {
+        ...state,
+        timeEntries: isWorking ? recordEntry(state.timeEntries, timer.taskId, timer.segmentStartedAt, now.toISOString(), timer.note) : state.timeEntries,
+        activeTimer: null,
+    };
+};
+
+// Starting a timer stops the one that is running, so there is never more than one
+export const startTimer = (state: AppState, taskId: string, now: Date): AppState => {
+    const settings = state.pomodoroSettings;
+    return {
+        ...stopTimer(state, now),
+        activeTimer: {
+            taskId,
+            note: '',
+            segmentStartedAt: now.toISOString(),
+            pomodoro: settings.enabled ? { ...settings, phase: 'work' } : null,
+        },
+    };
+};
+
+// Drops the time entries and the running timer of tasks that no longer exist
+export const removeOrphanedTime = (state: AppState): AppState => {
+    const taskIds = new Set(state.tasks.map(t => t.id));
+    return {
+        ...state,
+        timeEntries: state.timeEntries.filter(e => taskIds.has(e.taskId)),
+        activeTimer: state.activeTimer && taskIds.has(state.activeTimer.taskId) ? state.activeTimer : null,
+    };
+};
+
+/**
+ * Moves a Pomodoro timer through every phase that has ended by `now`, recording each finished work
+ * phase, and returns the phase the timer is in afterwards (null when nothing changed). When a whole
+ * work phase would have passed unattended, e.g. while the app was closed, the timer stops instead
+ * of logging time nobody was there for.
+ */
+export const advancePomodoro = (state: AppState, now: Date): { state: AppState, phase: 'work' | 'break' | 'stopped' | null } => {
+    let current = state;
+    let changed = false;
+    let phaseEnd = getPhaseEnd(current);
+    while (phaseEnd !== null && phaseEnd <= now.getTime()) {
+        const timer = current.activeTimer!;
+        const pomodoro = timer.pomodoro!;
+        const end = new Date(phaseEnd).toISOString();
+        if (pomodoro.phase === 'break' && phaseEnd + pomodoro.workMinutes * MINUTE_MS <= now.getTime()) {
+            return { state: { ...current, activeTimer: null }, phase: 'stopped' };
+        }
+        current = {
+            ...current,
+            timeEntries: pomodoro.phase === 'work' ? recordEntry(current.timeEntries, timer.taskId, timer.segmentStartedAt, end, timer.note) : current.timeEntries,
+            activeTimer: { ...timer, segmentStartedAt: end, pomodoro: { ...pomodoro, phase: pomodoro.phase === 'work' ? 'break' : 'work' } },
+        };
+        changed = true;
+        phaseEnd = getPhaseEnd(current);
+    }
+    return { state: current, phase: changed ? current.activeTimer!.pomodoro!.phase : null };
+};
+
+export interface TimeTotal {
+    own: number; // Milliseconds logged on the task itself
+    total: number; // Including all sub-tasks
+}
+
+export const getTimeTotals = (tasks: Task[], entries: TimeEntry[]): Map<string, TimeTotal> => {
+    const own = new Map<string, number>();
+    entries.forEach(e => own.set(e.taskId, (own.get(e.taskId) || 0) + getEntryDuration(e)));
+    const childrenOf = new Map<string, Task[]>();
+    tasks.forEach(t => { if (t.parentId) childrenOf.set(t.parentId, [...(childrenOf.get(t.parentId) || []), t]); });
+
+    const totals = new Map<string, TimeTotal>();
+    const visit = (task: Task, seen: Set<string>): number => {
+        if (totals.has(task.id)) return totals.get(task.id)!.total;
+        if (seen.has(task.id)) return 0;
+        seen.add(task.id);
+        const ownTime = own.get(task.id) || 0;
+        const total = (childrenOf.get(task.id) || []).reduce((sum, child) => sum + visit(child, seen), ownTime);
+        totals.set(task.id, { own: ownTime, total });
+        return total;
+    };
+    tasks.forEach(task => visit(task, new Set<string>()));
+    return totals;
+};
+
+export const getProjectTimeTotals = (tasks: Task[], entries: TimeEntry[]): Record<string, number> => {
+    const projectOfTask = new Map<string, string>(tasks.map(t => [t.id, t.projectId]));
+    return entries.reduce((acc, e) => {
+        const projectId = projectOfTask.get(e.taskId);
+        if (projectId) acc[projectId] = (acc[projectId] || 0) + getEntryDuration(e);
+        return acc;
+    }, {} as Record<string, number>);
+};
+
+// The Monday (local time) of the week containing `date`
+export const getWeekStart = (date: Date): Date => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+};
+
+export interface TimesheetRow {
+    project: Project;
+    task: Task;
+    days: number[]; // Milliseconds per day, Monday first
+    total: number;
+}
+
+export interface Timesheet {
+    days: string[]; // YYYY-MM-DD, Monday first
+    rows: TimesheetRow[]; // Grouped by project
+    entries: TimeEntry[];
+}
+
+// Entries count towards the day they started on
+export const buildTimesheet = (state: AppState, weekStart: Date): Timesheet => {
+    const days = Array.from({ length: 7 }, (_, i) => toDateKey(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i)));
+    const taskById = new Map<string, Task>(state.tasks.map(t => [t.id, t]));
+    const projectById = new Map<string, Project>(state.projects.map(p => [p.id, p]));
+    const rowsByTask = new Map<string, TimesheetRow>();
+    const entries = state.timeEntries.filter(e => days.includes(toDateKey(new Date(e.start))));
+
+    entries.forEach(entry => {
+        const task = taskById.get(entry.taskId);
+        const project = task && projectById.get(task.projectId);
+        if (!task || !project) return;
+        if (!rowsByTask.has(task.id)) rowsByTask.set(task.id, { project, task, days: days.map(() => 0), total: 0 });
+        const row = rowsByTask.get(task.id)!;
+        const duration = getEntryDuration(entry);
+        row.days[days.indexOf(toDateKey(new Date(entry.start)))] += duration;
+        row.total += duration;
+    });
+
+    const rows = Array.from(rowsByTask.values())
+        .sort((a, b) => a.project.order - b.project.order || a.project.name.localeCompare(b.project.name) || a.task.title.localeCompare(b.task.title));
+    return { days, rows, entries: entries.sort((a, b) => a.start.localeCompare(b.start)) };
+};
@@ -1,12 +1,44 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync, readdirSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 
-export default defineConfig(({ mode }) => {
+const packageJson = JSON.parse(readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'));
+
+// Emits sw.js from service-worker.js with the built files to precache. The cache version is a hash
+// of their contents, so the worker changes, and browsers offer the update, whenever the app does.
+const serviceWorker = (): Plugin => ({
+    name: 'focusflow-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+        const publicDir = path.resolve(__dirname, 'public');
+        const publicFiles = readdirSync(publicDir, { recursive: true, withFileTypes: true })
+            .filter(entry => entry.isFile())
+            .map(entry => path.relative(publicDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+        const hash = createHash('sha256');
+        const bundled = Object.values(bundle).filter(file => !file.fileName.endsWith('.map')).map(file => {
+            hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+            return file.fileName;
+        });
+        publicFiles.forEach(file => hash.update(file).update(readFileSync(path.join(publicDir, file))));
+        const source = readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+            .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+            .replace('__PRECACHE_URLS__', JSON.stringify([...bundled, ...publicFiles]));
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+});
+
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.APP_VERSION': JSON.stringify(packageJson.version),
+        // The dev server has no service worker to register
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build' ? 'sw.js' : '')
       },
       resolve: {
         alias: {